@@ -1,7 +1,10 @@
 import { ANGLE_X, ANGLE_Y } from "./physics";
-import { Level } from "./levels";
+import { Level, TurretPosition } from "./levels";
 import { WORLD_SCALE_X, WORLD_SCALE_Y } from "./rendering";
 import { SpriteMask } from "./shipSprites";
+import { CollisionBuffer, CollisionResult, collisionAt } from "./collision";
+import { RngState, rnd } from "./rng";
+import { EventQueue, emit } from "./events";
 
 export interface Bullet {
   x: number;
@@ -14,7 +17,6 @@ export interface TurretFiringState {
   bullets: Bullet[];
   shootProbability: number;
   tickCounter: number;
-  turretsFiredThisTick: boolean;
 }
 
 const MAX_BULLETS = 31;
@@ -37,8 +39,22 @@ const BULLET_OFFSETS: Record<string, { x: number; y: number }> = {
   down_left:  { x: 1, y: 8 },
 };
 
-function randomByte(): number {
-  return Math.floor(Math.random() * 256);
+/** Where a turret's bullets spawn, in world coordinates. */
+export function turretMuzzle(turret: TurretPosition): { x: number; y: number } {
+  const offset = BULLET_OFFSETS[turret.direction];
+  return { x: turret.x + offset.x, y: turret.y + offset.y };
+}
+
+/**
+ * Every angle (0-31) a turret can fire at: the base angle from its gun
+ * parameter plus the full range of the random spread and jitter.
+ */
+export function turretFiringAngles(gunParam: number): number[] {
+  const base = gunParam & GUN_BASE_ANGLE_MASK;
+  const reach = SPREAD_TABLE[gunParam & GUN_SPREAD_INDEX_MASK] + GUN_JITTER_MASK;
+  const angles: number[] = [];
+  for (let i = 0; i <= reach; i++) angles.push((base + i) & ANGLE_MASK);
+  return angles;
 }
 
 export function createTurretFiringState(): TurretFiringState {
@@ -46,12 +62,13 @@ export function createTurretFiringState(): TurretFiringState {
     bullets: [],
     shootProbability: 1,
     tickCounter: 0,
-    turretsFiredThisTick: false,
   };
 }
 
 export function tickTurrets(
   state: TurretFiringState,
+  events: EventQueue,
+  rng: RngState,
   level: Level,
   playerX: number,
   playerY: number,
@@ -62,7 +79,6 @@ export function tickTurrets(
   destroyedTurrets?: Set<number>,
   gunsSuppressed?: boolean,
 ): void {
-  state.turretsFiredThisTick = false;
   // Process each turret
   for (let i = 0; i < level.turrets.length; i++) {
     if (destroyedTurrets?.has(i)) continue;
@@ -76,7 +92,7 @@ export function tickTurrets(
     if (screenX < 0 || screenX >= viewportW || screenY < 0 || screenY >= viewportH) continue;
 
     // Gate: probability
-    if (randomByte() >= state.shootProbability) continue;
+    if (rnd(rng) >= state.shootProbability) continue;
 
     // Max bullets check
     if (state.bullets.length >= MAX_BULLETS) continue;
@@ -87,8 +103,8 @@ export function tickTurrets(
     const baseAngleOffset = param & GUN_BASE_ANGLE_MASK;
     const spreadMask = SPREAD_TABLE[spreadIndex];
 
-    const rndA = randomByte();
-    const rndB = randomByte();
+    const rndA = rnd(rng);
+    const rndB = rnd(rng);
     const jitter = rndA & GUN_JITTER_MASK;
     const spread = rndB & spreadMask;
     const angle = (spread + baseAngleOffset + jitter) & ANGLE_MASK;
@@ -97,17 +113,11 @@ export function tickTurrets(
     const dx = ANGLE_X[angle];
     const dy = ANGLE_Y[angle];
 
-    // Get spawn offset
-    const offset = BULLET_OFFSETS[turret.direction];
-
     // Spawn bullet in world coordinates
-    state.bullets.push({
-      x: turret.x + offset.x,
-      y: turret.y + offset.y,
-      dx,
-      dy,
-    });
-    state.turretsFiredThisTick = true;
+    const muzzle = turretMuzzle(turret);
+    const bullet = { x: muzzle.x, y: muzzle.y, dx, dy };
+    state.bullets.push(bullet);
+    emit(events, { type: "TurretFired", turretIndex: i, x: bullet.x, y: bullet.y });
   }
 
   // Update all bullets: move, remove when off-screen
@@ -139,26 +149,16 @@ export function renderBullets(
 
 export function removeCollidingBullets(
   state: TurretFiringState,
-  imageData: ImageData,
+  collision: CollisionBuffer,
   camX: number,
   camY: number,
 ): void {
-  const { data, width, height } = imageData;
-
   state.bullets = state.bullets.filter(bullet => {
     const bx = Math.round(bullet.x * WORLD_SCALE_X - camX);
     const by = Math.round(bullet.y * WORLD_SCALE_Y - camY);
     for (let px = 0; px < 2; px++) {
       for (let py = 0; py < 2; py++) {
-        const x = bx + px;
-        const y = by + py;
-        if (x < 0 || x >= width || y < 0 || y >= height) continue;
-        const idx = (y * width + x) * 4;
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-        // Terrain is blue (0,0,255) in the collision buffer
-        if (r === 0 && g === 0 && b === 255) return false;
+        if (collisionAt(collision, bx + px, by + py) === CollisionResult.Terrain) return false;
       }
     }
     return true;
@@ -180,7 +180,6 @@ export interface PlayerShootingState {
   bullets: PlayerBullet[];   // exactly 4 slots (round-robin)
   bulletIndex: number;       // 0-3, advances after each shot
   pressedFire: boolean;      // single-shot latch
-  firedThisTick: boolean;
 }
 
 export function createPlayerShootingState(): PlayerShootingState {
@@ -193,12 +192,12 @@ export function createPlayerShootingState(): PlayerShootingState {
     ],
     bulletIndex: 0,
     pressedFire: false,
-    firedThisTick: false,
   };
 }
 
 export function tickPlayerShooting(
   state: PlayerShootingState,
+  events: EventQueue,
   fireKeyDown: boolean,
   shieldActive: boolean,
   shipAngle: number,
@@ -209,8 +208,6 @@ export function tickPlayerShooting(
 ): void {
   // Gate 1: pod destroying player — skip for now (not implemented)
 
-  state.firedThisTick = false;
-
   // Gate 2: shield/fire mutual exclusion
   if (shieldActive) {
     state.pressedFire = true;
@@ -250,7 +247,7 @@ export function tickPlayerShooting(
 
   slot.active = true;
   slot.lifetime = BULLET_LIFETIME;
-  state.firedThisTick = true;
+  emit(events, { type: "ShotFired", x: slot.x, y: slot.y });
 
   // Advance round-robin index
   state.bulletIndex = (state.bulletIndex + 1) & BULLET_INDEX_MASK;
@@ -303,7 +300,7 @@ export interface BulletHitResult {
 
 export function processPlayerBulletCollisions(
   state: PlayerShootingState,
-  imageData: ImageData,
+  collision: CollisionBuffer,
   camX: number,
   camY: number,
   turrets: readonly { x: number; y: number }[],
@@ -312,7 +309,6 @@ export function processPlayerBulletCollisions(
   destroyedFuel: Set<number>,
 ): BulletHitResult {
   const result: BulletHitResult = { hitTurrets: [], hitFuel: [], hitGenerator: false, generatorHitX: 0, generatorHitY: 0, hitSwitch: false, switchHitX: 0, switchHitY: 0 };
-  const { data, width, height } = imageData;
 
   for (const bullet of state.bullets) {
     if (!bullet.active) continue;
@@ -323,19 +319,13 @@ export function processPlayerBulletCollisions(
 
     for (let px = 0; px < 2 && hitColor === 'none'; px++) {
       for (let py = 0; py < 2 && hitColor === 'none'; py++) {
-        const x = bx + px;
-        const y = by + py;
-        if (x < 0 || x >= width || y < 0 || y >= height) continue;
-        const idx = (y * width + x) * 4;
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-
-        if (r === 0 && g === 0 && b === 0) continue;
-        if (r === 0 && g === 255 && b === 0) { hitColor = 'switch'; }
-        else if (r === 255 && g === 0 && b === 0) { hitColor = 'turret'; }
-        else if (r === 255 && g === 0 && b === 255) { hitColor = 'fuel'; }
-        else if (r === 0 && g === 255 && b === 255) { hitColor = 'generator'; }
+        const hit = collisionAt(collision, bx + px, by + py);
+
+        if (hit === CollisionResult.None) continue;
+        if (hit === CollisionResult.Switch) { hitColor = 'switch'; }
+        else if (hit === CollisionResult.Turret) { hitColor = 'turret'; }
+        else if (hit === CollisionResult.Fuel) { hitColor = 'fuel'; }
+        else if (hit === CollisionResult.PowerPlant) { hitColor = 'generator'; }
         else { hitColor = 'terrain'; }
       }
     }
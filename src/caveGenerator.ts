@@ -0,0 +1,438 @@
+/**
+ * Procedural cave generator: builds a Level from a seed and a set of
+ * difficulty parameters, for practice beyond the six stock levels.
+ *
+ * Caves are drawn the way the original levels are: a left and a right
+ * terrain wall running down from the planet surface, made of vertical
+ * runs, 45° slopes and one-row jumps, so a cave can also go through the
+ * 6502 table encoder. The descent is a chain of vertical shafts. Between
+ * two shafts the walls either slope across together or open out into a
+ * chamber: a wall jumping outwards leaves an overhang at the top of the
+ * chamber and a wall jumping inwards leaves a ledge at the bottom.
+ * Turrets and fuel go on those ledges and overhangs, a switch-operated
+ * door can block one shaft, and the pod pedestal and power plant sit on
+ * the floor of a last chamber at the bottom.
+ *
+ * The same seed and parameters always give the same cave. A layout that
+ * validateLevel() finds any issue with is thrown away and the next one is
+ * drawn from the same random sequence.
+ */
+
+import { Level, Polygon, ObjectPosition, TurretDirection, TurretPosition, SwitchPosition, SpawnPoint, DoorConfig, DoorType } from "./levels";
+import { RngState, createRng, rnd } from "./rng";
+import { bbcMicroColours } from "./rendering";
+import { spawnPointAt } from "./game";
+import { presetDoorAt } from "./doors";
+import { turretFiringAngles } from "./bullets";
+import { validateLevel } from "./levelValidator";
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+export interface CaveParams {
+  /** Shafts between the surface and the pod chamber */
+  sections: number;
+  /** Narrowest and widest shaft (world units) */
+  minGap: number;
+  maxGap: number;
+  /** Chance out of 256 that a ledge or overhang gets a turret */
+  turretChance: number;
+  /** Widest turret firing arc, as a gun parameter spread index (0-3) */
+  maxSpread: number;
+  /** Fuel tanks inside the cave, besides the one on the surface */
+  fuel: number;
+  /** Block one shaft with a door, opened by switches above and below it */
+  door: boolean;
+  /** Gravity as a fractional byte per tick, as in Level */
+  gravity: number;
+}
+
+export const MAX_CAVE_DIFFICULTY = 5;
+
+/** Difficulty of the caves the title screen and editor generate */
+export const DEFAULT_CAVE_DIFFICULTY = 2;
+
+/** Gravity of the stock level of the same number, carried on for the harder ones */
+const GRAVITY_BY_DIFFICULTY = [0x05, 0x07, 0x09, 0x0B, 0x0C, 0x0D];
+
+/** Parameters for a difficulty from 0 (a gentle cave) to MAX_CAVE_DIFFICULTY. */
+export function caveParams(difficulty: number): CaveParams {
+  const d = Math.max(0, Math.min(MAX_CAVE_DIFFICULTY, Math.floor(difficulty)));
+  return {
+    sections: 4 + d,
+    minGap: 32 - 2 * d,
+    maxGap: 50 - 2 * d,
+    turretChance: 80 + 30 * d,
+    maxSpread: Math.min(3, 1 + Math.floor(d / 2)),
+    fuel: 2 + Math.floor(d / 2),
+    door: d >= 3,
+    gravity: GRAVITY_BY_DIFFICULTY[d],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Layouts tried before giving up on a seed */
+const MAX_ATTEMPTS = 30;
+
+/** Walls stay inside this range so nothing wraps around the world */
+const X_MIN = 24;
+const X_MAX = 232;
+
+/** Where the planet surface can be; the stock levels have it at 414-441 */
+const SURFACE_Y_MIN = 414;
+const SURFACE_Y_MAX = 441;
+
+/** Every stock level starts the ship here, above the surface */
+const START_X = 112;
+const START_Y = 401;
+
+const SHAFT_HEIGHT_MIN = 20;
+const SHAFT_HEIGHT_MAX = 48;
+const CHAMBER_HEIGHT_MIN = 18;
+const CHAMBER_HEIGHT_MAX = 28;
+/** Furthest a shaft moves sideways from the one above it */
+const MAX_SHIFT = 40;
+/** Furthest a slope carries both walls across, and the narrowest shaft that gets one */
+const MAX_SLOPE = 24;
+const SLOPE_MIN_GAP = 26;
+/** Chance out of 256 of a slope rather than a chamber, where a slope fits */
+const SLOPE_CHANCE = 96;
+/** A checkpoint goes in every this many shafts */
+const CHECKPOINT_EVERY = 2;
+
+/** Open rows above and below the door in the gate shaft; the switches sit in them */
+const GATE_MARGIN = 20;
+const GATE_SWITCH_OFFSET = 4;
+
+const POD_CHAMBER_WIDTH_MIN = 44;
+const POD_CHAMBER_WIDTH_MAX = 60;
+const POD_CHAMBER_HEIGHT_MIN = 24;
+const POD_CHAMBER_HEIGHT_MAX = 32;
+
+/** Object widths in world units, and where each sits relative to the terrain it rests on */
+const FUEL_W = 4;
+const FUEL_ABOVE_FLOOR = 6;
+const TURRET_W = 5;
+const TURRET_ABOVE_FLOOR = 7;
+const TURRET_BELOW_CEILING = 1;
+const PEDESTAL_W = 3;
+const PEDESTAL_ABOVE_FLOOR = 9;
+const PLANT_W = 5;
+const PLANT_ABOVE_FLOOR = 8;
+/** Distance kept between an object and the wall beside it */
+const WALL_CLEARANCE = 1;
+/** Length of a switch, which is mounted this far out from its wall */
+const SWITCH_W = 2;
+
+/** Centre of the firing arc for each way a turret can face (angle 0 is up, 8 right) */
+const TURRET_AIM: Record<TurretDirection, number> = {
+  up_right: 4,
+  down_right: 12,
+  down_left: 20,
+  up_left: 28,
+};
+
+const DOOR_TYPES: DoorType[] = ["slide", "step", "chevron"];
+const COLOURS = [bbcMicroColours.red, bbcMicroColours.green, bbcMicroColours.yellow, bbcMicroColours.magenta, bbcMicroColours.cyan];
+
+// ---------------------------------------------------------------------------
+// Layout state
+// ---------------------------------------------------------------------------
+
+/**
+ * A ledge (floor) or overhang (ceiling) left by a wall jumping sideways.
+ * For a floor, y is its first solid row; for a ceiling, its last. x0-x1
+ * is the part of it open to the cave.
+ */
+interface Ledge {
+  kind: "floor" | "ceiling";
+  side: "left" | "right";
+  x0: number;
+  x1: number;
+  y: number;
+}
+
+/** The cave as it is drawn downwards; both walls always end on row y. */
+interface CaveLayout {
+  rng: RngState;
+  params: CaveParams;
+  left: Polygon;
+  right: Polygon;
+  l: number;
+  r: number;
+  y: number;
+  ledges: Ledge[];
+  spawnPoints: SpawnPoint[];
+  switches: SwitchPosition[];
+  doorConfig: DoorConfig | null;
+}
+
+/** A random whole number from lo to hi inclusive. */
+function between(rng: RngState, lo: number, hi: number): number {
+  if (hi <= lo) return lo;
+  return lo + (((rnd(rng) << 8) | rnd(rng)) % (hi - lo + 1));
+}
+
+function pick<T>(rng: RngState, items: readonly T[]): T {
+  return items[rnd(rng) % items.length];
+}
+
+/** Add a vertex, running it into the last one if both make one vertical edge. */
+function addVertex(wall: Polygon, x: number, y: number): void {
+  const n = wall.length;
+  if (n >= 4 && wall[n - 2] === x && wall[n - 4] === x) {
+    wall[n - 1] = y;
+  } else {
+    wall.push(x, y);
+  }
+}
+
+/**
+ * Take both walls down `rows` rows to new edges l and r. A one-row step
+ * is a jump and leaves a ledge or overhang wherever a wall moved.
+ */
+function step(cave: CaveLayout, l: number, r: number, rows: number): void {
+  if (rows === 1) {
+    if (l > cave.l) cave.ledges.push({ kind: "floor", side: "left", x0: cave.l, x1: l, y: cave.y + 1 });
+    if (l < cave.l) cave.ledges.push({ kind: "ceiling", side: "left", x0: l, x1: cave.l, y: cave.y });
+    if (r < cave.r) cave.ledges.push({ kind: "floor", side: "right", x0: r, x1: cave.r, y: cave.y + 1 });
+    if (r > cave.r) cave.ledges.push({ kind: "ceiling", side: "right", x0: cave.r, x1: r, y: cave.y });
+  }
+  cave.y += rows;
+  cave.l = l;
+  cave.r = r;
+  addVertex(cave.left, l, cave.y);
+  addVertex(cave.right, r, cave.y);
+}
+
+/**
+ * Open out into a chamber and narrow into the shaft l-r below it: walls
+ * moving outwards jump at the top, walls moving inwards at the bottom.
+ */
+function chamber(cave: CaveLayout, l: number, r: number, height: number): void {
+  const outerL = Math.min(l, cave.l);
+  const outerR = Math.max(r, cave.r);
+  step(cave, outerL, outerR, 1);
+  step(cave, outerL, outerR, height);
+  step(cave, l, r, 1);
+}
+
+/** Move on from the current shaft to the shaft l-r, by a slope if it lines up or else a chamber. */
+function transition(cave: CaveLayout, l: number, r: number): void {
+  const shift = l - cave.l;
+  if (r - shift === cave.r && shift !== 0 && Math.abs(shift) <= MAX_SLOPE) {
+    step(cave, l, r, Math.abs(shift));
+  } else {
+    chamber(cave, l, r, between(cave.rng, CHAMBER_HEIGHT_MIN, CHAMBER_HEIGHT_MAX));
+  }
+}
+
+/** The next shaft: a new width, moved sideways a little, kept inside the world. */
+function nextShaft(cave: CaveLayout): { l: number; r: number } {
+  const { rng, params } = cave;
+  const gap = cave.r - cave.l;
+  if (gap >= SLOPE_MIN_GAP && rnd(rng) < SLOPE_CHANCE) {
+    const shift = between(rng, -MAX_SLOPE, MAX_SLOPE);
+    const l = Math.max(X_MIN, Math.min(X_MAX - gap, cave.l + shift));
+    return { l, r: l + gap };
+  }
+  const width = between(rng, params.minGap, params.maxGap);
+  const centre = (cave.l + cave.r) / 2 + between(rng, -MAX_SHIFT, MAX_SHIFT);
+  const l = Math.max(X_MIN, Math.min(X_MAX - width, Math.round(centre - width / 2)));
+  return { l, r: l + width };
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+/** A plain vertical shaft, with a checkpoint halfway down if one is due. */
+function shaft(cave: CaveLayout, height: number, checkpoint: boolean): void {
+  const top = cave.y;
+  step(cave, cave.l, cave.r, height);
+  if (checkpoint) {
+    cave.spawnPoints.push(spawnPointAt(Math.round((cave.l + cave.r) / 2), top + Math.floor(height / 2)));
+  }
+}
+
+/**
+ * A shaft just wide enough for a door, laid out like the gate in the
+ * stock level 3: the door's closed edge on the right wall and its open
+ * edge on the left, with a switch on the right wall above and below it.
+ */
+function gate(cave: CaveLayout): void {
+  const type = pick(cave.rng, DOOR_TYPES);
+  const shape = presetDoorAt(type, 0, 0);
+  const width = shape.closedX - shape.innerX;
+  const centre = (cave.l + cave.r) / 2 + between(cave.rng, -MAX_SHIFT, MAX_SHIFT);
+  const r = Math.max(X_MIN + width, Math.min(X_MAX, Math.round(centre + width / 2)));
+  transition(cave, r - width, r);
+
+  const top = cave.y;
+  const door = presetDoorAt(type, r, top + GATE_MARGIN);
+  step(cave, cave.l, cave.r, GATE_MARGIN * 2 + door.scanlines);
+  cave.doorConfig = door;
+  cave.switches.push(
+    { x: r - SWITCH_W, y: top + GATE_SWITCH_OFFSET, direction: "left" },
+    { x: r - SWITCH_W, y: door.worldY + door.scanlines + GATE_SWITCH_OFFSET, direction: "left" },
+  );
+}
+
+/**
+ * The chamber at the bottom: the walls open out and the left wall closes
+ * across to the right one, giving a floor for the pedestal and the
+ * power plant, one at each end.
+ */
+function podChamber(cave: CaveLayout): { podPedestal: ObjectPosition; powerPlant: ObjectPosition } {
+  const { rng } = cave;
+  const width = between(rng, POD_CHAMBER_WIDTH_MIN, POD_CHAMBER_WIDTH_MAX);
+  const centre = (cave.l + cave.r) / 2 + between(rng, -MAX_SHIFT / 2, MAX_SHIFT / 2);
+  const l = Math.max(X_MIN, Math.min(cave.l, Math.round(centre - width / 2)));
+  const r = Math.min(X_MAX, Math.max(cave.r, l + width));
+
+  step(cave, l, r, 1);
+  step(cave, l, r, between(rng, POD_CHAMBER_HEIGHT_MIN, POD_CHAMBER_HEIGHT_MAX));
+  step(cave, r, r, 1);
+  // That last jump is the chamber floor, which has its own objects
+  cave.ledges.pop();
+
+  const floor = cave.y;
+  const pedestalLeft = rnd(rng) < 128;
+  const podX = pedestalLeft ? l + WALL_CLEARANCE : r - PEDESTAL_W - WALL_CLEARANCE;
+  const plantX = pedestalLeft ? r - PLANT_W - WALL_CLEARANCE : l + WALL_CLEARANCE;
+  return {
+    podPedestal: { x: podX, y: floor - PEDESTAL_ABOVE_FLOOR },
+    powerPlant: { x: plantX, y: floor - PLANT_ABOVE_FLOOR },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Objects
+// ---------------------------------------------------------------------------
+
+/** x for an object of width w on a ledge, tucked into the corner with its wall. */
+function ledgeX(ledge: Ledge, w: number): number {
+  return ledge.side === "left" ? ledge.x0 + WALL_CLEARANCE : ledge.x1 - w - WALL_CLEARANCE;
+}
+
+function ledgeFits(ledge: Ledge, w: number): boolean {
+  return ledge.x1 - ledge.x0 >= w + 2 * WALL_CLEARANCE;
+}
+
+/** A gun parameter whose firing arc is centred roughly on the way the turret faces. */
+function aimTurret(rng: RngState, direction: TurretDirection, maxSpread: number): number {
+  const spread = between(rng, 0, maxSpread);
+  const arc = turretFiringAngles(spread).length;
+  const base = TURRET_AIM[direction] - (arc - 1) / 2 + between(rng, -2, 2);
+  return ((Math.round(base / 4) * 4) & 0x1C) | spread;
+}
+
+function turretOn(rng: RngState, ledge: Ledge, maxSpread: number): TurretPosition {
+  const direction: TurretDirection = ledge.kind === "floor"
+    ? (ledge.side === "left" ? "up_right" : "up_left")
+    : (ledge.side === "left" ? "down_right" : "down_left");
+  const y = ledge.kind === "floor" ? ledge.y - TURRET_ABOVE_FLOOR : ledge.y + TURRET_BELOW_CEILING;
+  return { x: ledgeX(ledge, TURRET_W), y, direction, gunParam: aimTurret(rng, direction, maxSpread) };
+}
+
+/** Fuel on random floors wide enough for it, then turrets by chance on what's left. */
+function placeObjects(cave: CaveLayout): { fuel: ObjectPosition[]; turrets: TurretPosition[] } {
+  const { rng, params } = cave;
+  const free = [...cave.ledges];
+  const fuel: ObjectPosition[] = [];
+  for (let i = 0; i < params.fuel; i++) {
+    const floors = free.filter(ledge => ledge.kind === "floor" && ledgeFits(ledge, FUEL_W));
+    if (floors.length === 0) break;
+    const ledge = pick(rng, floors);
+    free.splice(free.indexOf(ledge), 1);
+    fuel.push({ x: ledgeX(ledge, FUEL_W), y: ledge.y - FUEL_ABOVE_FLOOR });
+  }
+  const turrets = free
+    .filter(ledge => ledgeFits(ledge, TURRET_W) && rnd(rng) < params.turretChance)
+    .map(ledge => turretOn(rng, ledge, params.maxSpread));
+  return { fuel, turrets };
+}
+
+// ---------------------------------------------------------------------------
+// Generation
+// ---------------------------------------------------------------------------
+
+/** One cave drawn from the random sequence, not yet validated. */
+function layOutCave(rng: RngState, params: CaveParams, name: string): Level {
+  const surface = between(rng, SURFACE_Y_MIN, SURFACE_Y_MAX);
+  const firstGap = between(rng, params.minGap, params.maxGap);
+  const firstL = between(rng, START_X - firstGap + 8, START_X - 8);
+  const cave: CaveLayout = {
+    rng,
+    params,
+    left: [0, surface, firstL, surface],
+    right: [256, surface, firstL + firstGap, surface],
+    l: firstL,
+    r: firstL + firstGap,
+    y: surface,
+    ledges: [],
+    spawnPoints: [spawnPointAt(START_X, START_Y)],
+    switches: [],
+    doorConfig: null,
+  };
+
+  // Surface fuel, on whichever side of the opening has more room
+  const surfaceFuel: ObjectPosition = cave.l - X_MIN > X_MAX - cave.r
+    ? { x: between(rng, X_MIN, cave.l - FUEL_W - WALL_CLEARANCE), y: surface - FUEL_ABOVE_FLOOR }
+    : { x: between(rng, cave.r + WALL_CLEARANCE, X_MAX - FUEL_W), y: surface - FUEL_ABOVE_FLOOR };
+
+  const gateAt = params.door ? Math.floor(params.sections / 2) : -1;
+  for (let i = 0; i < params.sections; i++) {
+    if (i > 0) {
+      const next = nextShaft(cave);
+      transition(cave, next.l, next.r);
+    }
+    shaft(cave, between(rng, SHAFT_HEIGHT_MIN, SHAFT_HEIGHT_MAX), i % CHECKPOINT_EVERY === CHECKPOINT_EVERY - 1);
+    if (i === gateAt) gate(cave);
+  }
+  const { podPedestal, powerPlant } = podChamber(cave);
+
+  // Bottom edge where the level decoder would put it, so the cave encodes
+  const bottom = Math.round((cave.y + 151) / 50) * 50;
+  addVertex(cave.left, cave.l, bottom);
+  addVertex(cave.right, cave.r, bottom);
+  cave.left.push(0, bottom);
+  cave.right.push(256, bottom);
+
+  const { fuel, turrets } = placeObjects(cave);
+  const terrainColor = pick(rng, COLOURS);
+  const objectColor = pick(rng, COLOURS.filter(colour => colour !== terrainColor));
+
+  return {
+    name,
+    terrainColor,
+    objectColor,
+    gravity: params.gravity,
+    spawnPoints: cave.spawnPoints,
+    polygons: [cave.left, cave.right],
+    turrets,
+    powerPlant,
+    podPedestal,
+    fuel: [surfaceFuel, ...fuel],
+    switches: cave.switches,
+    doorConfig: cave.doorConfig,
+  };
+}
+
+/**
+ * Generate a cave that passes validateLevel() with no errors or warnings.
+ * Throws if none of the layouts drawn for the seed do, which the default
+ * parameters make very unlikely.
+ */
+export function generateCave(seed: number, params: CaveParams): Level {
+  const rng = createRng(seed);
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const level = layOutCave(rng, params, `Cave ${seed}`);
+    if (validateLevel(level).length === 0) return level;
+  }
+  throw new Error(`No valid cave for seed ${seed} in ${MAX_ATTEMPTS} attempts`);
+}
@@ -1,6 +1,7 @@
 import { Level, SwitchPosition } from "./levels";
-import { fillPolygon, Point, bbcMicroColours, WORLD_SCALE_X, WORLD_SCALE_Y, WORLD_WIDTH } from "./rendering";
-import { SpriteMask, TurretSprites, SwitchSprites } from "./shipSprites";
+import { fillPolygon, FillTarget, Point, WORLD_SCALE_X, WORLD_SCALE_Y, WORLD_WIDTH } from "./rendering";
+import type { SpriteMask, SpriteCenter } from "./shipSprites";
+import { SHIP_MASK_DATA, OBJECT_SPRITE_SIZES } from "./collisionSprites";
 
 export enum CollisionResult {
   None       = 0,
@@ -9,68 +10,232 @@ export enum CollisionResult {
   Turret     = 3,
   PowerPlant = 4,
   Pod        = 5,
+  /** Switches stop bullets but the ship passes through them */
+  Switch     = 6,
 }
 
+/**
+ * Screen-sized grid of CollisionResult codes, one byte per pixel. Terrain
+ * and objects are rasterised straight into it each tick, so collision
+ * tests read plain memory — no canvas and no pixel readback.
+ */
 export interface CollisionBuffer {
-  canvas: HTMLCanvasElement;
-  ctx: CanvasRenderingContext2D;
+  cells: Uint8Array;
   width: number;
   height: number;
 }
 
-// Sentinel colour for terrain in the collision buffer.
-// Blue is not used by any object type, so it's unambiguous.
-const TERRAIN_COLLISION_COLOUR = "#0000ff";
+/** Only the dimensions of a sprite matter to the collision buffer. */
+export interface SpriteSize {
+  width: number;
+  height: number;
+}
+
+/** Collision shapes for the ship and the dimensions of every object sprite. */
+export interface CollisionSprites {
+  shipMasks: SpriteMask[];
+  shipCenters: SpriteCenter[];
+  fuel: SpriteSize;
+  turret: SpriteSize;
+  powerPlant: SpriteSize;
+  podStand: SpriteSize;
+  pod: SpriteSize;
+  switch: SpriteSize;
+}
 
 export function createCollisionBuffer(width: number, height: number): CollisionBuffer {
-  const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
-  return { canvas, ctx, width, height };
+  return { cells: new Uint8Array(width * height), width, height };
+}
+
+/** The code at a screen pixel, or None outside the buffer. */
+export function collisionAt(buf: CollisionBuffer, px: number, py: number): CollisionResult {
+  if (px < 0 || px >= buf.width || py < 0 || py >= buf.height) return CollisionResult.None;
+  return buf.cells[py * buf.width + px];
+}
+
+/** Fill a clipped rectangle with a code. Coordinates are rounded like canvas fills. */
+function fillCells(buf: CollisionBuffer, x: number, y: number, w: number, h: number, code: CollisionResult): void {
+  const x0 = Math.max(0, Math.round(x));
+  const y0 = Math.max(0, Math.round(y));
+  const x1 = Math.min(buf.width, Math.round(x + w));
+  const y1 = Math.min(buf.height, Math.round(y + h));
+  if (x0 >= x1) return;
+  for (let py = y0; py < y1; py++) {
+    buf.cells.fill(code, py * buf.width + x0, py * buf.width + x1);
+  }
+}
+
+/**
+ * Lets fillPolygon rasterise into the buffer: its spans are written as
+ * `code`, so terrain gets exactly the scanline-parity coverage it has on
+ * screen. The fill colour fillPolygon sets is ignored.
+ */
+function cellFillTarget(buf: CollisionBuffer, code: CollisionResult): FillTarget {
+  return {
+    fillStyle: "",
+    fillRect: (x: number, y: number, w: number, h: number) => fillCells(buf, x, y, w, h, code),
+  };
+}
+
+/**
+ * Ship collision masks and centres of mass built from the pre-extracted
+ * sprite data, matching what loadShipSprites() derives from the PNGs.
+ */
+export function loadShipCollisionMasks(): { masks: SpriteMask[]; centers: SpriteCenter[] } {
+  const masks: SpriteMask[] = [];
+  const centers: SpriteCenter[] = [];
+  for (const pairs of SHIP_MASK_DATA) {
+    const mask: SpriteMask = [];
+    let sumX = 0, sumY = 0;
+    for (let i = 0; i < pairs.length; i += 2) {
+      mask.push({ dx: pairs[i], dy: pairs[i + 1] });
+      sumX += pairs[i];
+      sumY += pairs[i + 1];
+    }
+    masks.push(mask);
+    centers.push({ x: sumX / mask.length, y: sumY / mask.length });
+  }
+  return { masks, centers };
+}
+
+/** Collision sprites built from pre-extracted data — no image decoding needed. */
+export function loadCollisionSprites(): CollisionSprites {
+  const { masks, centers } = loadShipCollisionMasks();
+  return { shipMasks: masks, shipCenters: centers, ...OBJECT_SPRITE_SIZES };
+}
+
+// ---------------------------------------------------------------------------
+// Terrain bitmap
+// ---------------------------------------------------------------------------
+
+/**
+ * A level's terrain polygons rasterised once, in world pixels. It is
+ * WORLD_WIDTH wide with x wrapping, and covers rows top..top+height-1;
+ * everything above or below is open space. Rows keep the world-locked
+ * scanline parity of the screen fill, so copying a window of it gives
+ * exactly what filling the polygons at the camera position would.
+ */
+export interface TerrainBitmap {
+  cells: Uint8Array;
+  width: number;
+  top: number;
+  height: number;
+}
+
+// Terrain never changes during a level, so each level is rasterised once
+const terrainBitmaps = new WeakMap<Level, TerrainBitmap>();
+
+function rasteriseTerrain(level: Level): TerrainBitmap {
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const poly of level.polygons) {
+    for (let i = 1; i < poly.length; i += 2) {
+      minY = Math.min(minY, poly[i] * WORLD_SCALE_Y);
+      maxY = Math.max(maxY, poly[i] * WORLD_SCALE_Y);
+    }
+  }
+  const top = minY === Infinity ? 0 : Math.ceil(minY);
+  const height = minY === Infinity ? 0 : Math.floor(maxY) - top + 1;
+  const bitmap: TerrainBitmap = { cells: new Uint8Array(WORLD_WIDTH * height), width: WORLD_WIDTH, top, height };
+
+  // Spans are written modulo the world width, so polygons crossing the
+  // seam wrap round just as the three screen offsets used to show them
+  const target: FillTarget = {
+    fillStyle: "",
+    fillRect: (x: number, y: number, w: number) => {
+      const row = (y - top) * WORLD_WIDTH;
+      for (let px = x; px < x + w; px++) {
+        bitmap.cells[row + (((px % WORLD_WIDTH) + WORLD_WIDTH) % WORLD_WIDTH)] = CollisionResult.Terrain;
+      }
+    },
+  };
+  for (const poly of level.polygons) {
+    const points: Point[] = [];
+    for (let i = 0; i < poly.length; i += 2) {
+      points.push({ x: poly[i] * WORLD_SCALE_X, y: poly[i + 1] * WORLD_SCALE_Y });
+    }
+    fillPolygon(target, points, "");
+  }
+  return bitmap;
+}
+
+/** The level's terrain bitmap, rasterised on first use. */
+export function getTerrainBitmap(level: Level): TerrainBitmap {
+  let bitmap = terrainBitmaps.get(level);
+  if (!bitmap) {
+    bitmap = rasteriseTerrain(level);
+    terrainBitmaps.set(level, bitmap);
+  }
+  return bitmap;
+}
+
+/** Whether a world pixel is terrain. Cheap enough for long-range queries such as line of sight. */
+export function terrainAt(bitmap: TerrainBitmap, px: number, py: number): boolean {
+  const row = py - bitmap.top;
+  if (row < 0 || row >= bitmap.height) return false;
+  const x = ((px % bitmap.width) + bitmap.width) % bitmap.width;
+  return bitmap.cells[row * bitmap.width + x] === CollisionResult.Terrain;
+}
+
+/** Copy the terrain under a camera at whole-pixel (camX, camY) into the screen buffer. */
+function blitTerrain(buf: CollisionBuffer, bitmap: TerrainBitmap, camX: number, camY: number): void {
+  const startX = ((camX % bitmap.width) + bitmap.width) % bitmap.width;
+  for (let sy = 0; sy < buf.height; sy++) {
+    const row = sy + camY - bitmap.top;
+    if (row < 0 || row >= bitmap.height) continue;
+    const src = row * bitmap.width;
+    let dst = sy * buf.width;
+    let x = startX;
+    let remaining = buf.width;
+    while (remaining > 0) {
+      const run = Math.min(remaining, bitmap.width - x);
+      buf.cells.set(bitmap.cells.subarray(src + x, src + x + run), dst);
+      dst += run;
+      remaining -= run;
+      x = 0;
+    }
+  }
 }
 
+// ---------------------------------------------------------------------------
+// Per-tick collision buffer
+// ---------------------------------------------------------------------------
+
+/**
+ * Fill the screen-sized buffer for a camera at whole-pixel (camX, camY):
+ * the level's precomputed terrain, then the things that change during
+ * play — the door, power plant, pod stand, fuel, turrets and switches.
+ */
 export function renderCollisionBuffer(
   buf: CollisionBuffer,
   level: Level,
   camX: number,
   camY: number,
-  fuelSprite?: ImageBitmap,
-  turretSprites?: TurretSprites,
-  powerPlantSprite?: ImageBitmap,
-  podStandSprite?: ImageBitmap,
+  fuelSprite?: SpriteSize,
+  turretSprite?: SpriteSize,
+  powerPlantSprite?: SpriteSize,
+  podStandSprite?: SpriteSize,
   destroyedTurrets?: Set<number>,
   destroyedFuel?: Set<number>,
   generatorDestroyed?: boolean,
   podDetached?: boolean,
-  switchSprites?: SwitchSprites,
+  switchSprite?: SpriteSize,
   doorPolygon?: Point[] | null,
 ): void {
-  const { ctx, width, height } = buf;
-  ctx.clearRect(0, 0, width, height);
+  buf.cells.fill(CollisionResult.None);
+  blitTerrain(buf, getTerrainBitmap(level), camX, camY);
 
   const wx = (x: number) => x * WORLD_SCALE_X;
   const wy = (y: number) => y * WORLD_SCALE_Y;
 
-  // Terrain polygons at three offsets to handle wrapping.
-  // Offsets are dynamic so collision stays correct beyond one world-width.
-  const baseOffset = Math.round(camX / WORLD_WIDTH) * WORLD_WIDTH;
-  const offsets = [baseOffset - WORLD_WIDTH, baseOffset, baseOffset + WORLD_WIDTH];
-  for (const offset of offsets) {
-    for (const poly of level.polygons) {
-      const points: Point[] = [];
-      for (let i = 0; i < poly.length; i += 2) {
-        points.push({ x: wx(poly[i]) - camX + offset, y: wy(poly[i + 1]) - camY });
-      }
-      fillPolygon(ctx, points, TERRAIN_COLLISION_COLOUR, Math.round(camY));
-    }
-  }
-
   // Door polygon (terrain collision) at wrapping offsets
   if (doorPolygon) {
+    const terrain = cellFillTarget(buf, CollisionResult.Terrain);
+    const baseOffset = Math.round(camX / WORLD_WIDTH) * WORLD_WIDTH;
+    const offsets = [baseOffset - WORLD_WIDTH, baseOffset, baseOffset + WORLD_WIDTH];
     for (const offset of offsets) {
       const offsetPoints = doorPolygon.map(p => ({ x: p.x + offset, y: p.y }));
-      fillPolygon(ctx, offsetPoints, TERRAIN_COLLISION_COLOUR, Math.round(camY));
+      fillPolygon(terrain, offsetPoints, "", Math.round(camY));
     }
   }
 
@@ -82,31 +247,28 @@ export function renderCollisionBuffer(
     return sx;
   };
 
-  const drawMarker = (ox: number, oy: number, colour: string) => {
+  const drawMarker = (ox: number, oy: number, code: CollisionResult) => {
     const sx = Math.round(toScreenX(ox));
     const sy = Math.round(wy(oy) - camY);
-    ctx.fillStyle = colour;
-    ctx.fillRect(sx - 3, sy - 3, 7, 7);
+    fillCells(buf, sx - 3, sy - 3, 7, 7, code);
   };
 
   if (!generatorDestroyed) {
     if (powerPlantSprite) {
       const sx = Math.round(toScreenX(level.powerPlant.x));
       const sy = Math.round(wy(level.powerPlant.y) - camY);
-      ctx.fillStyle = bbcMicroColours.cyan;
-      ctx.fillRect(sx, sy - 2, powerPlantSprite.width, powerPlantSprite.height);
+      fillCells(buf, sx, sy - 2, powerPlantSprite.width, powerPlantSprite.height, CollisionResult.PowerPlant);
     } else {
-      drawMarker(level.powerPlant.x, level.powerPlant.y, bbcMicroColours.cyan);
+      drawMarker(level.powerPlant.x, level.powerPlant.y, CollisionResult.PowerPlant);
     }
   }
   if (!podDetached) {
     if (podStandSprite) {
       const sx = Math.round(toScreenX(level.podPedestal.x));
       const sy = Math.round(wy(level.podPedestal.y) - camY);
-      ctx.fillStyle = bbcMicroColours.white;
-      ctx.fillRect(sx, sy - 1, podStandSprite.width, podStandSprite.height);
+      fillCells(buf, sx, sy - 1, podStandSprite.width, podStandSprite.height, CollisionResult.Pod);
     } else {
-      drawMarker(level.podPedestal.x, level.podPedestal.y, bbcMicroColours.white);
+      drawMarker(level.podPedestal.x, level.podPedestal.y, CollisionResult.Pod);
     }
   }
   for (let i = 0; i < level.fuel.length; i++) {
@@ -115,56 +277,43 @@ export function renderCollisionBuffer(
     if (fuelSprite) {
       const sx = Math.round(toScreenX(f.x));
       const sy = Math.round(wy(f.y) - camY);
-      const fx = sx;
-      const fy = sy - 2;
-      ctx.fillStyle = bbcMicroColours.magenta;
-      ctx.fillRect(fx, fy, fuelSprite.width, fuelSprite.height);
+      fillCells(buf, sx, sy - 2, fuelSprite.width, fuelSprite.height, CollisionResult.Fuel);
     } else {
-      drawMarker(f.x, f.y, bbcMicroColours.magenta);
+      drawMarker(f.x, f.y, CollisionResult.Fuel);
     }
   }
   for (let i = 0; i < level.turrets.length; i++) {
     if (destroyedTurrets?.has(i)) continue;
     const t = level.turrets[i];
-    if (turretSprites) {
-      // Use upRight as representative size (all 4 are the same dimensions)
-      const w = turretSprites.upRight.width;
-      const h = turretSprites.upRight.height;
+    if (turretSprite) {
+      // All four turret orientations share the same dimensions
+      const w = turretSprite.width;
+      const h = turretSprite.height;
       const sx = Math.round(toScreenX(t.x));
       const sy = Math.round(wy(t.y) - camY);
-      ctx.fillStyle = bbcMicroColours.red;
-      ctx.fillRect(sx, sy - 1, w, h);
+      fillCells(buf, sx, sy - 1, w, h, CollisionResult.Turret);
     } else {
-      drawMarker(t.x, t.y, bbcMicroColours.red);
+      drawMarker(t.x, t.y, CollisionResult.Turret);
     }
   }
-  // Switches: render as green sentinel rectangles (for bullet detection)
-  if (switchSprites) {
-    const switchW = switchSprites.left.width;
-    const switchH = switchSprites.left.height;
+  // Switches: only bullets collide with them
+  if (switchSprite) {
+    const switchW = switchSprite.width;
+    const switchH = switchSprite.height;
     for (const sw of level.switches) {
       const sx = Math.round(toScreenX(sw.x));
       const sy = Math.round(wy(sw.y) - camY);
-      ctx.fillStyle = bbcMicroColours.green;
-      ctx.fillRect(sx, sy - 1, switchW, switchH);
+      fillCells(buf, sx, sy - 1, switchW, switchH, CollisionResult.Switch);
     }
   }
 }
 
-/** Test a single screen pixel against the collision buffer image data. */
-function testPixelCollision(data: Uint8ClampedArray, width: number, height: number, px: number, py: number): boolean {
-  if (px < 0 || px >= width || py < 0 || py >= height) return false;
-  const idx = (py * width + px) * 4;
-  return data[idx] + data[idx + 1] + data[idx + 2] > 0;
-}
-
 /** Test a Bresenham line for collision. Returns true if any pixel hits terrain/objects. */
 export function testLineCollision(
-  imageData: ImageData,
+  buf: CollisionBuffer,
   x0: number, y0: number,
   x1: number, y1: number,
 ): boolean {
-  const { data, width, height } = imageData;
   let cx = x0, cy = y0;
   const dx = Math.abs(x1 - x0);
   const dy = Math.abs(y1 - y0);
@@ -172,7 +321,7 @@ export function testLineCollision(
   const sy = y0 < y1 ? 1 : -1;
   let err = dx - dy;
   while (true) {
-    if (testPixelCollision(data, width, height, cx, cy)) return true;
+    if (collisionAt(buf, cx, cy) !== CollisionResult.None) return true;
     if (cx === x1 && cy === y1) break;
     const e2 = 2 * err;
     if (e2 > -dy) { err -= dy; cx += sx; }
@@ -183,14 +332,13 @@ export function testLineCollision(
 
 /** Test a rectangular area for collision. Returns true if any pixel hits terrain/objects. */
 export function testRectCollision(
-  imageData: ImageData,
+  buf: CollisionBuffer,
   sx: number, sy: number,
   w: number, h: number,
 ): boolean {
-  const { data, width, height } = imageData;
   for (let dy = 0; dy < h; dy++) {
     for (let dx = 0; dx < w; dx++) {
-      if (testPixelCollision(data, width, height, sx + dx, sy + dy)) return true;
+      if (collisionAt(buf, sx + dx, sy + dy) !== CollisionResult.None) return true;
     }
   }
   return false;
@@ -202,43 +350,13 @@ export function testCollision(
   shipScreenX: number,
   shipScreenY: number,
 ): CollisionResult {
-  const { ctx, width, height } = buf;
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
-
   let result = CollisionResult.None;
 
   for (const { dx, dy } of mask) {
-    const px = shipScreenX + dx;
-    const py = shipScreenY + dy;
-
-    if (px < 0 || px >= width || py < 0 || py >= height) continue;
-
-    const idx = (py * width + px) * 4;
-    const r = data[idx];
-    const g = data[idx + 1];
-    const b = data[idx + 2];
-
-    if (r + g + b === 0) continue;
-
-    // Green (0,255,0) = switch sentinel — ship passes through, no collision
-    if (r === 0 && g === 255 && b === 0) continue;
-
-    // Identify what was hit — higher-priority results override lower
-    let hit: CollisionResult;
-    if (r === 0 && g === 0 && b === 255) {
-      hit = CollisionResult.Terrain;
-    } else if (r === 255 && g === 0 && b === 0) {
-      hit = CollisionResult.Turret;
-    } else if (r === 0 && g === 255 && b === 255) {
-      hit = CollisionResult.PowerPlant;
-    } else if (r === 255 && g === 255 && b === 255) {
-      hit = CollisionResult.Pod;
-    } else if (r === 255 && g === 0 && b === 255) {
-      hit = CollisionResult.Fuel;
-    } else {
-      hit = CollisionResult.Terrain; // unknown colour — treat as terrain
-    }
+    const hit = collisionAt(buf, shipScreenX + dx, shipScreenY + dy);
+
+    // Switches don't stop the ship
+    if (hit === CollisionResult.None || hit === CollisionResult.Switch) continue;
 
     // Terrain is highest priority — return immediately
     if (hit === CollisionResult.Terrain) return CollisionResult.Terrain;
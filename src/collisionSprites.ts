@@ -0,0 +1,48 @@
+// Auto-generated from src/sprites/*.png
+// Generated by tools/sprites/extract-collision-masks.js — do not edit by hand
+
+/** Ship collision masks as flattened [dx, dy, dx, dy, ...] pairs, indexed by sprite (0-31). */
+export const SHIP_MASK_DATA: readonly (readonly number[])[] = [
+  [10,0,9,1,11,1,9,2,11,2,8,3,12,3,8,4,12,4,7,5,13,5,7,6,13,6,6,7,14,7,6,8,14,8,4,9,5,9,15,9,16,9,3,10,17,10,4,11,16,11,5,12,15,12,5,13,9,13,10,13,11,13,15,13,6,14,8,14,12,14,14,14,7,15,13,15],
+  [12,0,11,1,13,1,10,2,13,2,9,3,13,3,9,4,13,4,8,5,14,5,7,6,14,6,7,7,14,7,4,8,5,8,6,8,14,8,3,9,14,9,4,10,15,10,16,10,4,11,17,11,5,12,16,12,5,13,8,13,9,13,10,13,15,13,6,14,7,14,11,14,14,14,12,15,13,15],
+  [13,1,14,1,12,2,14,2,11,3,14,3,9,4,10,4,14,4,8,5,14,5,7,6,14,6,4,7,5,7,6,7,14,7,3,8,14,8,3,9,14,9,4,10,14,10,4,11,15,11,5,12,16,12,5,13,7,13,8,13,9,13,15,13,6,14,10,14,13,14,14,14,10,15,12,15,11,16],
+  [15,2,16,2,13,3,14,3,16,3,11,4,12,4,16,4,10,5,16,5,5,6,6,6,8,6,9,6,16,6,4,7,7,7,15,7,4,8,15,8,4,9,15,9,4,10,15,10,4,11,14,11,5,12,6,12,7,12,15,12,8,13,16,13,9,14,15,14,16,14,9,15,12,15,13,15,14,15,10,16,11,16],
+  [15,3,16,3,17,3,12,4,13,4,14,4,17,4,6,5,10,5,11,5,17,5,5,6,7,6,9,6,16,6,5,7,8,7,16,7,5,8,16,8,4,9,15,9,4,10,15,10,4,11,14,11,5,12,6,12,13,12,7,13,14,13,8,14,15,14,8,15,12,15,13,15,14,15,9,16,10,16,11,16],
+  [6,4,7,4,14,4,15,4,16,4,17,4,18,4,6,5,8,5,10,5,11,5,12,5,13,5,18,5,5,6,9,6,17,6,5,7,17,7,5,8,16,8,4,9,16,9,4,10,15,10,5,11,6,11,14,11,7,12,14,12,8,13,13,13,8,14,14,14,8,15,14,15,9,16,10,16,11,16,12,16,13,16],
+  [8,4,7,5,9,5,6,6,10,6,11,6,12,6,13,6,14,6,15,6,16,6,17,6,18,6,19,6,6,7,19,7,5,8,18,8,4,9,17,9,5,10,6,10,16,10,7,11,16,11,7,12,15,12,7,13,14,13,6,14,13,14,7,15,8,15,13,15,9,16,10,16,13,16,11,17,12,17],
+  [4,1,3,2,5,2,2,3,5,3,1,4,6,4,7,4,8,4,9,4,10,4,0,5,11,5,12,5,13,5,14,5,0,6,15,6,1,7,14,7,2,8,13,8,2,9,11,9,12,9,2,10,10,10,1,11,8,11,9,11,1,12,7,12,2,13,3,13,7,13,4,14,5,14,7,14,6,15],
+  [5,1,4,2,6,2,2,3,3,3,6,3,1,4,7,4,8,4,0,5,9,5,10,5,1,6,11,6,12,6,2,7,13,7,14,7,2,8,15,8,2,9,13,9,14,9,1,10,11,10,12,10,0,11,9,11,10,11,1,12,7,12,8,12,2,13,3,13,6,13,4,14,6,14,5,15],
+  [6,1,4,2,5,2,7,2,2,3,3,3,7,3,1,4,7,4,1,5,8,5,9,5,2,6,10,6,2,7,11,7,12,7,2,8,13,8,1,9,14,9,0,10,15,10,0,11,11,11,12,11,13,11,14,11,1,12,6,12,7,12,8,12,9,12,10,12,2,13,5,13,3,14,5,14,4,15],
+  [7,1,8,1,5,2,6,2,9,2,3,3,4,3,9,3,2,4,9,4,3,5,10,5,3,6,11,6,3,7,12,7,1,8,2,8,12,8,0,9,13,9,1,10,14,10,2,11,15,11,2,12,6,12,7,12,8,12,9,12,10,12,11,12,12,12,13,12,14,12,15,12,3,13,5,13,4,14],
+  [9,4,10,4,11,4,12,4,13,4,8,5,14,5,8,6,14,6,8,7,13,7,7,8,14,8,5,9,6,9,14,9,4,10,15,10,4,11,16,11,5,12,16,12,5,13,17,13,5,14,9,14,17,14,6,15,8,15,10,15,11,15,12,15,13,15,18,15,6,16,7,16,14,16,15,16,16,16,17,16,18,16],
+  [9,4,10,4,11,4,8,5,12,5,13,5,14,5,8,6,15,6,7,7,14,7,5,8,6,8,13,8,4,9,14,9,4,10,15,10,4,11,15,11,5,12,16,12,5,13,8,13,16,13,5,14,7,14,9,14,16,14,6,15,10,15,11,15,17,15,12,16,13,16,14,16,17,16,15,17,16,17,17,17],
+  [10,4,11,4,9,5,12,5,13,5,14,5,9,6,15,6,16,6,8,7,16,7,5,8,6,8,7,8,15,8,4,9,14,9,4,10,15,10,4,11,15,11,4,12,15,12,4,13,7,13,15,13,5,14,6,14,8,14,9,14,16,14,10,15,16,15,11,16,12,16,16,16,13,17,14,17,16,17,15,18,16,18],
+  [11,4,10,5,12,5,6,6,10,6,13,6,14,6,5,7,7,7,8,7,9,7,15,7,5,8,16,8,4,9,15,9,4,10,14,10,3,11,14,11,3,12,14,12,4,13,5,13,6,13,14,13,7,14,14,14,8,15,14,15,9,16,10,16,14,16,11,17,14,17,12,18,14,18,13,19,14,19],
+  [12,5,13,5,6,6,7,6,11,6,14,6,5,7,8,7,9,7,10,7,15,7,5,8,16,8,4,9,17,9,4,10,15,10,16,10,3,11,14,11,4,12,5,12,6,12,14,12,7,13,14,13,7,14,14,14,8,15,14,15,9,16,13,16,9,17,13,17,10,18,13,18,11,19,13,19,12,20],
+  [7,5,13,5,6,6,8,6,12,6,14,6,5,7,9,7,10,7,11,7,15,7,5,8,15,8,4,9,16,9,3,10,17,10,4,11,5,11,15,11,16,11,6,12,14,12,6,13,14,13,7,14,13,14,7,15,13,15,8,16,12,16,8,17,12,17,9,18,11,18,9,19,11,19,10,20],
+  [7,5,8,5,6,6,9,6,13,6,14,6,5,7,10,7,11,7,12,7,15,7,4,8,15,8,3,9,16,9,4,10,5,10,16,10,6,11,17,11,6,12,14,12,15,12,16,12,6,13,13,13,6,14,13,14,6,15,12,15,7,16,11,16,7,17,11,17,7,18,10,18,7,19,9,19,8,20],
+  [9,4,8,5,10,5,6,6,7,6,10,6,14,6,5,7,11,7,12,7,13,7,15,7,4,8,15,8,5,9,16,9,6,10,16,10,6,11,17,11,6,12,17,12,6,13,14,13,15,13,16,13,6,14,13,14,6,15,12,15,6,16,10,16,11,16,6,17,9,17,6,18,8,18,6,19,7,19],
+  [9,4,10,4,6,5,7,5,8,5,11,5,4,6,5,6,11,6,4,7,12,7,5,8,13,8,14,8,15,8,6,9,16,9,5,10,16,10,5,11,16,11,5,12,16,12,5,13,13,13,16,13,4,14,11,14,12,14,14,14,15,14,4,15,10,15,4,16,8,16,9,16,4,17,6,17,7,17,4,18,5,18],
+  [9,4,10,4,11,4,6,5,7,5,8,5,12,5,5,6,12,6,6,7,13,7,7,8,14,8,15,8,6,9,16,9,5,10,16,10,5,11,16,11,4,12,15,12,4,13,12,13,15,13,4,14,11,14,13,14,15,14,3,15,9,15,10,15,14,15,3,16,6,16,7,16,8,16,3,17,4,17,5,17],
+  [7,4,8,4,9,4,10,4,11,4,6,5,12,5,6,6,12,6,7,7,12,7,6,8,13,8,6,9,14,9,15,9,5,10,16,10,4,11,16,11,4,12,15,12,3,13,15,13,3,14,11,14,15,14,2,15,7,15,8,15,9,15,10,15,12,15,14,15,2,16,3,16,4,16,5,16,6,16,13,16,14,16],
+  [8,3,9,3,7,4,10,4,11,4,7,5,12,5,13,5,7,6,14,6,6,7,13,7,5,8,13,8,4,9,13,9,4,10,14,10,15,10,3,11,16,11,2,12,15,12,1,13,14,13,1,14,2,14,3,14,4,14,5,14,6,14,7,14,8,14,9,14,10,14,14,14,11,15,13,15,12,16],
+  [9,3,8,4,10,4,11,4,8,5,12,5,13,5,8,6,14,6,6,7,7,7,14,7,5,8,13,8,3,9,4,9,13,9,2,10,13,10,1,11,14,11,0,12,15,12,1,13,2,13,3,13,4,13,15,13,5,14,6,14,7,14,8,14,9,14,14,14,10,15,13,15,10,16,12,16,11,17],
+  [10,3,9,4,11,4,9,5,12,5,13,5,7,6,8,6,14,6,5,7,6,7,15,7,3,8,4,8,14,8,1,9,2,9,13,9,0,10,13,10,1,11,2,11,13,11,3,12,4,12,14,12,5,13,6,13,15,13,7,14,8,14,14,14,9,15,12,15,13,15,9,16,11,16,10,17],
+  [11,3,10,4,12,4,10,5,13,5,5,6,6,6,7,6,8,6,9,6,14,6,1,7,2,7,3,7,4,7,15,7,0,8,15,8,1,9,14,9,2,10,13,10,3,11,4,11,13,11,5,12,13,12,6,13,7,13,14,13,8,14,14,14,8,15,12,15,13,15,8,16,10,16,11,16,9,17],
+  [12,4,11,5,13,5,1,6,2,6,3,6,4,6,5,6,6,6,7,6,8,6,9,6,10,6,14,6,1,7,14,7,2,8,15,8,3,9,16,9,4,10,14,10,15,10,4,11,13,11,5,12,13,12,6,13,13,13,7,14,14,14,7,15,12,15,13,15,7,16,10,16,11,16,8,17,9,17],
+  [2,4,3,4,4,4,5,4,6,4,13,4,14,4,2,5,7,5,8,5,9,5,10,5,12,5,14,5,3,6,11,6,15,6,3,7,15,7,4,8,15,8,4,9,16,9,5,10,16,10,6,11,14,11,15,11,6,12,13,12,7,13,12,13,6,14,12,14,6,15,12,15,7,16,8,16,9,16,10,16,11,16],
+  [3,3,4,3,5,3,3,4,6,4,7,4,8,4,3,5,9,5,10,5,14,5,4,6,11,6,13,6,15,6,4,7,12,7,15,7,4,8,15,8,5,9,16,9,5,10,16,10,6,11,16,11,7,12,14,12,15,12,6,13,13,13,5,14,12,14,6,15,7,15,8,15,12,15,9,16,10,16,11,16],
+  [4,2,5,2,4,3,6,3,7,3,4,4,8,4,9,4,4,5,10,5,4,6,11,6,12,6,14,6,15,6,5,7,13,7,16,7,5,8,16,8,5,9,16,9,5,10,16,10,6,11,16,11,5,12,13,12,14,12,15,12,4,13,12,13,4,14,5,14,11,14,6,15,7,15,8,15,11,15,9,16,10,16],
+  [6,1,7,1,6,2,8,2,6,3,9,3,6,4,10,4,11,4,6,5,12,5,6,6,13,6,6,7,14,7,15,7,16,7,6,8,17,8,6,9,17,9,6,10,16,10,5,11,16,11,4,12,15,12,5,13,11,13,12,13,13,13,15,13,6,14,7,14,10,14,14,14,8,15,10,15,9,16],
+  [8,0,7,1,9,1,7,2,10,2,7,3,11,3,7,4,11,4,6,5,12,5,6,6,13,6,6,7,13,7,6,8,14,8,15,8,16,8,6,9,17,9,4,10,5,10,16,10,3,11,16,11,4,12,15,12,5,13,10,13,11,13,12,13,15,13,6,14,9,14,13,14,14,14,7,15,8,15],
+];
+
+/** Sprite dimensions (screen pixels) of the objects drawn into the collision buffer. */
+export const OBJECT_SPRITE_SIZES = {
+  fuel: { width: 16, height: 14 },
+  turret: { width: 20, height: 14 },
+  powerPlant: { width: 20, height: 18 },
+  podStand: { width: 11, height: 19 },
+  pod: { width: 11, height: 11 },
+  switch: { width: 8, height: 14 },
+} as const;
@@ -0,0 +1,221 @@
+/**
+ * Developer debug overlay.
+ *
+ * Draws the thresholds the rules use but the screen never shows: the
+ * scroll dead zone and brake zone, every spawn point, the collision
+ * buffer in false colour, each turret's firing arc, the tractor beam
+ * start and attach distances, the orbit escape line, and live physics
+ * values. It only draws — toggling it never changes the game.
+ */
+
+import { GameState, fillGameCollisionBuffer, TRACTOR_BEAM_START_DISTANCE, TRACTOR_ATTACH_DISTANCE, ORBIT_ESCAPE_Y } from "./game";
+import { CollisionBuffer, CollisionResult, createCollisionBuffer } from "./collision";
+import { turretMuzzle, turretFiringAngles } from "./bullets";
+import { ANGLE_X, ANGLE_Y } from "./physics";
+import { drawText, bbcMicroColours, WORLD_SCALE_X, WORLD_SCALE_Y, WORLD_WIDTH } from "./rendering";
+
+/** Ticks of bullet travel drawn for each firing angle */
+const ARC_TICKS = 12;
+const COLLISION_ALPHA = 128;
+const CHAR_W = 8;
+const LINE_H = 8;
+
+/** False colours for the collision buffer — the old canvas sentinel scheme */
+const COLLISION_RGB: Record<CollisionResult, [number, number, number]> = {
+  [CollisionResult.None]:       [0, 0, 0],
+  [CollisionResult.Terrain]:    [0, 0, 255],
+  [CollisionResult.Fuel]:       [255, 0, 255],
+  [CollisionResult.Turret]:     [255, 0, 0],
+  [CollisionResult.PowerPlant]: [0, 255, 255],
+  [CollisionResult.Pod]:        [255, 255, 255],
+  [CollisionResult.Switch]:     [0, 255, 0],
+};
+
+export interface DebugOverlay {
+  visible: boolean;
+  /** The overlay's own copy of the collision buffer, so tick()'s is never touched */
+  collision: CollisionBuffer;
+  image: ImageData;
+  /** Scratch canvas the false-colour image is put into before compositing */
+  canvas: HTMLCanvasElement;
+}
+
+export function createDebugOverlay(width: number, height: number): DebugOverlay {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return {
+    visible: false,
+    collision: createCollisionBuffer(width, height),
+    image: new ImageData(width, height),
+    canvas,
+  };
+}
+
+/** Screen x of a world x, wrapped to the copy of the world nearest the camera. */
+function toScreenX(worldX: number, camX: number): number {
+  let sx = worldX * WORLD_SCALE_X - camX;
+  while (sx < -WORLD_WIDTH / 2) sx += WORLD_WIDTH;
+  while (sx > WORLD_WIDTH / 2) sx -= WORLD_WIDTH;
+  return sx;
+}
+
+function toScreenY(worldY: number, camY: number): number {
+  return worldY * WORLD_SCALE_Y - camY;
+}
+
+function strokeLine(ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): void {
+  ctx.beginPath();
+  ctx.moveTo(x0, y0);
+  ctx.lineTo(x1, y1);
+  ctx.stroke();
+}
+
+// ---------------------------------------------------------------------------
+// Layers
+// ---------------------------------------------------------------------------
+
+/**
+ * The buffer is filled exactly as tick() fills it, from the camera at the
+ * last tick, then shifted to wherever the interpolated camera is drawing.
+ */
+function drawCollisionBuffer(ctx: CanvasRenderingContext2D, overlay: DebugOverlay, game: GameState, camX: number, camY: number): void {
+  const { collision, image } = overlay;
+  const tickCamX = Math.round(game.scroll.windowPos.x * WORLD_SCALE_X);
+  const tickCamY = Math.round(game.scroll.windowPos.y * WORLD_SCALE_Y);
+  fillGameCollisionBuffer(game, collision, tickCamX, tickCamY);
+  const data = image.data;
+  for (let i = 0; i < collision.cells.length; i++) {
+    const code = collision.cells[i] as CollisionResult;
+    const [r, g, b] = COLLISION_RGB[code];
+    data[i * 4] = r;
+    data[i * 4 + 1] = g;
+    data[i * 4 + 2] = b;
+    data[i * 4 + 3] = code === CollisionResult.None ? 0 : COLLISION_ALPHA;
+  }
+  overlay.canvas.getContext("2d")!.putImageData(image, 0, 0);
+  ctx.drawImage(overlay.canvas, tickCamX - camX, tickCamY - camY);
+}
+
+/** Dead zone (no scrolling inside) in yellow, brake zone in magenta. */
+function drawScrollZones(ctx: CanvasRenderingContext2D, game: GameState, camX: number, camY: number): void {
+  const config = game.scrollConfig;
+  const view = game.scroll.windowPos;
+  const sx = (viewX: number) => Math.round(toScreenX(view.x + viewX, camX)) + 0.5;
+  const sy = (viewY: number) => Math.round(toScreenY(view.y + config.statusBarOffset + viewY, camY)) + 0.5;
+
+  ctx.strokeStyle = bbcMicroColours.yellow;
+  ctx.strokeRect(
+    sx(config.xScrollLeftTrigger), sy(config.yScrollUpTrigger),
+    sx(config.xScrollRightTrigger) - sx(config.xScrollLeftTrigger),
+    sy(config.yScrollDownTrigger) - sy(config.yScrollUpTrigger),
+  );
+  ctx.strokeStyle = bbcMicroColours.magenta;
+  ctx.strokeRect(
+    sx(config.xBrakeLeftStop), sy(config.yBrakeUpStop),
+    sx(config.xBrakeRightStop) - sx(config.xBrakeLeftStop),
+    sy(config.yBrakeDownStop) - sy(config.yBrakeUpStop),
+  );
+}
+
+function drawOrbitLine(ctx: CanvasRenderingContext2D, camY: number): void {
+  const y = Math.round(toScreenY(ORBIT_ESCAPE_Y, camY)) + 0.5;
+  if (y < 0 || y >= ctx.canvas.height) return;
+  ctx.strokeStyle = bbcMicroColours.cyan;
+  ctx.setLineDash([4, 4]);
+  strokeLine(ctx, 0, y, ctx.canvas.width, y);
+  ctx.setLineDash([]);
+  drawText(ctx, "ORBIT", ctx.canvas.width - 5 * CHAR_W, y - 7, bbcMicroColours.cyan);
+}
+
+function drawSpawnPoints(ctx: CanvasRenderingContext2D, game: GameState, camX: number, camY: number): void {
+  ctx.strokeStyle = bbcMicroColours.green;
+  game.level.spawnPoints.forEach((spawn, i) => {
+    const x = Math.round(toScreenX(spawn.midpointX, camX)) + 0.5;
+    const y = Math.round(toScreenY(spawn.midpointY, camY)) + 0.5;
+    strokeLine(ctx, x - 4, y, x + 5, y);
+    strokeLine(ctx, x, y - 4, x, y + 5);
+    drawText(ctx, String(i), x + 4, y + 3, bbcMicroColours.green);
+  });
+}
+
+/** One ray per angle the turret can fire at, as far as a bullet travels in ARC_TICKS. */
+function drawTurretArcs(ctx: CanvasRenderingContext2D, game: GameState, camX: number, camY: number): void {
+  ctx.strokeStyle = bbcMicroColours.red;
+  game.level.turrets.forEach((turret, i) => {
+    if (game.destroyedTurrets.has(i)) return;
+    const muzzle = turretMuzzle(turret);
+    const x = toScreenX(muzzle.x, camX);
+    const y = toScreenY(muzzle.y, camY);
+    for (const angle of turretFiringAngles(turret.gunParam)) {
+      const dx = ANGLE_X[angle] * ARC_TICKS * WORLD_SCALE_X;
+      const dy = ANGLE_Y[angle] * ARC_TICKS * WORLD_SCALE_Y;
+      strokeLine(ctx, x, y, x + dx, y + dy);
+    }
+  });
+}
+
+/**
+ * The tractor beam distance is min + 3*max of the screen-pixel deltas,
+ * so each threshold is an octagon round the pod: D/3 out along the axes
+ * and D/4 along the diagonals.
+ */
+function strokeTractorZone(ctx: CanvasRenderingContext2D, cx: number, cy: number, distance: number): void {
+  const a = distance / 3;
+  const d = distance / 4;
+  const points = [[a, 0], [d, d], [0, a], [-d, d], [-a, 0], [-d, -d], [0, -a], [d, -d]];
+  ctx.beginPath();
+  for (const [px, py] of points) ctx.lineTo(cx + px, cy + py);
+  ctx.closePath();
+  ctx.stroke();
+}
+
+function drawTractorZones(ctx: CanvasRenderingContext2D, game: GameState, camX: number, camY: number): void {
+  if (game.physics.state.podAttached) return;
+  // Same pod circle centre tick() measures from
+  const cx = toScreenX(game.level.podPedestal.x, camX) + 5;
+  const cy = toScreenY(game.level.podPedestal.y, camY) + 4;
+  ctx.strokeStyle = bbcMicroColours.green;
+  strokeTractorZone(ctx, cx, cy, TRACTOR_BEAM_START_DISTANCE);
+  ctx.strokeStyle = bbcMicroColours.white;
+  strokeTractorZone(ctx, cx, cy, TRACTOR_ATTACH_DISTANCE);
+}
+
+function drawPhysicsValues(ctx: CanvasRenderingContext2D, game: GameState): void {
+  const s = game.physics.state;
+  const lines = [
+    `FX ${s.forceX.toFixed(4)}`,
+    `FY ${s.forceY.toFixed(4)}`,
+    `ANGLE ${s.angle}`,
+    `AV ${s.pod.angularVelocity.toFixed(4)}`,
+    `TETHER ${s.pod.tetherIndex}`,
+  ];
+  const y0 = 3 * LINE_H;
+  const width = Math.max(...lines.map(l => l.length)) * CHAR_W + 2;
+  ctx.fillStyle = bbcMicroColours.black;
+  ctx.fillRect(0, y0 - 2, width, lines.length * LINE_H + 2);
+  lines.forEach((line, i) => drawText(ctx, line, 1, y0 + i * LINE_H, bbcMicroColours.white));
+}
+
+// ---------------------------------------------------------------------------
+// Overlay
+// ---------------------------------------------------------------------------
+
+/**
+ * Draw the overlay over an already-rendered game frame, using the camera
+ * (screen pixels) the frame was drawn with. Does nothing while hidden.
+ */
+export function renderDebugOverlay(ctx: CanvasRenderingContext2D, overlay: DebugOverlay, game: GameState, camX: number, camY: number): void {
+  if (!overlay.visible) return;
+
+  ctx.save();
+  ctx.lineWidth = 1;
+  drawCollisionBuffer(ctx, overlay, game, camX, camY);
+  drawScrollZones(ctx, game, camX, camY);
+  drawOrbitLine(ctx, camY);
+  drawSpawnPoints(ctx, game, camX, camY);
+  drawTurretArcs(ctx, game, camX, camY);
+  drawTractorZones(ctx, game, camX, camY);
+  drawPhysicsValues(ctx, game);
+  ctx.restore();
+}
@@ -15,21 +15,15 @@ import {
   INPUT_FIRE,
   INPUT_THRUST,
   INPUT_SHIELD_TRACTOR,
-  gameInputFromDemoBitmask,
+  gameInputFromBitmask,
   GameInput,
 } from "./input";
+import { RngState, rnd } from "./rng";
 
 // ---------------------------------------------------------------------------
 // Demo state
 // ---------------------------------------------------------------------------
 
-/**
- * Tick period matching the original BBC Micro tick loop.
- * The loop busy-waits until the system clock (1cs resolution) reaches 3,
- * giving ~33.3 ticks/second (one tick every 30ms / 3 centiseconds).
- */
-const TICK_PERIOD_S = 3 / 100;
-
 export interface DemoState {
   /** True while demo mode is active (scripted inputs are being injected) */
   active: boolean;
@@ -39,8 +33,6 @@ export interface DemoState {
   keypressTimer: number;
   /** Index into the keypress sequence tables */
   keypressIndex: number;
-  /** Time accumulator — ensures demo ticks at the correct 30ms cadence */
-  tickAccumulator: number;
 }
 
 export function createDemoState(): DemoState {
@@ -49,7 +41,6 @@ export function createDemoState(): DemoState {
     keypressBitMask: 0x00,
     keypressTimer: 0,
     keypressIndex: 0,
-    tickAccumulator: 0,
   };
 }
 
@@ -158,14 +149,6 @@ const demoKeypressTimerTable: number[] = [
   TIMER_FIXED_SLOT_17,
 ];
 
-// ---------------------------------------------------------------------------
-// RNG — simple PRNG for demo timer randomisation
-// ---------------------------------------------------------------------------
-
-function demoRnd(): number {
-  return Math.floor(Math.random() * 256);
-}
-
 // ---------------------------------------------------------------------------
 // Demo setup
 // ---------------------------------------------------------------------------
@@ -177,13 +160,15 @@ function demoRnd(): number {
  * - Slot 8 (rnd_A):  (rnd & 0x03) + 0x08 → range [8, 11]
  * - Slot 12 (rnd_B): (rnd & 0x03) + 0x04 → range [4, 7]
  * - Slot 13 (rnd_C): 75% chance 0x7F (long), 25% chance 0x23 (short)
+ *
+ * Draws from the game's RNG so a demo run is reproducible from its seed.
  */
-export function setupDemoTimers(): void {
-  demoKeypressTimerTable[SLOT_RND_A] = (demoRnd() & RND_A_MASK) + RND_A_BASE;
-  demoKeypressTimerTable[SLOT_RND_B] = (demoRnd() & RND_B_MASK) + RND_B_BASE;
+export function setupDemoTimers(rng: RngState): void {
+  demoKeypressTimerTable[SLOT_RND_A] = (rnd(rng) & RND_A_MASK) + RND_A_BASE;
+  demoKeypressTimerTable[SLOT_RND_B] = (rnd(rng) & RND_B_MASK) + RND_B_BASE;
 
   // Big spin: 75% chance of long segment, 25% chance of short
-  const bigSpin = (demoRnd() & RND_C_MASK) === 0 ? BIG_SPIN_SHORT : BIG_SPIN_LONG;
+  const bigSpin = (rnd(rng) & RND_C_MASK) === 0 ? BIG_SPIN_SHORT : BIG_SPIN_LONG;
   demoKeypressTimerTable[SLOT_RND_C] = bigSpin;
 }
 
@@ -195,7 +180,6 @@ export function resetDemoState(demo: DemoState): void {
   demo.keypressIndex = 0;
   demo.keypressBitMask = 0x00;
   demo.keypressTimer = 0;
-  demo.tickAccumulator = 0;
 }
 
 // ---------------------------------------------------------------------------
@@ -221,22 +205,15 @@ function demoModeNextKeypress(demo: DemoState): void {
 }
 
 /**
- * Called every frame with the real elapsed time. Uses a fixed-timestep
- * accumulator to decrement the keypress timer at the original 30ms
- * (3 centisecond) tick rate — matching the BBC Micro's tick_loop cadence.
+ * Called once per game tick, before tick(), to count down the keypress
+ * timer at the original 3 centisecond tick_loop cadence.
  */
-export function demoModeTick(demo: DemoState, dt: number): void {
+export function demoModeTick(demo: DemoState): void {
   if (!demo.active) return;
 
-  demo.tickAccumulator += Math.min(dt, 0.1);
-  while (demo.tickAccumulator >= TICK_PERIOD_S) {
-    demo.tickAccumulator -= TICK_PERIOD_S;
-
-    demo.keypressTimer--;
-    if (demo.keypressTimer < 0) {
-      demoModeNextKeypress(demo);
-      if (!demo.active) return;
-    }
+  demo.keypressTimer--;
+  if (demo.keypressTimer < 0) {
+    demoModeNextKeypress(demo);
   }
 }
 
@@ -244,5 +221,5 @@ export function demoModeTick(demo: DemoState, dt: number): void {
  * Get the current demo GameInput (reads from the demo bitmask).
  */
 export function getDemoInput(demo: DemoState): GameInput {
-  return gameInputFromDemoBitmask(demo.keypressBitMask);
+  return gameInputFromBitmask(demo.keypressBitMask);
 }
@@ -1,8 +1,22 @@
-import { DoorConfig } from "./levels";
+import { DoorConfig, DoorType } from "./levels";
 import { Point, WORLD_SCALE_X, WORLD_SCALE_Y } from "./rendering";
 
 const DOOR_TIMER_INITIAL = 0xFF;
 
+/** One door of each type from the original levels, moved to wherever a door is placed */
+const DOOR_PRESETS: Record<DoorType, DoorConfig> = {
+    slide: { type: "slide", worldY: 617, threshold: 16, scanlines: 13, closedX: 174, openX: 158, innerX: 156 },
+    step: { type: "step", worldY: 835, threshold: 21, scanlines: 21, closedX: 166, openX: 152, innerX: 152 },
+    chevron: { type: "chevron", worldY: 880, threshold: 18, scanlines: 15, closedX: 192, openX: 174, innerX: 174 },
+};
+
+/** A preset door of the given type with its closed edge at x and its top at y. */
+export function presetDoorAt(type: DoorType, x: number, y: number): DoorConfig {
+    const preset = DOOR_PRESETS[type];
+    const dx = x - preset.closedX;
+    return { ...preset, worldY: y, closedX: x, openX: preset.openX + dx, innerX: preset.innerX + dx };
+}
+
 export interface DoorState {
     counterA: number;
     counterB: number;
@@ -0,0 +1,803 @@
+/**
+ * In-browser level editor.
+ *
+ * Edits a Level: drag polygon vertices (Shift-drag moves a whole
+ * polygon), draw new polygons and delete them, and place every object
+ * the game reads from a level — turrets with their direction and
+ * gunParam, fuel, the power plant, the pod pedestal, switches, spawn
+ * points and the door.
+ *
+ * Every change produces a new Level instead of mutating the current
+ * one, so undo and redo are just two stacks of levels, and a level
+ * handed to createGame() for a playtest (and the terrain bitmap cached
+ * for it) never changes underneath the game.
+ *
+ * X runs the level validator and steps through what it finds, moving
+ * the view to each problem in turn.
+ *
+ * This module holds the editor state and draws its handles and status
+ * lines; main.ts draws the level itself with renderLevel() and feeds in
+ * the mouse and keys.
+ */
+
+import { Level, DoorType, TurretDirection, SwitchDirection, levels } from "./levels";
+import { Point, drawText, wrapText, bbcMicroColours, WORLD_SCALE_X, WORLD_SCALE_Y, WORLD_WIDTH } from "./rendering";
+import { spawnPointAt } from "./game";
+import { presetDoorAt } from "./doors";
+import { generateCave, caveParams, DEFAULT_CAVE_DIFFICULTY } from "./caveGenerator";
+import { randomSeed } from "./rng";
+import { LevelIssue, validateLevel } from "./levelValidator";
+
+export type EditorTool =
+  | "select"
+  | "polygon"
+  | "turret"
+  | "fuel"
+  | "powerPlant"
+  | "podPedestal"
+  | "switch"
+  | "spawn"
+  | "door";
+
+/** Tools in number-key order (1-9) */
+export const EDITOR_TOOLS: readonly EditorTool[] = [
+  "select", "polygon", "turret", "fuel", "powerPlant", "podPedestal", "switch", "spawn", "door",
+];
+
+const TOOL_NAMES: Record<EditorTool, string> = {
+  select: "SELECT",
+  polygon: "POLYGON",
+  turret: "TURRET",
+  fuel: "FUEL",
+  powerPlant: "POWER PLANT",
+  podPedestal: "POD PEDESTAL",
+  switch: "SWITCH",
+  spawn: "SPAWN POINT",
+  door: "DOOR",
+};
+
+export type EditorSelection =
+  | { kind: "vertex" | "polygon"; polygon: number; vertex: number }
+  | { kind: "turret" | "fuel" | "switch" | "spawn"; index: number }
+  | { kind: "powerPlant" | "podPedestal" | "door" };
+
+export interface EditorState {
+  /** Set while the editor screen is showing */
+  active: boolean;
+  level: Level;
+  undoStack: Level[];
+  redoStack: Level[];
+  tool: EditorTool;
+  selection: EditorSelection | null;
+  /** The selection being dragged: the level before the drag, and the grab offset (world units) */
+  drag: { before: Level; moved: boolean; offsetX: number; offsetY: number } | null;
+  /** World x,y pairs of the polygon being drawn */
+  draft: number[];
+  /** Camera in screen pixels, like the game's camX/camY */
+  camX: number;
+  camY: number;
+  /** Mouse position in screen pixels, or null before it has moved */
+  mouse: Point | null;
+  /** Settings for the next turret, switch and door placed */
+  turretDirection: TurretDirection;
+  gunParam: number;
+  switchDirection: SwitchDirection;
+  doorType: DoorType;
+  showHelp: boolean;
+  /** Latest validator results, for the level they were run on, and the issue on show */
+  check: { level: Level; issues: LevelIssue[]; index: number } | null;
+  /** Short message ("SAVED", "CANNOT DELETE", ...) and seconds left to show it */
+  notice: string;
+  noticeTimer: number;
+}
+
+const MAX_UNDO = 200;
+const NOTICE_DURATION = 2.0;
+/** Errors stay up long enough to read */
+const ERROR_NOTICE_DURATION = 5.0;
+/** Screen pixels within which a click picks a handle */
+const PICK_RADIUS = 5;
+const PAN_SPEED = 240;
+const CHAR_W = 8;
+
+const TURRET_DIRECTIONS: readonly TurretDirection[] = ["up_left", "up_right", "down_right", "down_left"];
+const DOOR_TYPES: readonly DoorType[] = ["slide", "step", "chevron"];
+const COLOURS: string[] = Object.values(bbcMicroColours).filter(c => c !== bbcMicroColours.black);
+
+const HELP_LINES = [
+  "1-9      TOOL",
+  "CLICK    PLACE OR PICK",
+  "DRAG     MOVE",
+  "SHIFT    DRAG WHOLE POLYGON",
+  "ENTER    FINISH POLYGON",
+  "DEL      DELETE",
+  "I        INSERT VERTEX",
+  "R        DIRECTION",
+  "- =      GUN PARAM DOWN UP",
+  "T        DOOR TYPE",
+  "C        TERRAIN COLOUR",
+  "V        OBJECT COLOUR",
+  "G        MORE GRAVITY",
+  "SHIFT-G  LESS GRAVITY",
+  "B        COPY NEXT BUILT-IN LEVEL",
+  "N        NEW GENERATED CAVE",
+  "X        CHECK LEVEL / NEXT PROBLEM",
+  "CTRL-Z   UNDO",
+  "CTRL-Y   REDO",
+  "ARROWS   SCROLL",
+  "P        PLAY FROM HERE",
+  "S L      SAVE LOAD FILE",
+  "ESC      EXIT",
+];
+
+export function createEditor(level: Level, screenW: number, screenH: number): EditorState {
+  const editor: EditorState = {
+    active: false,
+    level,
+    undoStack: [],
+    redoStack: [],
+    tool: "select",
+    selection: null,
+    drag: null,
+    draft: [],
+    camX: 0,
+    camY: 0,
+    mouse: null,
+    turretDirection: "up_left",
+    gunParam: 0x00,
+    switchDirection: "left",
+    doorType: "slide",
+    showHelp: false,
+    check: null,
+    notice: "",
+    noticeTimer: 0,
+  };
+  centreOnStart(editor, screenW, screenH);
+  return editor;
+}
+
+function centreOnStart(editor: EditorState, screenW: number, screenH: number): void {
+  const start = editor.level.spawnPoints[0];
+  editor.camX = Math.round(start.midpointX * WORLD_SCALE_X - screenW / 2);
+  editor.camY = Math.round(start.midpointY * WORLD_SCALE_Y - screenH / 2);
+}
+
+function showNotice(editor: EditorState, notice: string, duration: number = NOTICE_DURATION): void {
+  editor.notice = notice;
+  editor.noticeTimer = duration;
+}
+
+/** Say why a level file couldn't be loaded (the editor's level is kept). */
+export function showEditorLoadError(editor: EditorState, message: string): void {
+  showNotice(editor, `CANNOT LOAD LEVEL: ${message}`, ERROR_NOTICE_DURATION);
+}
+
+export function tickEditorNotice(editor: EditorState, dt: number): void {
+  editor.noticeTimer = Math.max(0, editor.noticeTimer - dt);
+}
+
+// ---------------------------------------------------------------------------
+// History
+// ---------------------------------------------------------------------------
+
+function pushHistory(editor: EditorState, before: Level): void {
+  editor.undoStack.push(before);
+  if (editor.undoStack.length > MAX_UNDO) editor.undoStack.shift();
+  editor.redoStack.length = 0;
+}
+
+/** Apply a change to a copy of the level and make the copy current. */
+function change(editor: EditorState, apply: (level: Level) => void): void {
+  const next = structuredClone(editor.level);
+  apply(next);
+  pushHistory(editor, editor.level);
+  editor.level = next;
+}
+
+export function undo(editor: EditorState): void {
+  const previous = editor.undoStack.pop();
+  if (!previous) return;
+  editor.redoStack.push(editor.level);
+  editor.level = previous;
+  editor.selection = null;
+  editor.drag = null;
+}
+
+export function redo(editor: EditorState): void {
+  const next = editor.redoStack.pop();
+  if (!next) return;
+  editor.undoStack.push(editor.level);
+  editor.level = next;
+  editor.selection = null;
+  editor.drag = null;
+}
+
+/** Replace the whole level (loading a file or starting from a built-in level). Undoable. */
+export function replaceEditorLevel(editor: EditorState, level: Level, screenW: number, screenH: number): void {
+  pushHistory(editor, editor.level);
+  editor.level = level;
+  editor.selection = null;
+  editor.drag = null;
+  editor.draft = [];
+  centreOnStart(editor, screenW, screenH);
+}
+
+// ---------------------------------------------------------------------------
+// Coordinates and picking
+// ---------------------------------------------------------------------------
+
+function wrapWorldX(x: number): number {
+  return ((x % 256) + 256) % 256;
+}
+
+/** World position (whole units) under a screen point. */
+function toWorld(editor: EditorState, screen: Point): Point {
+  return {
+    x: wrapWorldX(Math.round((screen.x + editor.camX) / WORLD_SCALE_X)),
+    y: Math.max(0, Math.round((screen.y + editor.camY) / WORLD_SCALE_Y)),
+  };
+}
+
+/** Screen position of a world point, on the copy of the world nearest the camera. */
+function toScreen(editor: EditorState, x: number, y: number): Point {
+  let sx = x * WORLD_SCALE_X - editor.camX;
+  while (sx < -WORLD_WIDTH / 2) sx += WORLD_WIDTH;
+  while (sx > WORLD_WIDTH / 2) sx -= WORLD_WIDTH;
+  return { x: Math.round(sx), y: Math.round(y * WORLD_SCALE_Y - editor.camY) };
+}
+
+function selectionPosition(level: Level, selection: EditorSelection): Point {
+  switch (selection.kind) {
+    case "vertex":
+    case "polygon": {
+      const poly = level.polygons[selection.polygon];
+      return { x: poly[selection.vertex * 2], y: poly[selection.vertex * 2 + 1] };
+    }
+    case "turret": return level.turrets[selection.index];
+    case "fuel": return level.fuel[selection.index];
+    case "switch": return level.switches[selection.index];
+    case "spawn": {
+      const spawn = level.spawnPoints[selection.index];
+      return { x: spawn.midpointX, y: spawn.midpointY };
+    }
+    case "powerPlant": return level.powerPlant;
+    case "podPedestal": return level.podPedestal;
+    case "door": return { x: level.doorConfig!.closedX, y: level.doorConfig!.worldY };
+  }
+}
+
+/** Every draggable point in the level. */
+function allSelections(level: Level): EditorSelection[] {
+  const selections: EditorSelection[] = [
+    { kind: "powerPlant" },
+    { kind: "podPedestal" },
+  ];
+  if (level.doorConfig) selections.push({ kind: "door" });
+  level.turrets.forEach((_, index) => selections.push({ kind: "turret", index }));
+  level.fuel.forEach((_, index) => selections.push({ kind: "fuel", index }));
+  level.switches.forEach((_, index) => selections.push({ kind: "switch", index }));
+  level.spawnPoints.forEach((_, index) => selections.push({ kind: "spawn", index }));
+  level.polygons.forEach((poly, polygon) => {
+    for (let vertex = 0; vertex < poly.length / 2; vertex++) selections.push({ kind: "vertex", polygon, vertex });
+  });
+  return selections;
+}
+
+/** The handle nearest a screen point, within PICK_RADIUS. */
+function pickAt(editor: EditorState, screen: Point): EditorSelection | null {
+  let best: EditorSelection | null = null;
+  let bestDistance = PICK_RADIUS;
+  for (const selection of allSelections(editor.level)) {
+    const { x, y } = selectionPosition(editor.level, selection);
+    const p = toScreen(editor, x, y);
+    const distance = Math.max(Math.abs(p.x - screen.x), Math.abs(p.y - screen.y));
+    if (distance <= bestDistance) {
+      best = selection;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+/** Move the selected point to (x, y) in a level being changed. */
+function moveSelection(level: Level, selection: EditorSelection, x: number, y: number): void {
+  switch (selection.kind) {
+    case "vertex": {
+      const poly = level.polygons[selection.polygon];
+      poly[selection.vertex * 2] = x;
+      poly[selection.vertex * 2 + 1] = y;
+      break;
+    }
+    case "polygon": {
+      // Moved as a whole, kept inside the world's x range and below y = 0
+      const poly = level.polygons[selection.polygon];
+      const xs = poly.filter((_, i) => i % 2 === 0);
+      const ys = poly.filter((_, i) => i % 2 === 1);
+      const dx = Math.max(-Math.min(...xs), Math.min(256 - Math.max(...xs), x - poly[selection.vertex * 2]));
+      const dy = Math.max(-Math.min(...ys), y - poly[selection.vertex * 2 + 1]);
+      for (let i = 0; i < poly.length; i += 2) {
+        poly[i] += dx;
+        poly[i + 1] += dy;
+      }
+      break;
+    }
+    case "turret": Object.assign(level.turrets[selection.index], { x, y }); break;
+    case "fuel": level.fuel[selection.index] = { x, y }; break;
+    case "switch": Object.assign(level.switches[selection.index], { x, y }); break;
+    case "spawn": level.spawnPoints[selection.index] = spawnPointAt(x, y); break;
+    case "powerPlant": level.powerPlant = { x, y }; break;
+    case "podPedestal": level.podPedestal = { x, y }; break;
+    case "door": level.doorConfig = presetDoorAt(level.doorConfig!.type, x, y); break;
+  }
+}
+
+/** Add an object for the current tool at (x, y), returning its selection. */
+function place(editor: EditorState, x: number, y: number): EditorSelection | null {
+  let selection: EditorSelection | null = null;
+  change(editor, level => {
+    switch (editor.tool) {
+      case "turret":
+        level.turrets.push({ x, y, direction: editor.turretDirection, gunParam: editor.gunParam });
+        selection = { kind: "turret", index: level.turrets.length - 1 };
+        break;
+      case "fuel":
+        level.fuel.push({ x, y });
+        selection = { kind: "fuel", index: level.fuel.length - 1 };
+        break;
+      case "switch":
+        level.switches.push({ x, y, direction: editor.switchDirection });
+        selection = { kind: "switch", index: level.switches.length - 1 };
+        break;
+      case "spawn": {
+        // Checkpoints stay sorted top to bottom after the level start
+        let index = level.spawnPoints.findIndex((s, i) => i > 0 && s.midpointY > y);
+        if (index < 0) index = level.spawnPoints.length;
+        level.spawnPoints.splice(index, 0, spawnPointAt(x, y));
+        selection = { kind: "spawn", index };
+        break;
+      }
+      case "powerPlant":
+        level.powerPlant = { x, y };
+        selection = { kind: "powerPlant" };
+        break;
+      case "podPedestal":
+        level.podPedestal = { x, y };
+        selection = { kind: "podPedestal" };
+        break;
+      case "door":
+        level.doorConfig = presetDoorAt(level.doorConfig?.type ?? editor.doorType, x, y);
+        selection = { kind: "door" };
+        break;
+    }
+  });
+  return selection;
+}
+
+function finishDraft(editor: EditorState): void {
+  if (editor.draft.length < 6) {
+    showNotice(editor, "NEEDS 3 POINTS");
+    return;
+  }
+  const draft = editor.draft;
+  change(editor, level => { level.polygons.push(draft); });
+  editor.selection = { kind: "polygon", polygon: editor.level.polygons.length - 1, vertex: 0 };
+  editor.draft = [];
+}
+
+export function setEditorTool(editor: EditorState, tool: EditorTool): void {
+  editor.tool = tool;
+  editor.draft = [];
+}
+
+export function editorMouseDown(editor: EditorState, screen: Point, shift: boolean): void {
+  editor.mouse = screen;
+  const { x, y } = toWorld(editor, screen);
+
+  if (editor.tool === "polygon") {
+    const first = editor.draft.length >= 6 ? toScreen(editor, editor.draft[0], editor.draft[1]) : null;
+    if (first && Math.max(Math.abs(first.x - screen.x), Math.abs(first.y - screen.y)) <= PICK_RADIUS) {
+      finishDraft(editor);
+    } else {
+      editor.draft.push(x, y);
+    }
+    return;
+  }
+
+  let selection = pickAt(editor, screen);
+  let placed = false;
+  if (selection?.kind === "vertex" && shift) selection = { ...selection, kind: "polygon" };
+  if (!selection && editor.tool !== "select") {
+    selection = place(editor, x, y);
+    placed = true;
+  }
+  editor.selection = selection;
+  if (!selection) return;
+
+  const at = selectionPosition(editor.level, selection);
+  // A just-placed object is already on the undo stack, so dragging it adds nothing more
+  editor.drag = { before: editor.level, moved: placed, offsetX: at.x - x, offsetY: at.y - y };
+}
+
+export function editorMouseMove(editor: EditorState, screen: Point): void {
+  editor.mouse = screen;
+  const drag = editor.drag;
+  if (!drag || !editor.selection) return;
+
+  const { x, y } = toWorld(editor, screen);
+  const next = structuredClone(drag.before);
+  moveSelection(next, editor.selection, wrapWorldX(x + drag.offsetX), Math.max(0, y + drag.offsetY));
+  if (!drag.moved) {
+    pushHistory(editor, drag.before);
+    drag.moved = true;
+  }
+  editor.level = next;
+}
+
+export function editorMouseUp(editor: EditorState): void {
+  editor.drag = null;
+}
+
+export function panEditor(editor: EditorState, dx: number, dy: number, dt: number): void {
+  editor.camX += Math.round(dx * PAN_SPEED * dt);
+  editor.camY += Math.round(dy * PAN_SPEED * dt);
+}
+
+export function deleteSelection(editor: EditorState): void {
+  const selection = editor.selection;
+  if (!selection) return;
+  const level = editor.level;
+
+  switch (selection.kind) {
+    case "vertex":
+      if (level.polygons[selection.polygon].length <= 6) {
+        showNotice(editor, "SHIFT-CLICK TO DELETE POLYGON");
+        return;
+      }
+      change(editor, l => { l.polygons[selection.polygon].splice(selection.vertex * 2, 2); });
+      break;
+    case "polygon":
+      change(editor, l => { l.polygons.splice(selection.polygon, 1); });
+      break;
+    case "turret":
+      change(editor, l => { l.turrets.splice(selection.index, 1); });
+      break;
+    case "fuel":
+      change(editor, l => { l.fuel.splice(selection.index, 1); });
+      break;
+    case "switch":
+      change(editor, l => { l.switches.splice(selection.index, 1); });
+      break;
+    case "spawn":
+      if (level.spawnPoints.length === 1) {
+        showNotice(editor, "LEVEL NEEDS A SPAWN POINT");
+        return;
+      }
+      change(editor, l => { l.spawnPoints.splice(selection.index, 1); });
+      break;
+    case "door":
+      change(editor, l => { l.doorConfig = null; });
+      break;
+    case "powerPlant":
+    case "podPedestal":
+      showNotice(editor, "CANNOT DELETE - MOVE IT INSTEAD");
+      return;
+  }
+  editor.selection = null;
+}
+
+/** Add a vertex halfway along the edge after the selected one. */
+export function insertVertex(editor: EditorState): void {
+  const selection = editor.selection;
+  if (selection?.kind !== "vertex") return;
+  const poly = editor.level.polygons[selection.polygon];
+  const count = poly.length / 2;
+  const a = selection.vertex;
+  const b = (a + 1) % count;
+  const x = Math.round((poly[a * 2] + poly[b * 2]) / 2);
+  const y = Math.round((poly[a * 2 + 1] + poly[b * 2 + 1]) / 2);
+  change(editor, level => { level.polygons[selection.polygon].splice((a + 1) * 2, 0, x, y); });
+  editor.selection = { ...selection, vertex: a + 1 };
+}
+
+/** Next turret direction or switch side, for the selection and the next one placed. */
+export function rotateSelection(editor: EditorState): void {
+  const selection = editor.selection;
+  if (selection?.kind === "turret") {
+    const turret = editor.level.turrets[selection.index];
+    const direction = TURRET_DIRECTIONS[(TURRET_DIRECTIONS.indexOf(turret.direction) + 1) % TURRET_DIRECTIONS.length];
+    change(editor, level => { level.turrets[selection.index].direction = direction; });
+    editor.turretDirection = direction;
+  } else if (selection?.kind === "switch") {
+    const direction: SwitchDirection = editor.level.switches[selection.index].direction === "left" ? "right" : "left";
+    change(editor, level => { level.switches[selection.index].direction = direction; });
+    editor.switchDirection = direction;
+  } else if (editor.tool === "turret") {
+    editor.turretDirection = TURRET_DIRECTIONS[(TURRET_DIRECTIONS.indexOf(editor.turretDirection) + 1) % TURRET_DIRECTIONS.length];
+  } else if (editor.tool === "switch") {
+    editor.switchDirection = editor.switchDirection === "left" ? "right" : "left";
+  }
+}
+
+/** Step the gunParam of the selected turret (and of the next one placed). */
+export function adjustGunParam(editor: EditorState, delta: number): void {
+  const selection = editor.selection;
+  const current = selection?.kind === "turret" ? editor.level.turrets[selection.index].gunParam : editor.gunParam;
+  const gunParam = (current + delta) & 0xFF;
+  editor.gunParam = gunParam;
+  if (selection?.kind === "turret") {
+    change(editor, level => { level.turrets[selection.index].gunParam = gunParam; });
+  }
+}
+
+/** Next door type, for the level's door and the next one placed. */
+export function cycleDoorType(editor: EditorState): void {
+  const door = editor.level.doorConfig;
+  const type = DOOR_TYPES[(DOOR_TYPES.indexOf(door?.type ?? editor.doorType) + 1) % DOOR_TYPES.length];
+  editor.doorType = type;
+  if (door) change(editor, level => { level.doorConfig = presetDoorAt(type, door.closedX, door.worldY); });
+}
+
+export function cycleColour(editor: EditorState, which: "terrainColor" | "objectColor"): void {
+  const colour = COLOURS[(COLOURS.indexOf(editor.level[which]) + 1) % COLOURS.length];
+  change(editor, level => { level[which] = colour; });
+}
+
+export function adjustGravity(editor: EditorState, delta: number): void {
+  const gravity = Math.max(0, Math.min(0xFF, editor.level.gravity + delta));
+  change(editor, level => { level.gravity = gravity; });
+  showNotice(editor, `GRAVITY ${hex(gravity)}`);
+}
+
+/** Start over from a copy of the next built-in level. */
+export function nextBuiltInLevel(editor: EditorState, screenW: number, screenH: number): void {
+  const index = (levels.findIndex(l => l.name === editor.level.name) + 1) % levels.length;
+  replaceEditorLevel(editor, structuredClone(levels[index]), screenW, screenH);
+  showNotice(editor, levels[index].name.toUpperCase());
+}
+
+/** Start over from a freshly generated cave. If the seed gives no valid cave, the level is kept. */
+export function newGeneratedCave(editor: EditorState, screenW: number, screenH: number): void {
+  let level: Level;
+  try {
+    level = generateCave(randomSeed(), caveParams(DEFAULT_CAVE_DIFFICULTY));
+  } catch {
+    showNotice(editor, "NO VALID CAVE - TRY AGAIN");
+    return;
+  }
+  replaceEditorLevel(editor, level, screenW, screenH);
+  showNotice(editor, level.name.toUpperCase());
+}
+
+export function cancelDraft(editor: EditorState): boolean {
+  if (editor.draft.length === 0) return false;
+  editor.draft = [];
+  return true;
+}
+
+/**
+ * Validate the level, or if it hasn't changed since the last check, step
+ * on to the next issue. The view moves to the issue being shown.
+ */
+export function checkEditorLevel(editor: EditorState, screenW: number, screenH: number): void {
+  if (editor.check?.level === editor.level && editor.check.issues.length > 0) {
+    editor.check.index = (editor.check.index + 1) % editor.check.issues.length;
+  } else {
+    editor.check = { level: editor.level, issues: validateLevel(editor.level), index: 0 };
+  }
+  const { issues, index } = editor.check;
+  if (issues.length === 0) {
+    showNotice(editor, "NO PROBLEMS FOUND");
+    return;
+  }
+  const issue = issues[index];
+  showNotice(editor, `${index + 1}/${issues.length} ${issue.severity.toUpperCase()}`);
+  if (issue.at) {
+    editor.camX = Math.round(issue.at.x * WORLD_SCALE_X - screenW / 2);
+    editor.camY = Math.round(issue.at.y * WORLD_SCALE_Y - screenH / 2);
+  }
+}
+
+/**
+ * Handle an editing key. Returns false for keys the editor doesn't use
+ * (play, save, load and exit are up to the caller).
+ */
+export function handleEditorKey(editor: EditorState, code: string, ctrl: boolean, shift: boolean, screenW: number, screenH: number): boolean {
+  const digit = /^Digit([1-9])$/.exec(code);
+  if (digit) {
+    setEditorTool(editor, EDITOR_TOOLS[Number(digit[1]) - 1]);
+    return true;
+  }
+  switch (code) {
+    case "KeyZ":
+      if (!ctrl) return false;
+      if (shift) redo(editor); else undo(editor);
+      return true;
+    case "KeyY":
+      if (!ctrl) return false;
+      redo(editor);
+      return true;
+    case "Delete":
+    case "Backspace":
+      deleteSelection(editor);
+      return true;
+    case "Enter":
+      if (editor.tool === "polygon") finishDraft(editor);
+      return true;
+    case "KeyI": insertVertex(editor); return true;
+    case "KeyR": rotateSelection(editor); return true;
+    case "Minus": adjustGunParam(editor, shift ? -0x10 : -1); return true;
+    case "Equal": adjustGunParam(editor, shift ? 0x10 : 1); return true;
+    case "KeyT": cycleDoorType(editor); return true;
+    case "KeyC": cycleColour(editor, "terrainColor"); return true;
+    case "KeyV": cycleColour(editor, "objectColor"); return true;
+    case "KeyG": adjustGravity(editor, shift ? -1 : 1); return true;
+    case "KeyB": nextBuiltInLevel(editor, screenW, screenH); return true;
+    case "KeyN": newGeneratedCave(editor, screenW, screenH); return true;
+    case "KeyX": checkEditorLevel(editor, screenW, screenH); return true;
+    case "KeyH": editor.showHelp = !editor.showHelp; return true;
+  }
+  return false;
+}
+
+/**
+ * A copy of the level that starts the ship at the middle of the editor's
+ * view ("play from here"). The rest of the level is unchanged.
+ */
+export function playtestLevel(editor: EditorState, screenW: number, screenH: number): Level {
+  const here = toWorld(editor, { x: screenW / 2, y: screenH / 2 });
+  return {
+    ...structuredClone(editor.level),
+    spawnPoints: [spawnPointAt(here.x, here.y), ...editor.level.spawnPoints.slice(1)],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function hex(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, "0");
+}
+
+function strokeLine(ctx: CanvasRenderingContext2D, a: Point, b: Point): void {
+  ctx.beginPath();
+  ctx.moveTo(a.x + 0.5, a.y + 0.5);
+  ctx.lineTo(b.x + 0.5, b.y + 0.5);
+  ctx.stroke();
+}
+
+function drawHandle(ctx: CanvasRenderingContext2D, p: Point, colour: string, selected: boolean): void {
+  const r = selected ? 3 : 2;
+  ctx.strokeStyle = selected ? bbcMicroColours.magenta : colour;
+  ctx.strokeRect(p.x - r + 0.5, p.y - r + 0.5, r * 2, r * 2);
+}
+
+function sameSelection(a: EditorSelection | null, b: EditorSelection): boolean {
+  return a !== null && JSON.stringify(a) === JSON.stringify(b);
+}
+
+const HANDLE_COLOURS: Record<EditorSelection["kind"], string> = {
+  vertex: bbcMicroColours.white,
+  polygon: bbcMicroColours.white,
+  turret: bbcMicroColours.red,
+  fuel: bbcMicroColours.magenta,
+  switch: bbcMicroColours.green,
+  spawn: bbcMicroColours.yellow,
+  powerPlant: bbcMicroColours.cyan,
+  podPedestal: bbcMicroColours.white,
+  door: bbcMicroColours.cyan,
+};
+
+/** One line describing the tool and what it will place. */
+function statusText(editor: EditorState): string {
+  switch (editor.tool) {
+    case "polygon": return `POLYGON ${editor.draft.length / 2} POINTS`;
+    case "turret": return `TURRET ${editor.turretDirection.replace("_", " ").toUpperCase()} ${hex(editor.gunParam)}`;
+    case "switch": return `SWITCH ${editor.switchDirection.toUpperCase()}`;
+    case "door": return `DOOR ${(editor.level.doorConfig?.type ?? editor.doorType).toUpperCase()}`;
+    default: return TOOL_NAMES[editor.tool];
+  }
+}
+
+/** Crosses on every validator issue, and the message of the one on show. */
+function renderIssues(ctx: CanvasRenderingContext2D, editor: EditorState, screenW: number, screenH: number): void {
+  const check = editor.check;
+  if (check?.level !== editor.level || check.issues.length === 0) return;
+
+  check.issues.forEach((issue, i) => {
+    if (!issue.at) return;
+    const p = toScreen(editor, issue.at.x, issue.at.y);
+    const r = i === check.index ? 5 : 3;
+    ctx.strokeStyle = issue.severity === "error" ? bbcMicroColours.red : bbcMicroColours.yellow;
+    strokeLine(ctx, { x: p.x - r, y: p.y - r }, { x: p.x + r, y: p.y + r });
+    strokeLine(ctx, { x: p.x - r, y: p.y + r }, { x: p.x + r, y: p.y - r });
+  });
+
+  const issue = check.issues[check.index];
+  const lines = wrapText(issue.message, Math.floor(screenW / CHAR_W) - 2);
+  const top = screenH - 12 - lines.length * 9;
+  ctx.fillStyle = bbcMicroColours.black;
+  ctx.fillRect(0, top - 2, screenW, lines.length * 9 + 3);
+  const colour = issue.severity === "error" ? bbcMicroColours.red : bbcMicroColours.yellow;
+  lines.forEach((line, i) => drawText(ctx, line, CHAR_W, top + i * 9, colour));
+}
+
+/** Draw handles, the polygon being drawn and the status lines over the rendered level. */
+export function renderEditorOverlay(ctx: CanvasRenderingContext2D, editor: EditorState, screenW: number, screenH: number): void {
+  const level = editor.level;
+  ctx.save();
+  ctx.lineWidth = 1;
+
+  // Outline of the selected polygon
+  const selection = editor.selection;
+  if (selection?.kind === "vertex" || selection?.kind === "polygon") {
+    const poly = level.polygons[selection.polygon];
+    ctx.strokeStyle = bbcMicroColours.yellow;
+    for (let i = 0; i < poly.length; i += 2) {
+      const j = (i + 2) % poly.length;
+      strokeLine(ctx, toScreen(editor, poly[i], poly[i + 1]), toScreen(editor, poly[j], poly[j + 1]));
+    }
+  }
+
+  // Door extent, from the inner wall to its closed edge
+  if (level.doorConfig) {
+    const door = level.doorConfig;
+    const topLeft = toScreen(editor, door.innerX, door.worldY);
+    const bottomRight = toScreen(editor, door.closedX, door.worldY + door.scanlines);
+    ctx.strokeStyle = bbcMicroColours.cyan;
+    ctx.setLineDash([2, 2]);
+    ctx.strokeRect(topLeft.x + 0.5, topLeft.y + 0.5, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+    ctx.setLineDash([]);
+  }
+
+  for (const handle of allSelections(level)) {
+    const at = selectionPosition(level, handle);
+    const p = toScreen(editor, at.x, at.y);
+    const selected = sameSelection(selection, handle) ||
+      (selection?.kind === "polygon" && handle.kind === "vertex" && handle.polygon === selection.polygon);
+    drawHandle(ctx, p, HANDLE_COLOURS[handle.kind], selected);
+    if (handle.kind === "spawn") drawText(ctx, String(handle.index), p.x + 4, p.y - 3, bbcMicroColours.yellow);
+  }
+
+  // Polygon being drawn, with a rubber band to the mouse
+  if (editor.draft.length > 0) {
+    const points: Point[] = [];
+    for (let i = 0; i < editor.draft.length; i += 2) points.push(toScreen(editor, editor.draft[i], editor.draft[i + 1]));
+    if (editor.mouse) points.push(editor.mouse);
+    ctx.strokeStyle = bbcMicroColours.yellow;
+    for (let i = 1; i < points.length; i++) strokeLine(ctx, points[i - 1], points[i]);
+    points.slice(0, editor.draft.length / 2).forEach(p => drawHandle(ctx, p, bbcMicroColours.yellow, false));
+  }
+
+  renderIssues(ctx, editor, screenW, screenH);
+
+  // Status: tool on the left, mouse position on the right
+  ctx.fillStyle = bbcMicroColours.black;
+  ctx.fillRect(0, 0, screenW, 9);
+  drawText(ctx, statusText(editor), 1, 1, bbcMicroColours.yellow);
+  if (editor.mouse) {
+    const at = toWorld(editor, editor.mouse);
+    const position = `${at.x} ${at.y}`;
+    drawText(ctx, position, screenW - position.length * CHAR_W - 1, 1, bbcMicroColours.white);
+  }
+  drawText(ctx, "H HELP", 1, screenH - 8, bbcMicroColours.red);
+
+  if (editor.noticeTimer > 0) {
+    const lines = wrapText(editor.notice, Math.floor(screenW / CHAR_W) - 2);
+    ctx.fillStyle = bbcMicroColours.black;
+    ctx.fillRect(0, 14, screenW, lines.length * 9 + 3);
+    lines.forEach((line, i) => drawText(ctx, line, Math.floor((screenW - line.length * CHAR_W) / 2), 16 + i * 9, bbcMicroColours.cyan));
+  }
+
+  if (editor.showHelp) {
+    const top = 24;
+    ctx.fillStyle = bbcMicroColours.black;
+    ctx.fillRect(0, top - 2, screenW, HELP_LINES.length * 9 + 4);
+    HELP_LINES.forEach((line, i) => drawText(ctx, line, 8, top + i * 9, bbcMicroColours.white));
+  }
+  ctx.restore();
+}
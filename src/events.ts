@@ -0,0 +1,110 @@
+/**
+ * Typed game event stream.
+ *
+ * tick() records everything notable that happens as an ordered list of
+ * events on GameState.eventQueue, replacing the old per-subsystem
+ * "xxxThisTick" booleans. Sounds, statistics, UI and tooling all read
+ * the same list after each tick. Positions are world coordinates and
+ * every event carries the number of the tick() call that produced it.
+ */
+
+// ---------------------------------------------------------------------------
+// Event types
+// ---------------------------------------------------------------------------
+
+interface Positioned {
+  x: number;
+  y: number;
+}
+
+/** Player fired a bullet. */
+export interface ShotFiredEvent extends Positioned { type: "ShotFired"; tick: number }
+/** A turret fired a bullet. */
+export interface TurretFiredEvent extends Positioned { type: "TurretFired"; tick: number; turretIndex: number }
+/** Fuel pod fully drained by the tractor beam. */
+export interface FuelCollectedEvent extends Positioned { type: "FuelCollected"; tick: number; fuelIndex: number }
+/** Pod picked up by the tractor beam. */
+export interface PodAttachedEvent extends Positioned { type: "PodAttached"; tick: number }
+/** Turret destroyed by a bullet or the planet exploding. */
+export interface TurretDestroyedEvent extends Positioned { type: "TurretDestroyed"; tick: number; turretIndex: number }
+/** Fuel pod destroyed by a bullet or the planet exploding. */
+export interface FuelDestroyedEvent extends Positioned { type: "FuelDestroyed"; tick: number; fuelIndex: number }
+/** Power plant hit by a bullet. */
+export interface GeneratorHitEvent extends Positioned { type: "GeneratorHit"; tick: number }
+/** Power plant overloaded — the planet self-destruct countdown has started. */
+export interface CountdownStartedEvent { type: "CountdownStarted"; tick: number; seconds: number }
+/** One second of the self-destruct countdown elapsed. */
+export interface CountdownBeepEvent { type: "CountdownBeep"; tick: number; secondsRemaining: number }
+/** Countdown reached zero — everything on the planet is destroyed. */
+export interface PlanetDestroyedEvent { type: "PlanetDestroyed"; tick: number }
+/** Switch shot — the door starts moving. */
+export interface DoorTriggeredEvent extends Positioned { type: "DoorTriggered"; tick: number }
+/** Ship exploded. */
+export interface ShipDestroyedEvent extends Positioned { type: "ShipDestroyed"; tick: number }
+/** Attached pod exploded. */
+export interface PodDestroyedEvent extends Positioned { type: "PodDestroyed"; tick: number }
+/** Points added to the score. */
+export interface ScoreEvent { type: "Score"; tick: number; points: number; total: number }
+/** Ship climbed out of the planet's atmosphere and started teleporting out. */
+export interface OrbitReachedEvent extends Positioned { type: "OrbitReached"; tick: number; withPod: boolean }
+/** Death sequence finished — a life is lost or the game ends. */
+export interface LevelEndedEvent { type: "LevelEnded"; tick: number }
+/** A message overlay is shown (MISSION COMPLETE, GAME OVER, ...). */
+export interface MessageShownEvent { type: "MessageShown"; tick: number; text: string }
+
+export type GameEvent =
+  | ShotFiredEvent
+  | TurretFiredEvent
+  | FuelCollectedEvent
+  | PodAttachedEvent
+  | TurretDestroyedEvent
+  | FuelDestroyedEvent
+  | GeneratorHitEvent
+  | CountdownStartedEvent
+  | CountdownBeepEvent
+  | PlanetDestroyedEvent
+  | DoorTriggeredEvent
+  | ShipDestroyedEvent
+  | PodDestroyedEvent
+  | ScoreEvent
+  | OrbitReachedEvent
+  | LevelEndedEvent
+  | MessageShownEvent;
+
+export type GameEventType = GameEvent["type"];
+
+/** An event as emitted, before the queue stamps the tick number on it. */
+export type NewGameEvent = GameEvent extends infer E ? E extends GameEvent ? Omit<E, "tick"> : never : never;
+
+// ---------------------------------------------------------------------------
+// Queue
+// ---------------------------------------------------------------------------
+
+export interface EventQueue {
+  /** Number of the tick() call currently being processed */
+  tick: number;
+  /** Events emitted during that tick, in order */
+  events: GameEvent[];
+}
+
+export function createEventQueue(): EventQueue {
+  return { tick: 0, events: [] };
+}
+
+/** Start collecting events for the next tick, discarding the previous tick's. */
+export function beginEventTick(queue: EventQueue): void {
+  queue.tick++;
+  queue.events = [];
+}
+
+export function emit(queue: EventQueue, event: NewGameEvent): void {
+  queue.events.push({ ...event, tick: queue.tick } as GameEvent);
+}
+
+/** Narrow an event list to a single event type. */
+export function eventsOfType<T extends GameEventType>(
+  events: readonly GameEvent[],
+  type: T,
+): Extract<GameEvent, { type: T }>[] {
+  return events.filter((e): e is Extract<GameEvent, { type: T }> => e.type === type);
+}
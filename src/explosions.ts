@@ -1,5 +1,6 @@
 import { ANGLE_X, ANGLE_Y } from "./physics";
 import { WORLD_SCALE_X, WORLD_SCALE_Y } from "./rendering";
+import { RngState, rnd } from "./rng";
 
 const EXPLOSION_PARTICLE_COUNT = 8;
 const EXPLOSION_ANGLE_STEP = 4;
@@ -29,16 +30,12 @@ export function createExplosionState(): ExplosionState {
   return { particles: [] };
 }
 
-function randomByte(): number {
-  return Math.floor(Math.random() * 256);
-}
-
-export function spawnExplosion(state: ExplosionState, worldX: number, worldY: number, color: string, startAngle?: number): void {
-  let explosionAngle = startAngle !== undefined ? (startAngle & ANGLE_MASK) : (randomByte() & ANGLE_MASK);
+export function spawnExplosion(state: ExplosionState, rng: RngState, worldX: number, worldY: number, color: string, startAngle?: number): void {
+  let explosionAngle = startAngle !== undefined ? (startAngle & ANGLE_MASK) : (rnd(rng) & ANGLE_MASK);
 
   for (let p = 0; p < EXPLOSION_PARTICLE_COUNT; p++) {
-    const rndA = randomByte();
-    const rndB = randomByte();
+    const rndA = rnd(rng);
+    const rndB = rnd(rng);
 
     // Random offset 0–3 added to angle
     const randomOffset = rndA & RANDOM_OFFSET_MASK;
@@ -0,0 +1,83 @@
+/**
+ * Screen flow state machine.
+ *
+ * Each screen the frame loop can be on is a named state with optional
+ * enter/exit hooks plus update and render. update() returns the name of
+ * the state to move to (or nothing to stay), and the machine runs the
+ * old state's exit and the new state's enter between them, so setup and
+ * teardown for a screen live in one place instead of being repeated at
+ * every early return.
+ *
+ * The states themselves are defined in main.ts, where the sprites,
+ * sounds and canvas they use live; this module only runs them and has
+ * no DOM dependency.
+ */
+
+import { GameState } from "./game";
+
+export type FlowStateName =
+  | "Title"
+  | "Options"
+  | "Demo"
+  | "Teleport"
+  | "Playing"
+  | "Paused"
+  | "Message"
+  | "GameOver"
+  | "HighScoreEntry"
+  | "Editor"
+  | "Practice"
+  | "SplitScreen";
+
+export interface FlowState {
+  /** Called on entering the state. `from` is null for the initial state. */
+  enter?(from: FlowStateName | null): void;
+  /** Advance the state. Returns the state to move to, or nothing to stay. */
+  update(dt: number): FlowStateName | void;
+  render(): void;
+  /** Called on leaving the state, before the next state's enter. */
+  exit?(to: FlowStateName): void;
+}
+
+export type FlowStates = Record<FlowStateName, FlowState>;
+
+export interface Flow {
+  states: FlowStates;
+  current: FlowStateName;
+}
+
+export function createFlow(states: FlowStates, initial: FlowStateName): Flow {
+  const flow = { states, current: initial };
+  states[initial].enter?.(null);
+  return flow;
+}
+
+/** Move to another state, running exit/enter hooks. Does nothing if already there. */
+export function changeFlowState(flow: Flow, to: FlowStateName): void {
+  const from = flow.current;
+  if (to === from) return;
+  flow.states[from].exit?.(to);
+  flow.current = to;
+  flow.states[to].enter?.(from);
+}
+
+/** Run the current state's update and follow the transition it returns. */
+export function updateFlow(flow: Flow, dt: number): void {
+  const next = flow.states[flow.current].update(dt);
+  if (next) changeFlowState(flow, next);
+}
+
+export function renderFlow(flow: Flow): void {
+  flow.states[flow.current].render();
+}
+
+/**
+ * The in-game state matching a running game's own phase. tick() drives
+ * messages and teleports itself, so after each tick the flow follows it.
+ */
+export function gamePhaseState(game: GameState): "GameOver" | "Message" | "Teleport" | "Playing" {
+  if (game.gameOver) return "GameOver";
+  if (game.messageTimer > 0) return "Message";
+  if (game.teleport) return "Teleport";
+  return "Playing";
+}
@@ -1,12 +1,14 @@
 // Font data extracted from the Thrust 6502 disassembly.
 // Each character is 8 pixels wide x 5 pixels tall, stored as 5 bytes (MSB = leftmost pixel).
-// Index 0 = period/fallback, 1-26 = a-z, 27-36 = 0-9
+// Index 0 = period/fallback, 1-26 = a-z, 27-36 = 0-9, 37-40 = : / [ ]
+// Index 41 = minus — not in the original font, added for signed debug values
+// Index 42 = plus — likewise, added for time attack split deltas
 
-const line0 = [0x00,0x1E,0xFC,0xFE,0xFE,0xFE,0xFE,0xF8,0xC6,0x7E,0x7E,0xCC,0xC0,0xFE,0xF6,0xFE,0xFE,0xFE,0xFE,0xFE,0xFE,0xC6,0xC6,0xC6,0xC6,0xC6,0xFE,0xFE,0x78,0x7E,0x78,0xC0,0xF8,0xF0,0xFE,0x7C,0xFE,0x00,0x06,0xF0,0x0F];
-const line1 = [0x00,0x36,0xCC,0xC6,0xC6,0xC0,0xC0,0xC0,0xC6,0x18,0x18,0xD8,0xC0,0xD6,0xD6,0xC6,0xC6,0xC6,0xC6,0xC0,0x30,0xC6,0xC6,0xC6,0x6C,0xC6,0x06,0xC6,0x18,0x06,0x18,0xCE,0xC0,0xC0,0x06,0x6C,0xC6,0x30,0x0C,0xC0,0x03];
-const line2 = [0x00,0x66,0xFE,0xC0,0xC6,0xF8,0xF8,0xDE,0xFE,0x18,0x18,0xFE,0xC0,0xD6,0xD6,0xC6,0xC6,0xC6,0xFE,0xFE,0x30,0xC6,0xCC,0xD6,0x38,0xFE,0xFE,0xC6,0x18,0xFE,0x7E,0xFE,0xFE,0xFE,0x7E,0xFE,0xFE,0x00,0x18,0xC0,0x03];
-const line3 = [0x30,0xFE,0xC6,0xC0,0xCC,0xC0,0xC0,0xC6,0xC6,0x18,0xD8,0xC6,0xC0,0xD6,0xD6,0xC6,0xFE,0xCC,0xCC,0x06,0x30,0xC6,0xD8,0xD6,0x6C,0x06,0xC0,0xDE,0x7E,0xE0,0x1E,0x0E,0x0E,0xCE,0x70,0xEE,0x1E,0x30,0x30,0xC0,0x03];
-const line4 = [0x30,0xC6,0xFE,0xFE,0xF8,0xFE,0xC0,0xFE,0xC6,0x7E,0xF8,0xC6,0xFE,0xC6,0xDE,0xFE,0xC0,0xFE,0xC6,0xFE,0x30,0xFE,0xF0,0xFE,0xC6,0x7E,0xFE,0xFE,0x7E,0xFE,0xFE,0x0E,0xFE,0xFE,0x70,0xFE,0x1E,0x00,0x60,0xF0,0x0F];
+const line0 = [0x00,0x1E,0xFC,0xFE,0xFE,0xFE,0xFE,0xF8,0xC6,0x7E,0x7E,0xCC,0xC0,0xFE,0xF6,0xFE,0xFE,0xFE,0xFE,0xFE,0xFE,0xC6,0xC6,0xC6,0xC6,0xC6,0xFE,0xFE,0x78,0x7E,0x78,0xC0,0xF8,0xF0,0xFE,0x7C,0xFE,0x00,0x06,0xF0,0x0F,0x00,0x00];
+const line1 = [0x00,0x36,0xCC,0xC6,0xC6,0xC0,0xC0,0xC0,0xC6,0x18,0x18,0xD8,0xC0,0xD6,0xD6,0xC6,0xC6,0xC6,0xC6,0xC0,0x30,0xC6,0xC6,0xC6,0x6C,0xC6,0x06,0xC6,0x18,0x06,0x18,0xCE,0xC0,0xC0,0x06,0x6C,0xC6,0x30,0x0C,0xC0,0x03,0x00,0x18];
+const line2 = [0x00,0x66,0xFE,0xC0,0xC6,0xF8,0xF8,0xDE,0xFE,0x18,0x18,0xFE,0xC0,0xD6,0xD6,0xC6,0xC6,0xC6,0xFE,0xFE,0x30,0xC6,0xCC,0xD6,0x38,0xFE,0xFE,0xC6,0x18,0xFE,0x7E,0xFE,0xFE,0xFE,0x7E,0xFE,0xFE,0x00,0x18,0xC0,0x03,0x7C,0x7E];
+const line3 = [0x30,0xFE,0xC6,0xC0,0xCC,0xC0,0xC0,0xC6,0xC6,0x18,0xD8,0xC6,0xC0,0xD6,0xD6,0xC6,0xFE,0xCC,0xCC,0x06,0x30,0xC6,0xD8,0xD6,0x6C,0x06,0xC0,0xDE,0x7E,0xE0,0x1E,0x0E,0x0E,0xCE,0x70,0xEE,0x1E,0x30,0x30,0xC0,0x03,0x00,0x18];
+const line4 = [0x30,0xC6,0xFE,0xFE,0xF8,0xFE,0xC0,0xFE,0xC6,0x7E,0xF8,0xC6,0xFE,0xC6,0xDE,0xFE,0xC0,0xFE,0xC6,0xFE,0x30,0xFE,0xF0,0xFE,0xC6,0x7E,0xFE,0xFE,0x7E,0xFE,0xFE,0x0E,0xFE,0xFE,0x70,0xFE,0x1E,0x00,0x60,0xF0,0x0F,0x00,0x00];
 
 export const fontData: number[][] = [];
 for (let i = 0; i < line0.length; i++) {
@@ -25,5 +27,7 @@ export function charIndex(ch: string): number {
   if (c === 0x2F) return 38;                             // forward slash
   if (c === 0x5B) return 39;                             // left bracket
   if (c === 0x5D) return 40;                             // right bracket
+  if (c === 0x2D) return 41;                             // minus
+  if (c === 0x2B) return 42;                             // plus
   return 0;                                              // period / fallback
 }
@@ -1,9 +1,10 @@
 import { Level } from "./levels";
 import { GameState, addScore } from "./game";
+import { emit } from "./events";
 
 // Fuel collection constants
-const FUEL_PICKUP_RANGE_X = 6;
-const FUEL_PICKUP_RANGE_Y = 28;
+export const FUEL_PICKUP_RANGE_X = 6;
+export const FUEL_PICKUP_RANGE_Y = 28;
 const FUEL_TRACTOR_THRESHOLD = 26;
 const FUEL_SCORE = 300;
 const FUEL_ADD_PER_TICK = 11;
@@ -20,7 +21,6 @@ export interface FuelCollectionState {
   tractorCounters: number[];
   collectingFuelIndex: number;
   tickCounter: number;
-  collectedThisTick: boolean;
 }
 
 export function createFuelCollectionState(numFuel: number): FuelCollectionState {
@@ -28,7 +28,6 @@ export function createFuelCollectionState(numFuel: number): FuelCollectionState
     tractorCounters: new Array(numFuel).fill(0),
     collectingFuelIndex: -1,
     tickCounter: 0,
-    collectedThisTick: false,
   };
 }
 
@@ -43,7 +42,6 @@ export function tickFuelCollection(
   game: GameState,
 ): void {
   state.collectingFuelIndex = -1;
-  state.collectedThisTick = false;
 
   for (let i = 0; i < level.fuel.length; i++) {
     if (destroyedFuel.has(i)) continue;
@@ -63,8 +61,8 @@ export function tickFuelCollection(
 
     if (state.tractorCounters[i] >= FUEL_TRACTOR_THRESHOLD) {
       destroyedFuel.add(i);
+      emit(game.eventQueue, { type: "FuelCollected", fuelIndex: i, x: fuel.x, y: fuel.y });
       addScore(game, FUEL_SCORE);
-      state.collectedThisTick = true;
     }
 
     break;
@@ -1,23 +1,37 @@
 import { Level, SpawnPoint, levels } from "./levels";
 import { ThrustPhysics, ThrustInput } from "./physics";
-import { CollisionResult } from "./collision";
+import { CollisionBuffer, CollisionResult, CollisionSprites, createCollisionBuffer, loadCollisionSprites, renderCollisionBuffer, testCollision, testLineCollision, testRectCollision } from "./collision";
 import { ScrollState, ScrollConfig, createScrollConfig, createScrollState, updateScroll } from "./scroll";
-import { WORLD_SCALE_X, WORLD_SCALE_Y, bbcMicroColours } from "./rendering";
-import { TurretFiringState, createTurretFiringState, tickTurrets, PlayerShootingState, createPlayerShootingState, tickPlayerShooting, tickPlayerBullets } from "./bullets";
-import { ExplosionState, createExplosionState, tickExplosions, spawnExplosion } from "./explosions";
+import { WORLD_SCALE_X, WORLD_SCALE_Y, bbcMicroColours, rotationToSpriteIndex } from "./rendering";
+import { Bullet, TurretFiringState, createTurretFiringState, tickTurrets, PlayerShootingState, createPlayerShootingState, tickPlayerShooting, tickPlayerBullets, removeCollidingBullets, removeBulletsHittingShip, processPlayerBulletCollisions } from "./bullets";
+import { ExplosionState, createExplosionState, tickExplosions, spawnExplosion, orColours } from "./explosions";
 import { FuelCollectionState, createFuelCollectionState, tickFuelCollection } from "./fuelCollection";
-import { GeneratorState, createGeneratorState, tickGenerator, canTurretsFire } from "./generator";
+import { GeneratorState, createGeneratorState, tickGenerator, canTurretsFire, handleGeneratorHit } from "./generator";
 import { StarFieldState, createStarFieldState, tickStarField, seedStarField } from "./stars";
-import { DoorState, createDoorState, tickDoor } from "./doors";
+import { DoorState, createDoorState, tickDoor, getDoorPolygon, triggerDoor } from "./doors";
 import { GameInput } from "./input";
+import { RngState, createRng, randomSeed } from "./rng";
+import { EventQueue, GameEvent, createEventQueue, beginEventTick, emit } from "./events";
+import type { SpriteMask } from "./shipSprites";
+
+// Screen dimensions (pixels) — the collision buffer covers the whole screen
+const SCREEN_W = 320;
+const SCREEN_H = 256;
 
 // Viewport dimensions in world coordinates
 const VIEWPORT_W = 320 / WORLD_SCALE_X; // 80
 const VIEWPORT_H = 256 / WORLD_SCALE_Y; // 128
 const STATUS_BAR_H = 16 / WORLD_SCALE_Y; // 8
 
-// Game loop updates at original tick rate (~33.3 Hz — 3 centiseconds per tick)
-const SCROLL_STEP_S = 3 / 100;
+/**
+ * One game tick. The original's loop waits for the 100 Hz system clock
+ * to reach 3 centiseconds, giving ~33.3 ticks/second (not 50 Hz). tick()
+ * always advances exactly one tick; scheduler.ts maps display frames
+ * onto ticks. Sub-tick timers below count in centiseconds so they stay
+ * exact.
+ */
+export const GAME_TICK_S = 3 / 100;
+const GAME_TICK_CS = 3;
 
 // Fuel burn active slots — thrust only burns fuel on these slots (6 of 16)
 const FUEL_ACTIVE_SLOTS = new Set([0, 3, 5, 8, 11, 13]);
@@ -29,18 +43,27 @@ const BONUS_LOOPS_BASE = 5;
 const BONUS_LOOPS_PLANET_DESTROYED = 5;
 const BONUS_SCORE_PER_LOOP = 400;
 const INITIAL_FUEL = 1000;
+export const INITIAL_LIVES = 3;
 const EXTRA_LIFE_THRESHOLD = 10000;
 
 // Tractor beam distance thresholds (screen-space approximate distance)
-const TRACTOR_BEAM_START_DISTANCE = 0x75;  // 117 — close zone
-const TRACTOR_ATTACH_DISTANCE = 0x84;      // 132 — far zone
+export const TRACTOR_BEAM_START_DISTANCE = 0x75;  // 117 — close zone
+export const TRACTOR_ATTACH_DISTANCE = 0x84;      // 132 — far zone
 
 // Orbit escape altitude — midpoint y < this = escaped (matches original $0120)
-const ORBIT_ESCAPE_Y = 288;
+export const ORBIT_ESCAPE_Y = 288;
 
 // Duration of message overlay in game ticks (~2 seconds at 33 Hz)
 export const MESSAGE_DURATION = 66;
 
+// Score values (matching spec)
+const SCORE_GUN_DESTROYED = 750;
+const SCORE_FUEL_SHOT = 150;
+
+// Teleport animation pacing
+const TELEPORT_STEP_CS = 4;  // 40ms per step (half speed)
+export const TELEPORT_STEPS = 12;
+
 // Planet explosion animation — BBC Micro MODE 5 palette cycling
 const PLANET_EXPLODE_BG_TABLE: readonly number[] = [
   0x00, 0x00, 0x04, 0x01, 0x05, 0x02, 0x06, 0x03,
@@ -50,7 +73,8 @@ const BBC_PHYSICAL_COLOURS: readonly string[] = [
   "#000000", "#ff0000", "#00ff00", "#ffff00",
   "#0000ff", "#ff00ff", "#00ffff", "#ffffff",
 ];
-const VSYNC_STEP_S = 1 / 50; // 20ms — BBC Micro vsync rate
+const VSYNC_CS = 2; // 20ms — BBC Micro vsync rate
+const PLANET_EXPLODE_ANIM_START = 15; // counts down every other vsync frame
 
 // Death sequence constants
 const DEATH_TIMER_INITIAL = 0x3C;       // 60 ticks
@@ -71,7 +95,7 @@ export interface DeathSequence {
 export interface TeleportAnimation {
   isDisappearing: boolean;  // true = orbit escape, false = level start/retry
   step: number;             // 0-11 (current animation frame)
-  timer: number;            // seconds accumulated for frame pacing
+  timer: number;            // centiseconds accumulated for frame pacing
   shipCX: number;           // ship center screen X (frozen at anim start)
   shipCY: number;           // ship center screen Y (frozen at anim start)
   podCX: number;            // pod center screen X (frozen)
@@ -79,7 +103,53 @@ export interface TeleportAnimation {
   hasPod: boolean;          // pod was attached when animation started
 }
 
-export type PendingAction = 'retry' | 'next-level' | 'game-over' | null;
+export type PendingAction = 'retry' | 'next-level' | 'game-over' | 'next-player' | null;
+
+/** Practice mode assists. All off in a normal game. */
+export interface GameCheats {
+  infiniteFuel: boolean;
+  infiniteLives: boolean;
+  invulnerableShield: boolean;  // while the shield key is held, terrain can't hurt the ship, pod or tether
+  turretsDisabled: boolean;
+}
+
+export function createGameCheats(): GameCheats {
+  return { infiniteFuel: false, infiniteLives: false, invulnerableShield: false, turretsDisabled: false };
+}
+
+/** What a player takes into their next level or turn, as createGame()'s `persistent` argument */
+export interface PlayerProgress {
+  levelNumber: number;
+  lives: number;
+  score: number;
+  missionNumber: number;
+  reverseGravity: boolean;
+  invisibleLandscape: boolean;
+}
+
+/** Two-player alternating game: the turn passes each time a life is lost */
+export interface PlayerTurns {
+  current: number;                 // player at the controls: 0 = player 1, 1 = player 2
+  waiting: PlayerProgress;         // the other player, as their last turn ended
+  ending: PlayerProgress | null;   // the current player's progress while their last message shows
+}
+
+/**
+ * Ties a split-screen ship's state to the other ship's (see splitScreen.ts).
+ * Both states share one set of destroyed objects, generator, door and
+ * explosions, which splitScreen.ts ticks once per tick instead of tick().
+ */
+export interface SplitScreenLink {
+  podTaken: boolean;               // the pod is on the other ship's tether
+}
+
+export function createPlayerTurns(): PlayerTurns {
+  return {
+    current: 0,
+    waiting: { levelNumber: 0, lives: INITIAL_LIVES, score: 0, missionNumber: 0, reverseGravity: false, invisibleLandscape: false },
+    ending: null,
+  };
+}
 
 export interface GameState {
   level: Level;
@@ -96,7 +166,6 @@ export interface GameState {
   shieldActive: boolean;
   scroll: ScrollState;
   scrollConfig: ScrollConfig;
-  scrollAccumulator: number;
   turretFiring: TurretFiringState;
   playerShooting: PlayerShootingState;
   destroyedTurrets: Set<number>;
@@ -109,7 +178,6 @@ export interface GameState {
   planetKilled: boolean;
   tractorBeamStarted: boolean;
   podLineExists: boolean;
-  podAttachedThisTick: boolean;
   fuelTickCounter: number;
   fuelEmpty: boolean;
   levelNumber: number;
@@ -117,7 +185,7 @@ export interface GameState {
   levelEndedFlag: boolean;
   escapedToOrbit: boolean;
   messageText: string | null;
-  messageTimer: number;
+  messageTimer: number;            // game ticks left on the message
   pendingAction: PendingAction;
   teleport: TeleportAnimation | null;
   gameOver: boolean;
@@ -127,8 +195,13 @@ export interface GameState {
   reverseGravity: boolean;
   invisibleLandscape: boolean;
   planetExplodeAnim: number;       // 0 = inactive, 15→0 = animation counter
-  planetExplodeAccumulator: number; // time accumulator for 50Hz vsync simulation
+  planetExplodeAccumulator: number; // centiseconds toward the next 50Hz vsync frame
   frameCounter: number;            // vsync frame counter (increments at 50Hz)
+  cheats: GameCheats;
+  turns: PlayerTurns | null;       // null in a one-player game
+  splitScreen: SplitScreenLink | null;
+  rng: RngState;                   // single source of gameplay randomness
+  eventQueue: EventQueue;          // events emitted by the latest tick()
 }
 
 function selectSpawnPoint(
@@ -188,13 +261,20 @@ function applySpawnPoint(state: GameState, spawn: SpawnPoint): void {
   state.scroll.windowPos.y = fresh.windowPos.y;
 }
 
+/** Spawn point for a ship midpoint, with the view createGame() would start it in. */
+export function spawnPointAt(x: number, y: number): SpawnPoint {
+  const view = createScrollState(x, y, VIEWPORT_W, VIEWPORT_H, STATUS_BAR_H).windowPos;
+  return { midpointX: x, midpointY: y, windowX: Math.round(view.x), windowY: Math.round(view.y) };
+}
+
 export function createGame(
   level: Level,
   levelNumber: number = 0,
-  persistent?: { lives: number; score: number; missionNumber: number; reverseGravity?: boolean; invisibleLandscape?: boolean },
+  persistent?: { lives: number; score: number; missionNumber: number; reverseGravity?: boolean; invisibleLandscape?: boolean; seed?: number; fixedPointPhysics?: boolean; cheats?: GameCheats; turns?: PlayerTurns },
 ): GameState {
   const reverseGravity = persistent?.reverseGravity ?? false;
   const invisibleLandscape = persistent?.invisibleLandscape ?? false;
+  const rng = createRng(persistent?.seed ?? randomSeed());
   const startAngle = reverseGravity ? 16 : 0;
 
   const spawn = level.spawnPoints[0];
@@ -202,8 +282,9 @@ export function createGame(
     x: spawn.midpointX,
     y: spawn.midpointY,
     angle: startAngle,
-    level: levelNumber,
+    gravityFrac: level.gravity,
     reverseGravity,
+    fixedPoint: persistent?.fixedPointPhysics ?? false,
   });
 
   const scrollConfig = createScrollConfig(VIEWPORT_W, VIEWPORT_H, STATUS_BAR_H);
@@ -216,7 +297,7 @@ export function createGame(
   );
 
   const starField = createStarFieldState();
-  seedStarField(starField, scroll.windowPos.x, level.objectColor, level.terrainColor);
+  seedStarField(starField, rng, scroll.windowPos.x, level.objectColor, level.terrainColor);
 
   const state: GameState = {
     level,
@@ -227,13 +308,12 @@ export function createGame(
       rotation: (startAngle / 32) * Math.PI * 2,
     },
     fuel: INITIAL_FUEL,
-    lives: persistent?.lives ?? 3,
+    lives: persistent?.lives ?? INITIAL_LIVES,
     score: persistent?.score ?? 0,
     collisionResult: CollisionResult.None,
     shieldActive: false,
     scroll,
     scrollConfig,
-    scrollAccumulator: 0,
     turretFiring: createTurretFiringState(),
     playerShooting: createPlayerShootingState(),
     destroyedTurrets: new Set(),
@@ -246,7 +326,6 @@ export function createGame(
     planetKilled: false,
     tractorBeamStarted: false,
     podLineExists: false,
-    podAttachedThisTick: false,
     fuelTickCounter: 0,
     fuelEmpty: false,
     levelNumber,
@@ -266,6 +345,11 @@ export function createGame(
     planetExplodeAnim: 0,
     planetExplodeAccumulator: 0,
     frameCounter: 0,
+    cheats: { ...(persistent?.cheats ?? createGameCheats()) },
+    turns: persistent?.turns ? structuredClone(persistent.turns) : null,
+    splitScreen: null,
+    rng,
+    eventQueue: createEventQueue(),
   };
   startTeleport(state, false);
   return state;
@@ -316,11 +400,13 @@ export function destroyPlayerShip(state: GameState): void {
 
   spawnExplosion(
     state.explosions,
+    state.rng,
     state.oldShipX + SHIP_EXPLOSION_X_OFFSET,
     state.oldShipY + SHIP_EXPLOSION_Y_OFFSET,
     bbcMicroColours.white,
     SHIP_EXPLOSION_ANGLE,
   );
+  emit(state.eventQueue, { type: "ShipDestroyed", x: state.oldShipX, y: state.oldShipY });
 }
 
 /** Destroy the attached pod — detaches, spawns explosion at pod position, resets death timer. */
@@ -344,11 +430,13 @@ export function destroyAttachedPod(state: GameState): void {
 
   spawnExplosion(
     state.explosions,
+    state.rng,
     podX,
     podY,
     bbcMicroColours.white,
     SHIP_EXPLOSION_ANGLE,
   );
+  emit(state.eventQueue, { type: "PodDestroyed", x: podX, y: podY });
 }
 
 /** Per-tick death countdown: retract tether, trigger secondary destruction, end level at 0. */
@@ -380,7 +468,7 @@ function tickDeathSequence(state: GameState): void {
 }
 
 /** Approximate Manhattan-weighted distance matching the original 6502 routine. */
-function tractorDistance(
+export function tractorDistance(
     shipSX: number, shipSY: number,
     podSX: number, podSY: number,
 ): number {
@@ -393,13 +481,350 @@ function tractorDistance(
   return d > 255 ? 255 : d;
 }
 
-export function tick(state: GameState, dt: number, gameInput: GameInput): void {
-  state.podAttachedThisTick = false;
+// Collision buffer is scratch space redrawn from scratch every tick, so every
+// game shares one. It is plain memory, so the rules run without a DOM.
+const collisionBuffer = createCollisionBuffer(SCREEN_W, SCREEN_H);
+const collisionSprites: CollisionSprites = loadCollisionSprites();
+
+/** The pod is on a ship's tether rather than its pedestal. */
+export function podOffPedestal(state: GameState): boolean {
+  return state.physics.state.podAttached || !!state.splitScreen?.podTaken;
+}
+
+/**
+ * Fill a collision buffer with what the game collides against for a
+ * camera at (camX, camY) — the same contents tick() tests against.
+ */
+export function fillGameCollisionBuffer(state: GameState, buf: CollisionBuffer, camX: number, camY: number): void {
+  const sprites = collisionSprites;
+  // Remove pod stand from collision buffer as soon as tractor beam starts (or pod attached)
+  const podRemovedFromCollision = podOffPedestal(state) || state.tractorBeamStarted;
+  const doorPolyCollision = getDoorPolygon(state.doorState, state.level.doorConfig, camX, camY);
+  renderCollisionBuffer(buf, state.level, camX, camY, sprites.fuel, sprites.turret, sprites.powerPlant, sprites.podStand, state.destroyedTurrets, state.destroyedFuel, state.generator.destroyed, podRemovedFromCollision, sprites.switch, doorPolyCollision);
+}
+
+/** The ship's collision mask for its current rotation, and where it sits on the screen. */
+function shipMask(state: GameState, camX: number, camY: number): { mask: SpriteMask; shipScreenX: number; shipScreenY: number } {
+  const spriteIdx = rotationToSpriteIndex(state.player.rotation);
+  const center = collisionSprites.shipCenters[spriteIdx];
+  return {
+    mask: collisionSprites.shipMasks[spriteIdx],
+    shipScreenX: Math.round(state.player.x * WORLD_SCALE_X - camX - center.x),
+    shipScreenY: Math.round(state.player.y * WORLD_SCALE_Y - camY - center.y),
+  };
+}
+
+/**
+ * Bullets from outside this game (the other ship's, in split screen)
+ * against the ship: any that hit are removed, as resolveCollisions()
+ * does with turret bullets, and the ship is destroyed unless its shield
+ * is up. Returns true if any bullet hit.
+ */
+export function hitShipWithBullets(state: GameState, bullets: Bullet[]): boolean {
+  if (state.gameOver || state.messageTimer > 0 || state.teleport || state.deathSequence) return false;
+  const camX = Math.round(state.scroll.windowPos.x * WORLD_SCALE_X);
+  const camY = Math.round(state.scroll.windowPos.y * WORLD_SCALE_Y);
+  const { mask, shipScreenX, shipScreenY } = shipMask(state, camX, camY);
+  const hit = removeBulletsHittingShip(bullets, mask, shipScreenX, shipScreenY, camX, camY);
+  if (hit && !state.shieldActive) destroyPlayerShip(state);
+  return hit;
+}
+
+/**
+ * Advance the game by exactly one tick (GAME_TICK_S). Fully applies
+ * the rules: while a message is showing its timer counts down and then
+ * the queued action runs; while teleporting the animation advances;
+ * otherwise the ship, objects and bullets move and collisions, scoring,
+ * deaths and orbit escape are resolved. The caller only renders and
+ * plays sounds.
+ *
+ * Returns the events emitted during this tick, in order (also kept on
+ * state.eventQueue until the next tick).
+ */
+export function tick(state: GameState, gameInput: GameInput): readonly GameEvent[] {
+  beginEventTick(state.eventQueue);
+  if (state.gameOver) return state.eventQueue.events;
+
+  if (state.messageTimer > 0) {
+    state.messageTimer--;
+    if (state.messageTimer === 0 && state.pendingAction) {
+      applyPendingAction(state);
+    }
+  } else if (state.teleport) {
+    tickTeleport(state);
+  } else {
+    tickPlay(state, gameInput);
+    resolveCollisions(state, state.cheats.invulnerableShield && gameInput.shieldTractor && !state.fuelEmpty);
+
+    // Orbit escape — start disappear teleport
+    if (state.escapedToOrbit) {
+      state.escapedToOrbit = false;
+      emit(state.eventQueue, { type: "OrbitReached", x: state.player.x, y: state.player.y, withPod: state.physics.state.podAttached });
+      startTeleport(state, true);
+    }
+
+    // Death sequence finished
+    if (state.levelEndedFlag) {
+      state.levelEndedFlag = false;
+      emit(state.eventQueue, { type: "LevelEnded" });
+      processDeath(state);
+    }
+  }
+  return state.eventQueue.events;
+}
+
+/** Advance the teleport animation; when a disappear completes, the mission is over. */
+function tickTeleport(state: GameState): void {
+  const teleport = state.teleport!;
+  teleport.timer += GAME_TICK_CS;
+  while (teleport.timer >= TELEPORT_STEP_CS) {
+    teleport.timer -= TELEPORT_STEP_CS;
+    teleport.step++;
+  }
+  if (teleport.step < TELEPORT_STEPS) return;
+
+  state.teleport = null;
+  if (teleport.isDisappearing) {
+    processOrbitEscape(state);
+  }
+}
+
+/** Lives aren't used up with the practice infinite-lives assist. */
+function loseLife(state: GameState): void {
+  if (!state.cheats.infiniteLives) state.lives--;
+}
+
+function otherPlayerWaiting(state: GameState): boolean {
+  return state.turns !== null && state.turns.waiting.lives > 0;
+}
+
+/**
+ * In a two-player game whose other player still has lives, end the
+ * current player's turn: show `text` (if any), then hand over to the
+ * other player. The current player picks up on the same level next
+ * turn, or the next level once the planet is destroyed. Returns false
+ * when play should carry on as in a one-player game.
+ */
+function passTurn(state: GameState, text: string | null, nextLevel: boolean, duration: number = MESSAGE_DURATION): boolean {
+  if (!otherPlayerWaiting(state)) return false;
+  state.turns!.ending = {
+    ...(nextLevel ? nextLevelProgress(state) : {
+      levelNumber: state.levelNumber,
+      reverseGravity: state.reverseGravity,
+      invisibleLandscape: state.invisibleLandscape,
+    }),
+    lives: state.lives,
+    score: state.score,
+    missionNumber: state.missionNumber,
+  };
+  if (text) triggerMessage(state, text, 'next-player', duration);
+  else Object.assign(state, takeTurn(state));
+  return true;
+}
+
+/** The current player's game is over; the whole game is over unless the other player has lives left. */
+function playerOut(state: GameState, text: string): void {
+  if (!passTurn(state, text, false)) triggerMessage(state, text, 'game-over');
+}
+
+/** Running out of fuel ends the player's game, lives or not. */
+function outOfFuel(state: GameState): void {
+  if (otherPlayerWaiting(state)) state.lives = 0;
+  playerOut(state, "OUT OF FUEL");
+}
+
+/** Ship has finished teleporting out to orbit — decide how the mission ended. */
+function processOrbitEscape(state: GameState): void {
+  if (state.fuelEmpty) {
+    outOfFuel(state);
+  } else if (state.physics.state.podAttached) {
+    missionComplete(state);
+    triggerMessage(state, "MISSION COMPLETE", 'next-level');
+  } else if (state.generator.planetCountdown >= 0) {
+    loseLife(state);
+    if (state.lives <= 0) playerOut(state, "GAME OVER");
+    else if (!passTurn(state, "PLANET DESTROYED", true, MESSAGE_DURATION * 2)) {
+      triggerMessage(state, "PLANET DESTROYED", 'next-level', MESSAGE_DURATION * 2);
+    }
+  } else {
+    loseLife(state);
+    if (state.lives <= 0) playerOut(state, "GAME OVER");
+    else if (!passTurn(state, "MISSION INCOMPLETE", false)) triggerMessage(state, "MISSION INCOMPLETE", 'retry');
+  }
+}
+
+/** Death sequence finished — lose a life, retry or end the game (or pass the turn). */
+function processDeath(state: GameState): void {
+  if (state.fuelEmpty) {
+    outOfFuel(state);
+  } else {
+    loseLife(state);
+    if (state.lives <= 0) {
+      playerOut(state, "GAME OVER");
+    } else if (state.generator.planetCountdown >= 0 || state.planetKilled) {
+      if (!passTurn(state, "PLANET DESTROYED", true, MESSAGE_DURATION * 2)) {
+        triggerMessage(state, "PLANET DESTROYED", 'next-level', MESSAGE_DURATION * 2);
+      }
+    } else if (!passTurn(state, null, false)) {
+      retryLevel(state);
+    }
+  }
+}
+
+/**
+ * Carry out the action queued behind a message. The next level is loaded
+ * in place so callers holding this GameState keep a valid reference.
+ * The message is cleared first, since an action may show one of its own
+ * (the next player's turn opens with a PLAYER message).
+ */
+function applyPendingAction(state: GameState): void {
+  const action = state.pendingAction;
+  state.pendingAction = null;
+  state.messageText = null;
+  switch (action) {
+    case 'retry':
+      retryLevel(state);
+      break;
+    case 'next-level':
+      Object.assign(state, advanceToNextLevel(state));
+      break;
+    case 'game-over':
+      state.gameOver = true;
+      break;
+    case 'next-player':
+      Object.assign(state, takeTurn(state));
+      break;
+  }
+}
+
+/**
+ * Draw this tick's collision buffer, then resolve bullet hits, ship/pod
+ * collisions and planet destruction against it.
+ */
+function resolveCollisions(state: GameState, invulnerable: boolean): void {
+  const camX = Math.round(state.scroll.windowPos.x * WORLD_SCALE_X);
+  const camY = Math.round(state.scroll.windowPos.y * WORLD_SCALE_Y);
+  const sprites = collisionSprites;
+  fillGameCollisionBuffer(state, collisionBuffer, camX, camY);
+
+  // Remove bullets that hit terrain/objects
+  removeCollidingBullets(state.turretFiring, collisionBuffer, camX, camY);
+
+  // Player bullet collision via collision buffer — detects terrain hits and object destruction
+  const bulletHits = processPlayerBulletCollisions(
+    state.playerShooting, collisionBuffer, camX, camY,
+    state.level.turrets, state.level.fuel,
+    state.destroyedTurrets, state.destroyedFuel,
+  );
+  // Gun explosions: type 2 ($0F) = colour 1 = yellow
+  for (const idx of bulletHits.hitTurrets) {
+    state.destroyedTurrets.add(idx);
+    const t = state.level.turrets[idx];
+    spawnExplosion(state.explosions, state.rng, t.x + 2, t.y + 4, bbcMicroColours.yellow);
+    emit(state.eventQueue, { type: "TurretDestroyed", turretIndex: idx, x: t.x, y: t.y });
+    addScore(state, SCORE_GUN_DESTROYED);
+  }
+  // Fuel explosions: type 1 ($FF) = both landscape + object colours combined
+  const fuelExplosionColour = orColours(state.level.terrainColor, state.level.objectColor);
+  for (const idx of bulletHits.hitFuel) {
+    state.destroyedFuel.add(idx);
+    const f = state.level.fuel[idx];
+    spawnExplosion(state.explosions, state.rng, f.x + 2, f.y + 4, fuelExplosionColour);
+    emit(state.eventQueue, { type: "FuelDestroyed", fuelIndex: idx, x: f.x, y: f.y });
+    addScore(state, SCORE_FUEL_SHOT);
+  }
+  // Generator hit
+  if (bulletHits.hitGenerator && !state.generator.destroyed) {
+    const countdownWasRunning = state.generator.planetCountdown >= 0;
+    handleGeneratorHit(state.generator, state.explosions, state.rng, bulletHits.generatorHitX, bulletHits.generatorHitY);
+    emit(state.eventQueue, { type: "GeneratorHit", x: bulletHits.generatorHitX, y: bulletHits.generatorHitY });
+    if (!countdownWasRunning && state.generator.planetCountdown >= 0) {
+      emit(state.eventQueue, { type: "CountdownStarted", seconds: state.generator.planetCountdown });
+    }
+  }
+  // Switch hit — trigger door and spawn debris (no score, switch persists)
+  if (bulletHits.hitSwitch) {
+    triggerDoor(state.doorState);
+    spawnExplosion(state.explosions, state.rng, bulletHits.switchHitX, bulletHits.switchHitY, bbcMicroColours.yellow);
+    emit(state.eventQueue, { type: "DoorTriggered", x: bulletHits.switchHitX, y: bulletHits.switchHitY });
+  }
+
+  const { mask, shipScreenX, shipScreenY } = shipMask(state, camX, camY);
+
+  // --- Collision detection — skip during death sequence ---
+  if (!state.deathSequence) {
+    const collision = testCollision(collisionBuffer, mask, shipScreenX, shipScreenY);
+    state.collisionResult = collision;
+
+    // Ship collision → destroy ship (ship dies first)
+    if (collision !== CollisionResult.None && !invulnerable) {
+      destroyPlayerShip(state);
+    }
+
+    // Tether line + pod collision with terrain (only when pod is attached, not during tractor beam)
+    if (collision === CollisionResult.None && state.physics.state.podAttached && !invulnerable) {
+      const shipCX = Math.round(state.player.x * WORLD_SCALE_X - camX);
+      const shipCY = Math.round(state.player.y * WORLD_SCALE_Y - camY);
+      const podCX = Math.round(state.physics.state.podX * WORLD_SCALE_X - camX);
+      const podCY = Math.round(state.physics.state.podY * WORLD_SCALE_Y - camY);
+      const podLeft = podCX - Math.floor(sprites.pod.width / 2);
+      const podTop = podCY - Math.floor(sprites.pod.height / 2);
+
+      // Tether line first, then the pod sprite area
+      if (testLineCollision(collisionBuffer, shipCX, shipCY, podCX, podCY) ||
+          testRectCollision(collisionBuffer, podLeft, podTop, sprites.pod.width, sprites.pod.height)) {
+        destroyAttachedPod(state);
+      }
+    }
+
+    // Bullet-ship collision — always remove bullets that hit, only kill player if shield is down
+    const bulletHitShip = removeBulletsHittingShip(state.turretFiring.bullets, mask, shipScreenX, shipScreenY, camX, camY);
+    if (bulletHitShip && !state.shieldActive && !invulnerable) {
+      destroyPlayerShip(state);
+    }
+  }
+
+  // Planet self-destruct countdown reached 0 — start explosion animation
+  if (state.planetKilled) {
+    state.planetKilled = false;
+    if (state.planetExplodeAnim === 0 && !state.deathSequence) {
+      state.planetExplodeAnim = PLANET_EXPLODE_ANIM_START;
+      emit(state.eventQueue, { type: "PlanetDestroyed" });
+
+      // Destroy player ship and all remaining objects at once
+      destroyPlayerShip(state);
+      for (let i = 0; i < state.level.turrets.length; i++) {
+        if (!state.destroyedTurrets.has(i)) {
+          state.destroyedTurrets.add(i);
+          const t = state.level.turrets[i];
+          spawnExplosion(state.explosions, state.rng, t.x + 2, t.y + 4, bbcMicroColours.yellow);
+          emit(state.eventQueue, { type: "TurretDestroyed", turretIndex: i, x: t.x, y: t.y });
+        }
+      }
+      for (let i = 0; i < state.level.fuel.length; i++) {
+        if (!state.destroyedFuel.has(i)) {
+          state.destroyedFuel.add(i);
+          const f = state.level.fuel[i];
+          spawnExplosion(state.explosions, state.rng, f.x + 2, f.y + 4, bbcMicroColours.yellow);
+          emit(state.eventQueue, { type: "FuelDestroyed", fuelIndex: i, x: f.x, y: f.y });
+        }
+      }
+      if (!state.generator.destroyed) {
+        state.generator.destroyed = true;
+        const pp = state.level.powerPlant;
+        spawnExplosion(state.explosions, state.rng, pp.x + 4, pp.y + 4, bbcMicroColours.yellow);
+      }
+    }
+  }
+}
+
+/** Normal play: ship physics, fuel, scrolling, turrets, bullets and pickups. */
+function tickPlay(state: GameState, gameInput: GameInput): void {
 
   // Planet explosion animation runs at 50Hz (BBC Micro vsync rate)
-  state.planetExplodeAccumulator += dt;
-  while (state.planetExplodeAccumulator >= VSYNC_STEP_S) {
-    state.planetExplodeAccumulator -= VSYNC_STEP_S;
+  state.planetExplodeAccumulator += GAME_TICK_CS;
+  while (state.planetExplodeAccumulator >= VSYNC_CS) {
+    state.planetExplodeAccumulator -= VSYNC_CS;
     state.frameCounter++;
     if (state.planetExplodeAnim > 0) {
       if (state.frameCounter % 2 === 0) {
@@ -425,170 +850,178 @@ export function tick(state: GameState, dt: number, gameInput: GameInput): void {
     shield: spacebarDown && !state.fuelEmpty,
   };
 
-  state.physics.update(dt, input);
+  state.physics.tick(input);
 
   // Use shipX/shipY — equals x,y when no pod, derived from midpoint when attached
   state.player.x = state.physics.state.shipX;
   state.player.y = state.physics.state.shipY;
   state.player.rotation = state.physics.angleRadians;
 
-  // Update scroll at 50 Hz fixed timestep
-  const scrollDt = Math.min(dt, 0.1);
-  state.scrollAccumulator += scrollDt;
-  let scrollUpdated = false;
-  while (state.scrollAccumulator >= SCROLL_STEP_S) {
-    state.scrollAccumulator -= SCROLL_STEP_S;
-    scrollUpdated = true;
-
-    // Fuel burn logic per game tick
-    const slot = state.fuelTickCounter & TICK_SLOT_MASK;
-    const shieldGate = (state.fuelTickCounter & SHIELD_GATE_MASK) !== 0;
-    state.fuelTickCounter = (state.fuelTickCounter + 1) & BYTE_MASK;
-
-    // Thrust fuel: burns on active slots only (6/16 ticks)
-    if (thrustDown && !state.fuelEmpty && FUEL_ACTIVE_SLOTS.has(slot)) {
-      state.fuel--;
-    }
-    // Shield fuel: burns when shield gate is open (2-on/2-off pattern, 50%)
-    if (spacebarDown && !state.fuelEmpty && shieldGate) {
-      state.fuel--;
-    }
-    // Check for empty
-    if (state.fuel <= 0) {
-      state.fuel = 0;
-      state.fuelEmpty = true;
-    }
+  // Fuel burn logic per game tick
+  const slot = state.fuelTickCounter & TICK_SLOT_MASK;
+  const shieldGate = (state.fuelTickCounter & SHIELD_GATE_MASK) !== 0;
+  state.fuelTickCounter = (state.fuelTickCounter + 1) & BYTE_MASK;
 
-    // Shield active flickers with the gate (2-on/2-off)
-    state.shieldActive = spacebarDown && !state.fuelEmpty && shieldGate;
+  // Thrust fuel: burns on active slots only (6/16 ticks)
+  if (thrustDown && !state.fuelEmpty && FUEL_ACTIVE_SLOTS.has(slot) && !state.cheats.infiniteFuel) {
+    state.fuel--;
+  }
+  // Shield fuel: burns when shield gate is open (2-on/2-off pattern, 50%)
+  if (spacebarDown && !state.fuelEmpty && shieldGate && !state.cheats.infiniteFuel) {
+    state.fuel--;
+  }
+  // Check for empty
+  if (state.fuel <= 0) {
+    state.fuel = 0;
+    state.fuelEmpty = true;
+  }
 
-    // Death sequence countdown (runs each game tick)
-    if (dying) {
-      tickDeathSequence(state);
-    }
+  // Shield active flickers with the gate (2-on/2-off)
+  state.shieldActive = spacebarDown && !state.fuelEmpty && shieldGate;
+
+  // Death sequence countdown (runs each game tick)
+  if (dying) {
+    tickDeathSequence(state);
+  }
+
+  updateScroll(
+      { x: state.physics.state.x, y: state.physics.state.y },
+      { x: state.physics.state.forceX, y: state.physics.state.forceY },
+      state.scroll,
+      state.scrollConfig,
+  );
+
+  const camX = Math.round(state.scroll.windowPos.x * WORLD_SCALE_X);
+  const camY = Math.round(state.scroll.windowPos.y * WORLD_SCALE_Y);
+  tickTurrets(
+      state.turretFiring,
+      state.eventQueue,
+      state.rng,
+      state.level,
+      state.player.x,
+      state.player.y,
+      camX,
+      camY,
+      320,
+      256,
+      state.destroyedTurrets,
+      !canTurretsFire(state.generator) || state.cheats.turretsDisabled,
+  );
 
-    updateScroll(
-        { x: state.physics.state.x, y: state.physics.state.y },
-        { x: state.physics.state.forceX, y: state.physics.state.forceY },
-        state.scroll,
-        state.scrollConfig,
-    );
-
-    const camX = Math.round(state.scroll.windowPos.x * WORLD_SCALE_X);
-    const camY = Math.round(state.scroll.windowPos.y * WORLD_SCALE_Y);
-    tickTurrets(
-        state.turretFiring,
-        state.level,
-        state.player.x,
-        state.player.y,
-        camX,
-        camY,
-        320,
-        256,
-        state.destroyedTurrets,
-        !canTurretsFire(state.generator),
-    );
-
-    tickPlayerShooting(
-        state.playerShooting,
-        !dying && gameInput.fire,
-        state.shieldActive,
-        state.physics.state.angle,
-        state.player.x,
-        state.player.y,
-        state.physics.state.forceX,
-        state.physics.state.forceY,
-    );
-
-    tickPlayerBullets(state.playerShooting);
-
-    tickExplosions(state.explosions);
-
-    tickStarField(
-        state.starField,
-        state.scroll.windowPos.x,
-        state.scroll.windowPos.y,
-        state.level.objectColor,
-        state.level.terrainColor,
-    );
-
-    const genResult = tickGenerator(state.generator, state.explosions, state.level);
+  tickPlayerShooting(
+      state.playerShooting,
+      state.eventQueue,
+      !dying && gameInput.fire,
+      state.shieldActive,
+      state.physics.state.angle,
+      state.player.x,
+      state.player.y,
+      state.physics.state.forceX,
+      state.physics.state.forceY,
+  );
+
+  tickPlayerBullets(state.playerShooting);
+
+  // A split-screen ship's shared world is ticked by splitScreen.ts
+  if (!state.splitScreen) tickExplosions(state.explosions);
+
+  tickStarField(
+      state.starField,
+      state.rng,
+      state.scroll.windowPos.x,
+      state.scroll.windowPos.y,
+      state.level.objectColor,
+      state.level.terrainColor,
+  );
+
+  if (!state.splitScreen) {
+    const genResult = tickGenerator(state.generator, state.eventQueue, state.explosions, state.level);
     if (genResult.playerKilled) {
       state.planetKilled = true;
     }
 
     tickDoor(state.doorState, state.level.doorConfig);
+  }
 
-    // Pass spacebarDown && !fuelEmpty so tractor-beam fuel pickup isn't interrupted by shield flicker
-    tickFuelCollection(
-        state.fuelCollection,
-        state.level,
-        state.player.x,
-        state.player.y,
-        spacebarDown && !state.fuelEmpty,
-        state.physics.state.podAttached,
-        state.destroyedFuel,
-        state,
-    );
-
-    // Tractor beam logic (50Hz) — gate on spacebarDown && !fuelEmpty (not shieldActive) to avoid flicker reset
-    if (!state.physics.state.podAttached) {
-      if (!(spacebarDown && !state.fuelEmpty)) {
-        // Spacebar released or fuel empty: reset beam
-        state.tractorBeamStarted = false;
-        state.podLineExists = false;
-      } else {
-        // Calculate screen-space distance to pod circle center
-        // Pod stand sprite (11x19) drawn at (pedestal.x, pedestal.y - 1 screen px)
-        // Pod circle (11x11) sits at the top — center at pixel (5, 5) from sprite origin
-        const shipSX = state.player.x * WORLD_SCALE_X - camX;
-        const shipSY = state.player.y * WORLD_SCALE_Y - camY;
-        const podSX = state.level.podPedestal.x * WORLD_SCALE_X - camX + 5;
-        const podSY = state.level.podPedestal.y * WORLD_SCALE_Y - camY + 4;
-
-        // Pod must be on screen
-        if (podSX >= 0 && podSX < 320 && podSY >= 0 && podSY < 256) {
-          const dist = tractorDistance(shipSX, shipSY, podSX, podSY);
-
-          if (dist < TRACTOR_BEAM_START_DISTANCE) {
-            // Close zone: start beam
-            state.tractorBeamStarted = true;
-            state.podLineExists = true;
-          } else if (dist >= TRACTOR_ATTACH_DISTANCE && state.tractorBeamStarted) {
-            // Far zone + beam started: attach pod at circle center
-            const podWorldX = state.level.podPedestal.x + 5 / WORLD_SCALE_X;
-            const podWorldY = state.level.podPedestal.y + 4 / WORLD_SCALE_Y;
-            state.physics.attachPod(podWorldX, podWorldY);
-            state.podLineExists = true;
-            state.podAttachedThisTick = true;
-          }
-          // Dead zone ($75-$83): no change
-        }
+  // Pass spacebarDown && !fuelEmpty so tractor-beam fuel pickup isn't interrupted by shield flicker
+  tickFuelCollection(
+      state.fuelCollection,
+      state.level,
+      state.player.x,
+      state.player.y,
+      spacebarDown && !state.fuelEmpty,
+      state.physics.state.podAttached,
+      state.destroyedFuel,
+      state,
+  );
 
-        // podLineExists flickers with shieldActive for rendering
-        state.podLineExists = state.tractorBeamStarted && state.shieldActive;
+  // Tractor beam logic (50Hz) — gate on spacebarDown && !fuelEmpty (not shieldActive) to avoid flicker reset
+  if (!state.physics.state.podAttached) {
+    if (!(spacebarDown && !state.fuelEmpty) || state.splitScreen?.podTaken) {
+      // Spacebar released, fuel empty or the other ship has the pod: reset beam
+      state.tractorBeamStarted = false;
+      state.podLineExists = false;
+    } else {
+      // Calculate screen-space distance to pod circle center
+      // Pod stand sprite (11x19) drawn at (pedestal.x, pedestal.y - 1 screen px)
+      // Pod circle (11x11) sits at the top — center at pixel (5, 5) from sprite origin
+      const shipSX = state.player.x * WORLD_SCALE_X - camX;
+      const shipSY = state.player.y * WORLD_SCALE_Y - camY;
+      const podSX = state.level.podPedestal.x * WORLD_SCALE_X - camX + 5;
+      const podSY = state.level.podPedestal.y * WORLD_SCALE_Y - camY + 4;
+
+      // Pod must be on screen
+      if (podSX >= 0 && podSX < 320 && podSY >= 0 && podSY < 256) {
+        const dist = tractorDistance(shipSX, shipSY, podSX, podSY);
+
+        if (dist < TRACTOR_BEAM_START_DISTANCE) {
+          // Close zone: start beam
+          state.tractorBeamStarted = true;
+          state.podLineExists = true;
+        } else if (dist >= TRACTOR_ATTACH_DISTANCE && state.tractorBeamStarted) {
+          // Far zone + beam started: attach pod at circle center
+          const podWorldX = state.level.podPedestal.x + 5 / WORLD_SCALE_X;
+          const podWorldY = state.level.podPedestal.y + 4 / WORLD_SCALE_Y;
+          state.physics.attachPod(podWorldX, podWorldY);
+          state.podLineExists = true;
+          emit(state.eventQueue, { type: "PodAttached", x: podWorldX, y: podWorldY });
+        }
+        // Dead zone ($75-$83): no change
       }
-    }
 
-    // Orbit escape detection — blocked during death
-    if (!dying && state.physics.state.y < ORBIT_ESCAPE_Y && !state.levelEndedFlag) {
-      state.escapedToOrbit = true;
+      // podLineExists flickers with shieldActive for rendering
+      state.podLineExists = state.tractorBeamStarted && state.shieldActive;
     }
   }
 
-  // Ensure scroll updates at least once per frame to stay in sync with physics.
-  // Without this, frames where the 50Hz accumulator doesn't trigger leave the
-  // camera stale while ship/pod positions have advanced, causing visible jitter.
-  if (!scrollUpdated) {
-    updateScroll(
-        { x: state.physics.state.x, y: state.physics.state.y },
-        { x: state.physics.state.forceX, y: state.physics.state.forceY },
-        state.scroll,
-        state.scrollConfig,
-    );
+  // Orbit escape detection — blocked during death
+  if (!dying && state.physics.state.y < ORBIT_ESCAPE_Y && !state.levelEndedFlag) {
+    state.escapedToOrbit = true;
   }
 }
 
+/** Respawn with the pod already on the tether, hanging below the ship (above it in reverse gravity). */
+function attachRespawnPod(state: GameState): void {
+  state.physics.state.podAttached = true;
+  state.physics.state.pod.angleShipToPod = state.reverseGravity ? 0x11 : 0x01;
+  state.physics.state.pod.angleFrac = 0;
+  state.physics.state.pod.angularVelocity = 0;
+  state.physics.state.pod.tetherIndex = 15;
+}
+
+/**
+ * Move a just-created game to another of its level's spawn points,
+ * optionally carrying the pod as a respawn with the pod would, and
+ * restart the teleport-in there.
+ */
+export function startAtSpawnPoint(state: GameState, spawnIndex: number, withPod: boolean): void {
+  applySpawnPoint(state, state.level.spawnPoints[spawnIndex]);
+  if (withPod) attachRespawnPod(state);
+  state.starField = createStarFieldState();
+  seedStarField(state.starField, state.rng, state.scroll.windowPos.x, state.level.objectColor, state.level.terrainColor);
+  startTeleport(state, false);
+}
+
 /** Reset level state for retry — preserves score, lives, levelNumber, missionNumber. */
 export function retryLevel(state: GameState): void {
   // Detach pod first if attached
@@ -608,35 +1041,29 @@ export function retryLevel(state: GameState): void {
   state.collisionResult = CollisionResult.None;
 
   applySpawnPoint(state, spawnPoint);
-
-  if (respawnWithPod) {
-    state.physics.state.podAttached = true;
-    state.physics.state.pod.angleShipToPod = state.reverseGravity ? 0x11 : 0x01;
-    state.physics.state.pod.angleFrac = 0;
-    state.physics.state.pod.angularVelocity = 0;
-    state.physics.state.pod.tetherIndex = 15;
-  }
+  if (respawnWithPod) attachRespawnPod(state);
 
   state.scroll.scrollSpeed.x = 0;
   state.scroll.scrollSpeed.y = 0;
-  state.scrollAccumulator = 0;
   state.turretFiring.bullets = [];
   for (const b of state.playerShooting.bullets) b.active = false;
   state.playerShooting.bulletIndex = 0;
   state.playerShooting.pressedFire = false;
-  state.explosions.particles = [];
   state.fuelCollection = createFuelCollectionState(state.level.fuel.length);
-  state.generator = createGeneratorState();
-  state.doorState = createDoorState();
+  // A split-screen ship respawns into the world the other ship is still flying in
+  if (!state.splitScreen) {
+    state.explosions.particles = [];
+    state.generator = createGeneratorState();
+    state.doorState = createDoorState();
+  }
   state.starField = createStarFieldState();
-  seedStarField(state.starField, state.scroll.windowPos.x, state.level.objectColor, state.level.terrainColor);
+  seedStarField(state.starField, state.rng, state.scroll.windowPos.x, state.level.objectColor, state.level.terrainColor);
   state.fuel = INITIAL_FUEL;
   state.fuelEmpty = false;
   state.fuelTickCounter = 0;
   state.planetKilled = false;
   state.tractorBeamStarted = false;
   state.podLineExists = false;
-  state.podAttachedThisTick = false;
   state.levelEndedFlag = false;
   state.escapedToOrbit = false;
   state.messageText = null;
@@ -665,23 +1092,30 @@ export function triggerMessage(
   state.messageText = text;
   state.messageTimer = duration;
   state.pendingAction = action;
+  emit(state.eventQueue, { type: "MessageShown", text });
 }
 
-/** Advance to next level, preserving persistent state. Toggles cycling modifiers on wrap. */
-export function advanceToNextLevel(state: GameState): GameState {
-  const nextLevelNumber = (state.levelNumber + 1) % levels.length;
+/** Level and modifiers after the current level. Toggles cycling modifiers on wrap. */
+function nextLevelProgress(state: GameState): Pick<PlayerProgress, "levelNumber" | "reverseGravity" | "invisibleLandscape"> {
+  const levelNumber = (state.levelNumber + 1) % levels.length;
 
   let reverseGravity = state.reverseGravity;
   let invisibleLandscape = state.invisibleLandscape;
 
   // Level cycling: toggle modifiers when wrapping from level 5 back to 0
-  if (nextLevelNumber === 0 && state.levelNumber === levels.length - 1) {
+  if (levelNumber === 0 && state.levelNumber === levels.length - 1) {
     reverseGravity = !reverseGravity;
     if (!reverseGravity) {
       // Reverse gravity just turned OFF → toggle invisible landscape
       invisibleLandscape = !invisibleLandscape;
     }
   }
+  return { levelNumber, reverseGravity, invisibleLandscape };
+}
+
+/** Advance to next level, preserving persistent state. */
+export function advanceToNextLevel(state: GameState): GameState {
+  const { levelNumber: nextLevelNumber, reverseGravity, invisibleLandscape } = nextLevelProgress(state);
 
   const newState = createGame(levels[nextLevelNumber], nextLevelNumber, {
     lives: state.lives,
@@ -689,7 +1123,13 @@ export function advanceToNextLevel(state: GameState): GameState {
     missionNumber: state.missionNumber,
     reverseGravity,
     invisibleLandscape,
+    seed: state.rng.seed,
+    fixedPointPhysics: state.physics.state.fixedPoint,
+    cheats: state.cheats,
+    turns: state.turns ?? undefined,
   });
+  // Keep the event stream (and its tick numbering) running across levels
+  newState.eventQueue = state.eventQueue;
 
   // Show modifier message on first activation of each cycle
   if (reverseGravity && !state.reverseGravity) {
@@ -701,10 +1141,39 @@ export function advanceToNextLevel(state: GameState): GameState {
   return newState;
 }
 
+/**
+ * Hand the controls to the waiting player: a new game on their level
+ * with their lives and score, opening with a PLAYER 1 / PLAYER 2
+ * message. The player whose turn ended waits with the progress
+ * passTurn() kept for them.
+ */
+function takeTurn(state: GameState): GameState {
+  const turns = state.turns!;
+  const next = turns.waiting;
+  const newState = createGame(levels[next.levelNumber], next.levelNumber, {
+    ...next,
+    seed: state.rng.seed,
+    fixedPointPhysics: state.physics.state.fixedPoint,
+    cheats: state.cheats,
+    turns: { current: 1 - turns.current, waiting: turns.ending!, ending: null },
+  });
+  newState.eventQueue = state.eventQueue;
+  triggerMessage(newState, `PLAYER ${newState.turns!.current + 1}`, null);
+  return newState;
+}
+
+/** Final scores, in player order (just the one in a one-player game). */
+export function playerScores(state: GameState): number[] {
+  if (!state.turns) return [state.score];
+  const scores = [state.score, state.turns.waiting.score];
+  return state.turns.current === 0 ? scores : scores.reverse();
+}
+
 /** Add points and award extra lives for each 10,000-point boundary crossed. */
 export function addScore(state: GameState, points: number): void {
   const oldThousands = Math.floor(state.score / EXTRA_LIFE_THRESHOLD);
   state.score += points;
+  emit(state.eventQueue, { type: "Score", points, total: state.score });
   const newThousands = Math.floor(state.score / EXTRA_LIFE_THRESHOLD);
   state.lives += (newThousands - oldThousands);
 }
@@ -1,6 +1,8 @@
 import { ANGLE_X, ANGLE_Y } from "./physics";
 import { ExplosionState, spawnExplosion } from "./explosions";
 import { Level } from "./levels";
+import { RngState, rnd } from "./rng";
+import { EventQueue, emit } from "./events";
 
 const BYTE_MASK = 0xFF;
 const COUNTDOWN_FLASH_MASK = 0x04;
@@ -28,7 +30,6 @@ export interface GeneratorState {
   destroyed: boolean;           // removed from level (no-overflow hit)
   visible: boolean;             // toggled during countdown flash
   tickCounter: number;          // for smoke interval + recharge decrement
-  countdownBeepThisTick: boolean;
 }
 
 export function createGeneratorState(): GeneratorState {
@@ -40,17 +41,16 @@ export function createGeneratorState(): GeneratorState {
     destroyed: false,
     visible: true,
     tickCounter: 0,
-    countdownBeepThisTick: false,
   };
 }
 
 export function tickGenerator(
   state: GeneratorState,
+  events: EventQueue,
   explosions: ExplosionState,
   level: Level,
 ): { playerKilled: boolean } {
   let playerKilled = false;
-  state.countdownBeepThisTick = false;
 
   state.tickCounter = (state.tickCounter + 1) & BYTE_MASK;
 
@@ -70,7 +70,7 @@ export function tickGenerator(
       state.countdownTicks = COUNTDOWN_TICKS_PER_SECOND;
       if (state.planetCountdown > 0) {
         state.planetCountdown--;
-        state.countdownBeepThisTick = true;
+        emit(events, { type: "CountdownBeep", secondsRemaining: state.planetCountdown });
       }
     }
     if (state.planetCountdown === 0) {
@@ -101,14 +101,15 @@ export function tickGenerator(
 export function handleGeneratorHit(
   state: GeneratorState,
   explosions: ExplosionState,
+  rng: RngState,
   bulletX: number,
   bulletY: number,
 ): void {
   // Spawn 3-particle debris explosion at bullet position
-  let explosionAngle = Math.floor(Math.random() * 256) & ANGLE_MASK;
+  let explosionAngle = rnd(rng) & ANGLE_MASK;
   for (let p = 0; p < GENERATOR_HIT_DEBRIS_COUNT; p++) {
-    const rndA = Math.floor(Math.random() * 256);
-    const rndB = Math.floor(Math.random() * 256);
+    const rndA = rnd(rng);
+    const rndB = rnd(rng);
     const randomOffset = rndA & RANDOM_OFFSET_MASK;
     const angle = (explosionAngle + randomOffset) & ANGLE_MASK;
 
@@ -134,7 +135,7 @@ export function handleGeneratorHit(
   }
 
   // Calculate new recharge
-  const newRecharge = (Math.floor(Math.random() * 256) & RECHARGE_RANDOM_MASK) + state.generatorTotalDamage;
+  const newRecharge = (rnd(rng) & RECHARGE_RANDOM_MASK) + state.generatorTotalDamage;
 
   if (newRecharge > RECHARGE_MAX) {
     // Overflow
@@ -0,0 +1,186 @@
+import {drawRemappedSprite, rotationToSpriteIndex, WORLD_SCALE_X, WORLD_SCALE_Y, WORLD_WIDTH} from "./rendering";
+import {GameState} from "./game";
+import type {SpriteCenter} from "./shipSprites";
+
+// ---------------------------------------------------------------------------
+// Ghost ship: a recorded run's ship, pod and tether, replayed by position
+// ---------------------------------------------------------------------------
+//
+// The ghost is never simulated. Each tick of a run stores where the ship
+// and pod were drawn, and the ghost is drawn from those positions tick
+// for tick, so it always retraces the recorded run exactly whatever the
+// live game does. It is only ever drawn to the screen: the collision
+// buffer is filled from GameState alone, so the ghost can't be hit and
+// can't hit anything.
+
+/** Values stored per tick: ship x, y (world pixels), sprite, pod flag, pod x, y */
+const FRAME_SIZE = 6;
+const HIDDEN = -1;
+/** Ship sprite indices run from 0 to 31, as rotationToSpriteIndex() gives them */
+const SHIP_SPRITE_COUNT = 32;
+const GHOST_ALPHA = 0.4;
+/** Larger moves between two ticks are jumps (a wrap or a respawn), drawn without blending */
+const SNAP_DISTANCE = 64;
+const GHOST_FORMAT_VERSION = 1;
+
+export interface GhostTrack {
+  /** FRAME_SIZE whole numbers for each tick since the run started */
+  frames: number[];
+}
+
+export interface GhostSprites {
+  ship: ImageBitmap[];
+  centers: SpriteCenter[];
+  pod: ImageBitmap;
+}
+
+export function createGhostTrack(): GhostTrack {
+  return { frames: [] };
+}
+
+export function ghostLength(track: GhostTrack): number {
+  return track.frames.length / FRAME_SIZE;
+}
+
+/** Add the game's ship and pod as the next tick of the track. */
+export function recordGhostFrame(track: GhostTrack, game: GameState): void {
+  const physics = game.physics.state;
+  const visible = !game.teleport && !game.deathSequence?.shipDestroyed;
+  track.frames.push(
+    Math.round(game.player.x * WORLD_SCALE_X),
+    Math.round(game.player.y * WORLD_SCALE_Y),
+    visible ? rotationToSpriteIndex(game.player.rotation) : HIDDEN,
+    visible && physics.podAttached ? 1 : 0,
+    Math.round(physics.podX * WORLD_SCALE_X),
+    Math.round(physics.podY * WORLD_SCALE_Y),
+  );
+}
+
+/**
+ * Tracks are stored as each value's change from the tick before, which
+ * keeps a few minutes of flying to tens of kilobytes of JSON.
+ */
+export function serializeGhost(track: GhostTrack): string {
+  const deltas = track.frames.map((value, i) => i < FRAME_SIZE ? value : value - track.frames[i - FRAME_SIZE]);
+  return JSON.stringify({ version: GHOST_FORMAT_VERSION, deltas });
+}
+
+/** A frame's sprite must be one that can be drawn, and its pod value a flag. */
+function validFrame(frames: number[], at: number): boolean {
+  const sprite = frames[at + 2];
+  const pod = frames[at + 3];
+  return (sprite === HIDDEN || (sprite >= 0 && sprite < SHIP_SPRITE_COUNT)) && (pod === 0 || pod === 1);
+}
+
+/** Returns null for anything that isn't a stored track. */
+export function deserializeGhost(text: string): GhostTrack | null {
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed?.version !== GHOST_FORMAT_VERSION || !Array.isArray(parsed.deltas)) return null;
+    const deltas: unknown[] = parsed.deltas;
+    if (deltas.length % FRAME_SIZE !== 0 || !deltas.every(Number.isInteger)) return null;
+    const frames: number[] = [];
+    (deltas as number[]).forEach((delta, i) => frames.push(i < FRAME_SIZE ? delta : delta + frames[i - FRAME_SIZE]));
+    for (let at = 0; at < frames.length; at += FRAME_SIZE) {
+      if (!validFrame(frames, at)) return null;
+    }
+    return { frames };
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+function blend(from: number, to: number, alpha: number): number {
+  return Math.abs(to - from) > SNAP_DISTANCE ? to : from + (to - from) * alpha;
+}
+
+/** Screen x of a world pixel x, wrapped to the copy of the world nearest the camera. */
+export function toScreenX(px: number, camX: number): number {
+  let sx = px - camX;
+  while (sx < -WORLD_WIDTH / 2) sx += WORLD_WIDTH;
+  while (sx > WORLD_WIDTH / 2) sx -= WORLD_WIDTH;
+  return sx;
+}
+
+/** One-pixel line, stepped like the live tether. */
+function drawPixelLine(ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): void {
+  const dx = Math.abs(x1 - x0);
+  const dy = Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx - dy;
+  while (true) {
+    ctx.fillRect(x0, y0, 1, 1);
+    if (x0 === x1 && y0 === y1) break;
+    const e2 = 2 * err;
+    if (e2 > -dy) { err -= dy; x0 += sx; }
+    if (e2 < dx) { err += dx; y0 += sy; }
+  }
+}
+
+/**
+ * Draws the ghost as it was `tick` ticks into its run, `alpha` of the way
+ * on from the tick before (as the live ship is drawn between ticks).
+ * Nothing is drawn before the track starts, after it ends, or while the
+ * recorded ship was teleporting or destroyed.
+ */
+export function renderGhost(
+  ctx: CanvasRenderingContext2D,
+  track: GhostTrack,
+  tick: number,
+  alpha: number,
+  camX: number,
+  camY: number,
+  sprites: GhostSprites,
+  colours: { line: string; object: string; terrain: string },
+): void {
+  if (tick < 0 || tick >= ghostLength(track)) return;
+  const at = tick * FRAME_SIZE;
+  const before = tick > 0 ? at - FRAME_SIZE : at;
+  const f = track.frames;
+  const sprite = f[at + 2];
+  if (sprite === HIDDEN) return;
+
+  const shipX = toScreenX(blend(f[before], f[at], alpha), camX);
+  const shipY = blend(f[before + 1], f[at + 1], alpha) - camY;
+  const pod = f[at + 3]
+    ? { x: toScreenX(blend(f[before + 4], f[at + 4], alpha), camX), y: blend(f[before + 5], f[at + 5], alpha) - camY }
+    : null;
+
+  ctx.save();
+  ctx.globalAlpha = GHOST_ALPHA;
+  drawShipAndPod(ctx, shipX, shipY, sprite, pod, sprites, colours);
+  ctx.restore();
+}
+
+/**
+ * A ship sprite centred on a screen position, with its pod and tether
+ * if `pod` is given, in the context's current alpha. Also draws the
+ * other ship in split screen.
+ */
+export function drawShipAndPod(
+  ctx: CanvasRenderingContext2D,
+  shipX: number,
+  shipY: number,
+  sprite: number,
+  pod: { x: number; y: number } | null,
+  sprites: GhostSprites,
+  colours: { line: string; object: string; terrain: string },
+): void {
+  shipX = Math.round(shipX);
+  shipY = Math.round(shipY);
+  if (pod) {
+    const podX = Math.round(pod.x);
+    const podY = Math.round(pod.y);
+    ctx.fillStyle = colours.line;
+    drawPixelLine(ctx, shipX, shipY, podX, podY);
+    const podSprite = sprites.pod;
+    drawRemappedSprite(ctx, podSprite, podX - Math.floor(podSprite.width / 2), podY - Math.floor(podSprite.height / 2), colours.object, colours.terrain);
+  }
+  const center = sprites.centers[sprite];
+  ctx.drawImage(sprites.ship[sprite], Math.round(shipX - center.x), Math.round(shipY - center.y));
+}
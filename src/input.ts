@@ -2,8 +2,8 @@
  * Input abstraction layer for Thrust.
  *
  * All game input flows through this module. In normal play the inputs
- * come from the real keyboard; in demo mode a scripted bitmask is
- * substituted transparently.
+ * come from the real keyboard; in demo mode and replays a scripted or
+ * recorded bitmask is substituted transparently.
  *
  * Based on the original BBC Micro input system (test_inkey).
  */
@@ -70,6 +70,15 @@ export function saveKeyBindings(): void {
 
 export const keyBindings: KeyBindings = loadKeyBindings();
 
+/** The second ship in split screen (player 1 keeps keyBindings) */
+export const PLAYER_2_BINDINGS: KeyBindings = {
+  thrust:      "ArrowUp",
+  rotateLeft:  "ArrowLeft",
+  rotateRight: "ArrowRight",
+  fire:        "ShiftRight",
+  shield:      "ArrowDown",
+};
+
 /** Convert a KeyboardEvent.code to a short display name for the UI. */
 export function keyDisplayName(code: string): string {
   if (code.startsWith("Key")) return code.slice(3);
@@ -99,20 +108,20 @@ export const remapActions: { key: keyof KeyBindings; label: string }[] = [
  * Build a GameInput from real keyboard state.
  * Death-gating is NOT applied here — that is the caller's responsibility.
  */
-export function gameInputFromKeys(keys: Set<string>): GameInput {
+export function gameInputFromKeys(keys: Set<string>, bindings: KeyBindings = keyBindings): GameInput {
   return {
-    rotateLeft:    keys.has(keyBindings.rotateLeft),
-    rotateRight:   keys.has(keyBindings.rotateRight),
-    fire:          keys.has(keyBindings.fire),
-    thrust:        keys.has(keyBindings.thrust),
-    shieldTractor: keys.has(keyBindings.shield),
+    rotateLeft:    keys.has(bindings.rotateLeft),
+    rotateRight:   keys.has(bindings.rotateRight),
+    fire:          keys.has(bindings.fire),
+    thrust:        keys.has(bindings.thrust),
+    shieldTractor: keys.has(bindings.shield),
   };
 }
 
 /**
- * Build a GameInput from a demo-mode bitmask.
+ * Build a GameInput from an INPUT_* bitmask (demo tables, replays).
  */
-export function gameInputFromDemoBitmask(bitmask: number): GameInput {
+export function gameInputFromBitmask(bitmask: number): GameInput {
   return {
     rotateLeft:    (bitmask & INPUT_ROTATE_LEFT) !== 0,
     rotateRight:   (bitmask & INPUT_ROTATE_RIGHT) !== 0,
@@ -121,3 +130,15 @@ export function gameInputFromDemoBitmask(bitmask: number): GameInput {
     shieldTractor: (bitmask & INPUT_SHIELD_TRACTOR) !== 0,
   };
 }
+
+/**
+ * Pack a GameInput into an INPUT_* bitmask — the inverse of
+ * gameInputFromBitmask(). Used by the replay recorder.
+ */
+export function gameInputToBitmask(input: GameInput): number {
+  return (input.rotateLeft    ? INPUT_ROTATE_LEFT    : 0)
+       | (input.rotateRight   ? INPUT_ROTATE_RIGHT   : 0)
+       | (input.fire          ? INPUT_FIRE           : 0)
+       | (input.thrust        ? INPUT_THRUST         : 0)
+       | (input.shieldTractor ? INPUT_SHIELD_TRACTOR : 0);
+}
@@ -0,0 +1,247 @@
+/**
+ * Level files: a versioned JSON form of a Level, so levels can be
+ * authored and shared without recompiling the game.
+ *
+ * The file mirrors the Level type field for field. Colours are written
+ * as BBC Micro colour names rather than CSS values, and every number is
+ * in world units exactly as in levels.ts.
+ *
+ * File format (JSON, versioned):
+ *   {
+ *     format: "thrust-level", version: 1,
+ *     level: {
+ *       name, terrainColor: "red", objectColor: "green",
+ *       gravity:     0-255 — fractional byte of gravity per tick,
+ *       spawnPoints: [{ midpointX, midpointY, windowX, windowY }, ...],
+ *       polygons:    [[x0, y0, x1, y1, ...], ...],
+ *       turrets:     [{ x, y, direction: "up_left", gunParam: 0-255 }, ...],
+ *       powerPlant:  { x, y },
+ *       podPedestal: { x, y },
+ *       fuel:        [{ x, y }, ...],
+ *       switches:    [{ x, y, direction: "left" | "right" }, ...],
+ *       doorConfig:  null | { type: "slide" | "step" | "chevron",
+ *                             worldY, threshold, scanlines, closedX, openX, innerX }
+ *     }
+ *   }
+ *
+ * parseLevelFile() checks the shape of every field and throws an Error
+ * naming the first bad one by its path, e.g. `turrets[2].gunParam`.
+ */
+
+import {
+  Level, Polygon, ObjectPosition, TurretPosition, TurretDirection, SwitchPosition, SwitchDirection,
+  DoorConfig, DoorType, SpawnPoint,
+} from "./levels";
+import { bbcMicroColours } from "./rendering";
+
+export const LEVEL_FILE_FORMAT = "thrust-level";
+export const LEVEL_FILE_VERSION = 1;
+
+const LEVEL_MIME_TYPE = "application/json";
+
+/** Polygon x coordinates span one world width; 256 closes a wall at the right edge */
+const MAX_WORLD_X = 256;
+
+type ColourName = keyof typeof bbcMicroColours;
+
+const COLOUR_NAMES = Object.keys(bbcMicroColours) as ColourName[];
+const TURRET_DIRECTIONS: readonly TurretDirection[] = ["up_left", "up_right", "down_left", "down_right"];
+const SWITCH_DIRECTIONS: readonly SwitchDirection[] = ["left", "right"];
+const DOOR_TYPES: readonly DoorType[] = ["slide", "step", "chevron"];
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+function colourName(colour: string): ColourName {
+  const name = COLOUR_NAMES.find(n => bbcMicroColours[n] === colour);
+  if (!name) throw new Error(`Level colour ${colour} is not a BBC Micro colour`);
+  return name;
+}
+
+export function serializeLevel(level: Level): string {
+  return JSON.stringify({
+    format: LEVEL_FILE_FORMAT,
+    version: LEVEL_FILE_VERSION,
+    level: {
+      ...level,
+      terrainColor: colourName(level.terrainColor),
+      objectColor: colourName(level.objectColor),
+    },
+  }, null, 2);
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Level field "${path}" ${problem}`);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "must be an object");
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, "must be an array");
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, min = -Infinity, max = Infinity): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "must be a number");
+  if (value < min || value > max) fail(path, `must be from ${min} to ${max} (got ${value})`);
+  return value;
+}
+
+function expectByte(value: unknown, path: string): number {
+  const n = expectNumber(value, path);
+  if (!Number.isInteger(n) || n < 0 || n > 0xFF) fail(path, `must be an integer from 0 to 255 (got ${n})`);
+  return n;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") fail(path, "must be a string");
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) fail(path, `must be one of ${allowed.map(a => `"${a}"`).join(", ")}`);
+  return value as T;
+}
+
+function readPosition(value: unknown, path: string): ObjectPosition {
+  const obj = expectObject(value, path);
+  return {
+    x: expectNumber(obj.x, `${path}.x`, 0, MAX_WORLD_X),
+    y: expectNumber(obj.y, `${path}.y`, 0),
+  };
+}
+
+function readPolygon(value: unknown, path: string): Polygon {
+  const coords = expectArray(value, path);
+  if (coords.length % 2 !== 0) fail(path, `must hold x,y pairs (has ${coords.length} numbers)`);
+  if (coords.length < 6) fail(path, "must have at least 3 vertices");
+  return coords.map((c, i) => i % 2 === 0
+    ? expectNumber(c, `${path}[${i}]`, 0, MAX_WORLD_X)
+    : expectNumber(c, `${path}[${i}]`, 0));
+}
+
+function readSpawnPoint(value: unknown, path: string): SpawnPoint {
+  const obj = expectObject(value, path);
+  return {
+    midpointX: expectNumber(obj.midpointX, `${path}.midpointX`, 0, MAX_WORLD_X),
+    midpointY: expectNumber(obj.midpointY, `${path}.midpointY`, 0),
+    windowX: expectNumber(obj.windowX, `${path}.windowX`),
+    windowY: expectNumber(obj.windowY, `${path}.windowY`),
+  };
+}
+
+function readTurret(value: unknown, path: string): TurretPosition {
+  const obj = expectObject(value, path);
+  return {
+    ...readPosition(obj, path),
+    direction: expectOneOf(obj.direction, `${path}.direction`, TURRET_DIRECTIONS),
+    gunParam: expectByte(obj.gunParam, `${path}.gunParam`),
+  };
+}
+
+function readSwitch(value: unknown, path: string): SwitchPosition {
+  const obj = expectObject(value, path);
+  return {
+    ...readPosition(obj, path),
+    direction: expectOneOf(obj.direction, `${path}.direction`, SWITCH_DIRECTIONS),
+  };
+}
+
+function readDoorConfig(value: unknown, path: string): DoorConfig | null {
+  if (value === null) return null;
+  const obj = expectObject(value, path);
+  return {
+    type: expectOneOf(obj.type, `${path}.type`, DOOR_TYPES),
+    worldY: expectNumber(obj.worldY, `${path}.worldY`, 0),
+    threshold: expectNumber(obj.threshold, `${path}.threshold`, 0),
+    scanlines: expectNumber(obj.scanlines, `${path}.scanlines`, 1),
+    closedX: expectNumber(obj.closedX, `${path}.closedX`, 0, MAX_WORLD_X),
+    openX: expectNumber(obj.openX, `${path}.openX`, 0, MAX_WORLD_X),
+    innerX: expectNumber(obj.innerX, `${path}.innerX`, 0, MAX_WORLD_X),
+  };
+}
+
+function readList<T>(value: unknown, path: string, read: (item: unknown, path: string) => T): T[] {
+  return expectArray(value, path).map((item, i) => read(item, `${path}[${i}]`));
+}
+
+/** Check and convert the `level` object of a level file. */
+export function readLevel(value: unknown): Level {
+  const obj = expectObject(value, "level");
+  const spawnPoints = readList(obj.spawnPoints, "spawnPoints", readSpawnPoint);
+  if (spawnPoints.length === 0) fail("spawnPoints", "must have at least one entry (the level start)");
+  return {
+    name: expectString(obj.name, "name"),
+    terrainColor: bbcMicroColours[expectOneOf(obj.terrainColor, "terrainColor", COLOUR_NAMES)],
+    objectColor: bbcMicroColours[expectOneOf(obj.objectColor, "objectColor", COLOUR_NAMES)],
+    gravity: expectByte(obj.gravity, "gravity"),
+    spawnPoints,
+    polygons: readList(obj.polygons, "polygons", readPolygon),
+    turrets: readList(obj.turrets, "turrets", readTurret),
+    powerPlant: readPosition(obj.powerPlant, "powerPlant"),
+    podPedestal: readPosition(obj.podPedestal, "podPedestal"),
+    fuel: readList(obj.fuel, "fuel", readPosition),
+    switches: readList(obj.switches, "switches", readSwitch),
+    doorConfig: readDoorConfig(obj.doorConfig, "doorConfig"),
+  };
+}
+
+/** Parse and validate a level file. Throws an Error describing the first problem found. */
+export function parseLevelFile(text: string): Level {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Level file is not valid JSON");
+  }
+  if (typeof raw !== "object" || raw === null) throw new Error("Level file is not an object");
+  const obj = raw as Record<string, unknown>;
+
+  if (obj.format !== LEVEL_FILE_FORMAT) throw new Error("Not a Thrust level file");
+  if (obj.version !== LEVEL_FILE_VERSION) {
+    throw new Error(`Unsupported level file version ${obj.version} (expected ${LEVEL_FILE_VERSION})`);
+  }
+  return readLevel(obj.level);
+}
+
+// ---------------------------------------------------------------------------
+// Browser file helpers
+// ---------------------------------------------------------------------------
+
+/** Offer the level to the user as a downloadable file. */
+export function downloadLevel(level: Level): void {
+  const blob = new Blob([serializeLevel(level)], { type: LEVEL_MIME_TYPE });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${level.name.replace(/[^A-Za-z0-9]+/g, "-").toLowerCase() || "level"}.thrust-level.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Prompt the user to pick a level file. Must be called from a user
+ * gesture (key or click handler). Resolves to null if nothing was chosen.
+ */
+export function pickLevelFile(): Promise<Level | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) { resolve(null); return; }
+      file.text().then(parseLevelFile).then(resolve, reject);
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
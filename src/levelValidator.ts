@@ -0,0 +1,348 @@
+/**
+ * Level validator: finds the mistakes that make a level unplayable or
+ * make the game misbehave, without having to fly it.
+ *
+ * Structural checks look at the numbers alone — polygon coordinate
+ * lists, door geometry, switches with nothing to open and the spawn
+ * point order selectSpawnPoint() relies on. Playability checks work on
+ * the rasterised terrain: the ship's collision masks are tried at every
+ * world position to find where it fits, and a flood fill from the level
+ * start finds where it can get to, with the door treated as open.
+ *
+ * validateLevel() returns every issue found rather than stopping at the
+ * first, so the CLI (tools/levels/validate-levels.ts) and the editor can
+ * both list them. Errors make the level unplayable or break the game's
+ * assumptions; warnings are probably mistakes but the level still works.
+ */
+
+import { Level, Polygon, DoorConfig } from "./levels";
+import { getTerrainBitmap, terrainAt, loadShipCollisionMasks, TerrainBitmap } from "./collision";
+import { OBJECT_SPRITE_SIZES } from "./collisionSprites";
+import { TRACTOR_BEAM_START_DISTANCE, tractorDistance } from "./game";
+import { FUEL_PICKUP_RANGE_X, FUEL_PICKUP_RANGE_Y } from "./fuelCollection";
+import { WORLD_SCALE_X, WORLD_SCALE_Y, WORLD_WIDTH } from "./rendering";
+import type { SpriteMask, SpriteCenter } from "./shipSprites";
+
+export type LevelIssueSeverity = "error" | "warning";
+
+export interface LevelIssue {
+  severity: LevelIssueSeverity;
+  /** Short id of the check that failed, e.g. "spawn-in-terrain" */
+  check: string;
+  message: string;
+  /** Where the problem is (world units), if it has a place */
+  at?: { x: number; y: number };
+}
+
+/** World units across the level; x wraps at this */
+const WORLD_UNITS_X = WORLD_WIDTH / WORLD_SCALE_X;
+
+/** Open space searched above the highest terrain and below the lowest (world units) */
+const SEARCH_MARGIN_Y = 32;
+
+/**
+ * Fraction of an object's collision rectangle that may be terrain.
+ * Objects stand on the ground and turrets sit in wall notches, so some
+ * overlap is normal: the original levels' turrets reach just under a
+ * third. More than that is an object placed inside a polygon.
+ */
+const MAX_OBJECT_TERRAIN_FRACTION = 1 / 3;
+
+/** The chevron door polygon is drawn with a fixed 7 + 8 scanlines */
+const CHEVRON_SCANLINES = 15;
+
+const ship = loadShipCollisionMasks();
+
+// ---------------------------------------------------------------------------
+// Structural checks
+// ---------------------------------------------------------------------------
+
+function cross(ax: number, ay: number, bx: number, by: number, cx: number, cy: number): number {
+  return (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+}
+
+/** Whether segments p1-p2 and p3-p4 cross at a point inside both. */
+function segmentsCross(
+  x1: number, y1: number, x2: number, y2: number,
+  x3: number, y3: number, x4: number, y4: number,
+): boolean {
+  const d1 = cross(x3, y3, x4, y4, x1, y1);
+  const d2 = cross(x3, y3, x4, y4, x2, y2);
+  const d3 = cross(x1, y1, x2, y2, x3, y3);
+  const d4 = cross(x1, y1, x2, y2, x4, y4);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/** The first pair of non-adjacent edges that cross, as the crossing edge's start vertex. */
+function findSelfIntersection(poly: Polygon): { x: number; y: number } | null {
+  const n = poly.length / 2;
+  for (let i = 0; i < n; i++) {
+    const a = (i + 1) % n;
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;  // closing edge shares vertex 0
+      const b = (j + 1) % n;
+      if (segmentsCross(
+        poly[i * 2], poly[i * 2 + 1], poly[a * 2], poly[a * 2 + 1],
+        poly[j * 2], poly[j * 2 + 1], poly[b * 2], poly[b * 2 + 1],
+      )) {
+        return { x: poly[j * 2], y: poly[j * 2 + 1] };
+      }
+    }
+  }
+  return null;
+}
+
+function checkPolygons(level: Level, issues: LevelIssue[]): void {
+  level.polygons.forEach((poly, i) => {
+    const at = poly.length >= 2 ? { x: poly[0], y: poly[1] } : undefined;
+    if (poly.length % 2 !== 0) {
+      issues.push({ severity: "error", check: "polygon-coordinates", at,
+        message: `Polygon ${i} has an odd number of coordinates (${poly.length})` });
+      return;
+    }
+    if (poly.length < 6) {
+      issues.push({ severity: "error", check: "polygon-coordinates", at,
+        message: `Polygon ${i} has fewer than 3 vertices` });
+      return;
+    }
+    const crossing = findSelfIntersection(poly);
+    if (crossing) {
+      issues.push({ severity: "warning", check: "polygon-self-intersection", at: crossing,
+        message: `Polygon ${i} crosses itself, so part of it fills as a hole` });
+    }
+  });
+}
+
+function checkSpawnOrder(level: Level, issues: LevelIssue[]): void {
+  for (let i = 1; i < level.spawnPoints.length; i++) {
+    const prev = level.spawnPoints[i - 1];
+    const spawn = level.spawnPoints[i];
+    if (spawn.midpointY < prev.midpointY) {
+      issues.push({ severity: "error", check: "spawn-order", at: { x: spawn.midpointX, y: spawn.midpointY },
+        message: `Spawn point ${i} is above spawn point ${i - 1}; respawns pick by depth and need them sorted by midpointY` });
+    }
+  }
+}
+
+function checkSwitches(level: Level, issues: LevelIssue[]): void {
+  if (level.switches.length > 0 && !level.doorConfig) {
+    const sw = level.switches[0];
+    issues.push({ severity: "warning", check: "switch-without-door", at: { x: sw.x, y: sw.y },
+      message: `Level has ${level.switches.length} switch(es) but no door for them to open` });
+  }
+  if (level.doorConfig && level.switches.length === 0) {
+    const door = level.doorConfig;
+    issues.push({ severity: "warning", check: "door-without-switch", at: { x: door.closedX, y: door.worldY },
+      message: "Level has a door but no switch to open it" });
+  }
+}
+
+function checkDoor(door: DoorConfig, issues: LevelIssue[]): void {
+  const at = { x: door.closedX, y: door.worldY };
+  const problem = (message: string) => issues.push({ severity: "error", check: "door-geometry", at, message });
+
+  if (door.openX >= door.closedX) problem(`Door openX (${door.openX}) must be left of closedX (${door.closedX})`);
+  if (door.innerX > door.openX) problem(`Door innerX (${door.innerX}) must not be right of openX (${door.openX})`);
+  if (door.threshold <= 0) problem("Door threshold must be at least 1 or the door never moves");
+
+  switch (door.type) {
+    case "slide":
+    case "chevron":
+      // The door's left edge slides one world unit per step of counterB
+      if (door.closedX - door.threshold !== door.openX) {
+        problem(`Door fully open at closedX - threshold (${door.closedX - door.threshold}) but openX is ${door.openX}`);
+      }
+      if (door.type === "chevron" && door.scanlines !== CHEVRON_SCANLINES) {
+        problem(`Chevron door shape is ${CHEVRON_SCANLINES} scanlines tall but scanlines is ${door.scanlines}`);
+      }
+      break;
+    case "step":
+      // Each step of counterB opens one more scanline
+      if (door.threshold > door.scanlines) {
+        problem(`Step door threshold (${door.threshold}) is more than its scanlines (${door.scanlines})`);
+      }
+      break;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Terrain checks
+// ---------------------------------------------------------------------------
+
+/** Whether the ship, drawn with `mask`, hits terrain with its midpoint at world (x, y). */
+function maskHitsTerrain(
+  bitmap: TerrainBitmap, mask: SpriteMask, center: SpriteCenter, x: number, y: number,
+): boolean {
+  const sx = Math.round(x * WORLD_SCALE_X - center.x);
+  const sy = Math.round(y * WORLD_SCALE_Y - center.y);
+  for (const { dx, dy } of mask) {
+    if (terrainAt(bitmap, sx + dx, sy + dy)) return true;
+  }
+  return false;
+}
+
+/** Whether the ship fits at world (x, y) at some rotation. */
+function shipFits(bitmap: TerrainBitmap, x: number, y: number): boolean {
+  for (let i = 0; i < ship.masks.length; i++) {
+    if (!maskHitsTerrain(bitmap, ship.masks[i], ship.centers[i], x, y)) return true;
+  }
+  return false;
+}
+
+/** Fraction of a world-pixel rectangle's terrain-parity rows that is terrain. */
+function terrainFraction(bitmap: TerrainBitmap, px: number, py: number, w: number, h: number): number {
+  let filled = 0;
+  let total = 0;
+  for (let y = py; y < py + h; y++) {
+    if ((y & 1) !== 0) continue;  // terrain only fills even rows
+    for (let x = px; x < px + w; x++) {
+      total++;
+      if (terrainAt(bitmap, x, y)) filled++;
+    }
+  }
+  return total === 0 ? 0 : filled / total;
+}
+
+function checkSpawnPoints(level: Level, bitmap: TerrainBitmap, issues: LevelIssue[]): void {
+  // The ship always respawns upright
+  level.spawnPoints.forEach((spawn, i) => {
+    if (maskHitsTerrain(bitmap, ship.masks[0], ship.centers[0], spawn.midpointX, spawn.midpointY)) {
+      issues.push({ severity: "error", check: "spawn-in-terrain", at: { x: spawn.midpointX, y: spawn.midpointY },
+        message: `Spawn point ${i} puts the ship inside terrain` });
+    }
+  });
+}
+
+function checkObjectsClear(level: Level, bitmap: TerrainBitmap, issues: LevelIssue[]): void {
+  // Same rectangles (and y offsets) as the collision buffer uses
+  const objects: { name: string; x: number; y: number; yOffset: number; size: { width: number; height: number } }[] = [
+    { name: "Power plant", ...level.powerPlant, yOffset: -2, size: OBJECT_SPRITE_SIZES.powerPlant },
+    { name: "Pod pedestal", ...level.podPedestal, yOffset: -1, size: OBJECT_SPRITE_SIZES.podStand },
+    ...level.fuel.map((f, i) => ({ name: `Fuel ${i}`, ...f, yOffset: -2, size: OBJECT_SPRITE_SIZES.fuel })),
+    ...level.turrets.map((t, i) => ({ name: `Turret ${i}`, x: t.x, y: t.y, yOffset: -1, size: OBJECT_SPRITE_SIZES.turret })),
+    ...level.switches.map((s, i) => ({ name: `Switch ${i}`, x: s.x, y: s.y, yOffset: -1, size: OBJECT_SPRITE_SIZES.switch })),
+  ];
+  for (const obj of objects) {
+    const px = Math.round(obj.x * WORLD_SCALE_X);
+    const py = Math.round(obj.y * WORLD_SCALE_Y) + obj.yOffset;
+    if (terrainFraction(bitmap, px, py, obj.size.width, obj.size.height) > MAX_OBJECT_TERRAIN_FRACTION) {
+      issues.push({ severity: "warning", check: "object-in-terrain", at: { x: obj.x, y: obj.y },
+        message: `${obj.name} is buried in terrain` });
+    }
+  }
+}
+
+/**
+ * Flood fill every whole world position the ship can fly to from the
+ * level start. Cell `(y - minY) * WORLD_UNITS_X + x` is 1 if reached.
+ * Null if the start itself is blocked.
+ */
+function reachablePositions(level: Level, bitmap: TerrainBitmap): { cells: Uint8Array; minY: number; rows: number } | null {
+  const start = level.spawnPoints[0];
+  const minY = Math.min(Math.floor(bitmap.top / WORLD_SCALE_Y), Math.floor(start.midpointY)) - SEARCH_MARGIN_Y;
+  const maxY = Math.ceil((bitmap.top + bitmap.height) / WORLD_SCALE_Y) + SEARCH_MARGIN_Y;
+  const rows = maxY - minY + 1;
+  // 0 = unvisited, 1 = reached, 2 = blocked
+  const cells = new Uint8Array(rows * WORLD_UNITS_X);
+
+  const startX = ((Math.round(start.midpointX) % WORLD_UNITS_X) + WORLD_UNITS_X) % WORLD_UNITS_X;
+  const startY = Math.round(start.midpointY);
+  if (!shipFits(bitmap, startX, startY)) return null;
+
+  const queue: number[] = [(startY - minY) * WORLD_UNITS_X + startX];
+  cells[queue[0]] = 1;
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    const row = Math.floor(cell / WORLD_UNITS_X);
+    const x = cell % WORLD_UNITS_X;
+    const neighbours = [
+      row * WORLD_UNITS_X + (x + 1) % WORLD_UNITS_X,
+      row * WORLD_UNITS_X + (x + WORLD_UNITS_X - 1) % WORLD_UNITS_X,
+      row > 0 ? cell - WORLD_UNITS_X : -1,
+      row < rows - 1 ? cell + WORLD_UNITS_X : -1,
+    ];
+    for (const next of neighbours) {
+      if (next < 0 || cells[next] !== 0) continue;
+      const nx = next % WORLD_UNITS_X;
+      const ny = Math.floor(next / WORLD_UNITS_X) + minY;
+      if (shipFits(bitmap, nx, ny)) {
+        cells[next] = 1;
+        queue.push(next);
+      } else {
+        cells[next] = 2;
+      }
+    }
+  }
+  return { cells, minY, rows };
+}
+
+function checkReachability(level: Level, bitmap: TerrainBitmap, issues: LevelIssue[]): void {
+  const reach = reachablePositions(level, bitmap);
+  if (!reach) return;  // the start is already reported as inside terrain
+
+  const pedestal = level.podPedestal;
+  // Centre of the pod circle, as the tractor beam measures to it
+  const podPX = pedestal.x * WORLD_SCALE_X + 5;
+  const podPY = pedestal.y * WORLD_SCALE_Y + 4;
+  let podReachable = false;
+  const fuelReachable = level.fuel.map(() => false);
+
+  for (let row = 0; row < reach.rows; row++) {
+    const y = row + reach.minY;
+    for (let x = 0; x < WORLD_UNITS_X; x++) {
+      if (reach.cells[row * WORLD_UNITS_X + x] !== 1) continue;
+      // Wrap the horizontal distance round the world seam
+      let dpx = (x * WORLD_SCALE_X - podPX) % WORLD_WIDTH;
+      if (dpx > WORLD_WIDTH / 2) dpx -= WORLD_WIDTH;
+      if (dpx < -WORLD_WIDTH / 2) dpx += WORLD_WIDTH;
+      if (tractorDistance(podPX + dpx, y * WORLD_SCALE_Y, podPX, podPY) < TRACTOR_BEAM_START_DISTANCE) {
+        podReachable = true;
+      }
+      level.fuel.forEach((fuel, i) => {
+        if (Math.abs(fuel.x - x) < FUEL_PICKUP_RANGE_X && Math.abs(fuel.y - y) < FUEL_PICKUP_RANGE_Y) {
+          fuelReachable[i] = true;
+        }
+      });
+    }
+  }
+
+  if (!podReachable) {
+    issues.push({ severity: "error", check: "pod-unreachable", at: { x: pedestal.x, y: pedestal.y },
+      message: "The ship cannot get close enough to the pod to start the tractor beam" });
+  }
+  level.fuel.forEach((fuel, i) => {
+    if (!fuelReachable[i]) {
+      issues.push({ severity: "warning", check: "fuel-unreachable", at: { x: fuel.x, y: fuel.y },
+        message: `Fuel ${i} cannot be reached within tractor range` });
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Check a level for problems. Returns every issue found, errors first. */
+export function validateLevel(level: Level): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  checkPolygons(level, issues);
+  checkSpawnOrder(level, issues);
+  checkSwitches(level, issues);
+  if (level.doorConfig) checkDoor(level.doorConfig, issues);
+
+  // Bad polygons can't be rasterised meaningfully
+  if (!issues.some(issue => issue.check === "polygon-coordinates")) {
+    const bitmap = getTerrainBitmap(level);
+    checkSpawnPoints(level, bitmap, issues);
+    checkObjectsClear(level, bitmap, issues);
+    if (level.spawnPoints.length > 0) checkReachability(level, bitmap, issues);
+  }
+
+  return [...issues.filter(i => i.severity === "error"), ...issues.filter(i => i.severity === "warning")];
+}
+
+/** One line for a terminal or notice: "error spawn-in-terrain (12, 340): Spawn point 2 ..." */
+export function formatLevelIssue(issue: LevelIssue): string {
+  const at = issue.at ? ` (${issue.at.x}, ${issue.at.y})` : "";
+  return `${issue.severity} ${issue.check}${at}: ${issue.message}`;
+}
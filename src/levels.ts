@@ -28,6 +28,8 @@ export type Level = {
     name: string;
     terrainColor: string;
     objectColor: string;
+    /** Gravity as a fractional byte per tick (INT is always 0) — level_gravity_FRAC_table */
+    gravity: number;
     spawnPoints: SpawnPoint[];
     polygons: Polygon[];
     turrets: TurretPosition[];
@@ -43,6 +45,7 @@ export const levels: Level[] = [
         name: "Level 0",
         terrainColor: bbcMicroColours.red,
         objectColor: bbcMicroColours.green,
+        gravity: 0x05,
         spawnPoints: [
             { midpointX: 112, midpointY: 401, windowX: 86, windowY: 292 }, // initial spawn
         ],
@@ -73,6 +76,7 @@ export const levels: Level[] = [
         name: "Level 1",
         terrainColor: bbcMicroColours.green,
         objectColor: bbcMicroColours.red,
+        gravity: 0x07,
         spawnPoints: [
             { midpointX: 112, midpointY: 401, windowX: 86, windowY: 292 }, // initial spawn
         ],
@@ -106,6 +110,7 @@ export const levels: Level[] = [
         name: "Level 2",
         terrainColor: bbcMicroColours.cyan,
         objectColor: bbcMicroColours.green,
+        gravity: 0x09,
         spawnPoints: [
             { midpointX: 112, midpointY: 401, windowX: 86, windowY: 292 }, // initial spawn
             { midpointX: 138, midpointY: 557, windowX: 111, windowY: 426 }, // checkpoint 1
@@ -151,6 +156,7 @@ export const levels: Level[] = [
         name: "Level 3",
         terrainColor: bbcMicroColours.green,
         objectColor: bbcMicroColours.magenta,
+        gravity: 0x0B,
         spawnPoints: [
             { midpointX: 112, midpointY: 401, windowX: 86, windowY: 292 }, // initial spawn
             { midpointX: 127, midpointY: 486, windowX: 87, windowY: 352 }, // checkpoint 1
@@ -197,6 +203,7 @@ export const levels: Level[] = [
         name: "Level 4",
         terrainColor: bbcMicroColours.red,
         objectColor: bbcMicroColours.magenta,
+        gravity: 0x0C,
         spawnPoints: [
             { midpointX: 112, midpointY: 401, windowX: 86, windowY: 292 }, // initial spawn
             { midpointX: 127, midpointY: 616, windowX: 88, windowY: 494 }, // checkpoint 1
@@ -256,6 +263,7 @@ export const levels: Level[] = [
         name: "Level 5",
         terrainColor: bbcMicroColours.magenta,
         objectColor: bbcMicroColours.cyan,
+        gravity: 0x0D,
         spawnPoints: [
             { midpointX: 112, midpointY: 401, windowX: 86, windowY: 292 }, // initial spawn
             { midpointX: 166, midpointY: 587, windowX: 140, windowY: 472 }, // checkpoint 1
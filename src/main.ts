@@ -5,22 +5,36 @@ import powerPlantPng from "./sprites/powerPlant.png";
 import podStandPng from "./sprites/pod_stand.png";
 import podPng from "./sprites/pod.png";
 import shieldPng from "./sprites/shield.png";
-import {levels} from "./levels";
-import {createGame, tick, retryLevel, triggerMessage, advanceToNextLevel, missionComplete, addScore, startTeleport, MESSAGE_DURATION, destroyPlayerShip, destroyAttachedPod, getPlanetExplodeBgColor} from "./game";
-import {createCollisionBuffer, renderCollisionBuffer, testCollision, testLineCollision, testRectCollision, CollisionResult} from "./collision";
-import {renderBullets, removeBulletsHittingShip, removeCollidingBullets, renderPlayerBullets, processPlayerBulletCollisions} from "./bullets";
-import {renderExplosions, spawnExplosion, orColours} from "./explosions";
+import {levels, Level} from "./levels";
+import {createGame, tick, getPlanetExplodeBgColor, playerScores, podOffPedestal, TELEPORT_STEPS} from "./game";
+import {renderBullets, renderPlayerBullets} from "./bullets";
+import {renderExplosions} from "./explosions";
 import {renderFuelBeams} from "./fuelCollection";
-import {getDoorPolygon, triggerDoor} from "./doors";
-import {handleGeneratorHit} from "./generator";
+import {getDoorPolygon} from "./doors";
 import {renderStars} from "./stars";
 import {bbcMicroColours} from "./rendering";
-import {createTitleScreen, resetTitleScreen, updateTitleScreen, renderTitleScreen, startKeyRemap, handleRemapKey} from "./titleScreen";
+import {createTitleScreen, resetTitleScreen, updateTitleScreen, renderTitleScreen, startKeyRemap, handleRemapKey, showTitleNotice} from "./titleScreen";
 import {PostProcessor} from "./postProcessing";
 import {ThrustSounds} from "./sound";
 import {loadScores, saveScores, getHighScoreRank, insertScore, renderScoreboard, ScoreEntry} from "./scoreboard";
-import {gameInputFromKeys, GameInput} from "./input";
+import {gameInputFromKeys, GameInput, PLAYER_2_BINDINGS} from "./input";
 import {createDemoState, setupDemoTimers, resetDemoState, demoModeTick, getDemoInput} from "./demo";
+import {Recording, ReplayPlayer, newGameStart, beginRecording, recordTick, dropRecordedTicks, createReplayPlayer, nextReplayTick, downloadRecording, pickRecordingFile} from "./replay";
+import {randomSeed} from "./rng";
+import {pickLevelFile, downloadLevel} from "./levelFile";
+import {generateCave, caveParams, DEFAULT_CAVE_DIFFICULTY} from "./caveGenerator";
+import {createEditor, tickEditorNotice, handleEditorKey, editorMouseDown, editorMouseMove, editorMouseUp, panEditor, cancelDraft, playtestLevel, replaceEditorLevel, showEditorLoadError, renderEditorOverlay} from "./editor";
+import {createDoorState} from "./doors";
+import {GameEvent} from "./events";
+import {FlowStateName, createFlow, updateFlow, renderFlow, gamePhaseState} from "./flow";
+import {createRewindBuffer, recordRewindTick, rewindTick} from "./rewind";
+import {createSaveSlotState, quickSave, quickLoad, selectNextSlot, tickSaveSlotNotice, renderSaveSlots} from "./saveSlots";
+import {createDebugOverlay, renderDebugOverlay} from "./debugOverlay";
+import {createTimeControl, resetTimeControl, changeTimeScale, toggleFrozen, requestStep, controlledDt, timeScale, timeControlLabel} from "./timeControl";
+import {createTickScheduler, clampFrameTime, addFrameTime, takeTick, interpolationAlpha, createRenderInterpolation, beforeTick, renderPose} from "./scheduler";
+import {TimeAttackState, createTimeAttack, updateTimeAttack, renderTimeAttack, renderTimeAttackGhost} from "./timeAttack";
+import {createPracticeMenu, handlePracticeMenuKey, createPracticeGame, renderPracticeMenu} from "./practiceMenu";
+import {SplitScreenState, createSplitScreen, tickSplitScreen, renderOtherShip, splitViewLeft, renderSplitScreenHud} from "./splitScreen";
 
 const canvas = document.getElementById("game") as HTMLCanvasElement;
 const ctx = canvas.getContext("2d")!;
@@ -29,10 +43,6 @@ const ppCanvas = document.getElementById("postprocess") as HTMLCanvasElement;
 const INTERNAL_W = 320;
 const INTERNAL_H = 256;
 
-// Score values (matching spec)
-const SCORE_GUN_DESTROYED = 750;
-const SCORE_FUEL_SHOT = 150;
-
 canvas.width = INTERNAL_W;
 canvas.height = INTERNAL_H;
 ctx.imageSmoothingEnabled = false;
@@ -54,11 +64,58 @@ window.addEventListener("resize", resize);
 resize();
 
 let game = createGame(levels[0]);
-const collisionBuf = createCollisionBuffer(INTERNAL_W, INTERNAL_H);
 
 const keys = new Set<string>();
 const charQueue: string[] = [];
-let highScoreEntry: { active: boolean; rank: number; score: number; name: string; scores: ScoreEntry[] } | null = null;
+let highScoreEntry: { rank: number; score: number; name: string; scores: ScoreEntry[] } | null = null;
+// Scores from the finished game still to be offered to the table (one per player)
+let scoresToEnter: number[] = [];
+
+// Replay state: the session being recorded, the most recent complete
+// recording (or one loaded from file), and the active playback if any.
+let recording: Recording | null = null;
+let lastRecording: Recording | null = null;
+let replay: ReplayPlayer | null = null;
+let pendingReplay: Recording | null = null;
+
+// A level loaded from file on the title screen, waiting to be played
+let pendingLevel: Level | null = null;
+
+// Level editor (E on the title screen), and whether the running game is a playtest from it
+const editor = createEditor(structuredClone(levels[0]), INTERNAL_W, INTERNAL_H);
+let playtest = false;
+
+// Quick-save slots (F5 save, F9 load, F7 next slot)
+const saveSlots = createSaveSlotState();
+
+// Rewind history (hold Backspace to rewind)
+const rewind = createRewindBuffer();
+
+// Developer overlay of invisible thresholds (toggle with F3)
+const debugOverlay = createDebugOverlay(INTERNAL_W, INTERNAL_H);
+
+// Slow motion / turbo (- and =), freeze (`) and single-tick step (.)
+const timeControl = createTimeControl();
+
+// Frame time → fixed game ticks, and the pose to draw between ticks
+// (split screen swaps in each ship's own while drawing its view)
+const scheduler = createTickScheduler();
+let interpolation = createRenderInterpolation();
+
+// Time attack (T on the title screen): splits and bests for the running game
+let timeAttack: TimeAttackState | null = null;
+
+// Practice menu (P on the title screen), and whether the running game was started from it
+const practiceMenu = createPracticeMenu();
+let practice = false;
+
+// Split screen (V or C on the title screen): both ships and their shared level
+let split: SplitScreenState | null = null;
+
+/** The message of a failed load, for showing on screen. */
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
 
 window.addEventListener("keydown", (e) => {
   keys.add(e.code);
@@ -69,25 +126,58 @@ window.addEventListener("keydown", (e) => {
       document.documentElement.requestFullscreen();
     }
   }
-  if (highScoreEntry?.active) {
+  if (highScoreEntry) {
     charQueue.push(e.key);
   }
+  // Loading a replay opens a file picker, which must happen inside the key event
+  if (e.code === "KeyL" && title.active && !title.remap) {
+    pickRecordingFile()
+      .then(rec => { if (rec) pendingReplay = rec; })
+      .catch(err => showTitleNotice(title, `CANNOT LOAD REPLAY: ${errorMessage(err)}`));
+  }
+  if (e.code === "KeyL" && editor.active) {
+    pickLevelFile()
+      .then(level => { if (level) replaceEditorLevel(editor, level, INTERNAL_W, INTERNAL_H); })
+      .catch(err => showEditorLoadError(editor, errorMessage(err)));
+  }
+  if (e.code === "KeyO" && title.active && !title.remap) {
+    pickLevelFile()
+      .then(level => { if (level) pendingLevel = level; })
+      .catch(err => showTitleNotice(title, `CANNOT LOAD LEVEL: ${errorMessage(err)}`));
+  }
   e.preventDefault();
 });
 window.addEventListener("keyup", (e) => { keys.delete(e.code); });
 
+/** Mouse position in internal canvas pixels. */
+function canvasPoint(e: MouseEvent): { x: number; y: number } {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: Math.floor((e.clientX - rect.left) * INTERNAL_W / rect.width),
+    y: Math.floor((e.clientY - rect.top) * INTERNAL_H / rect.height),
+  };
+}
+
+window.addEventListener("mousedown", (e) => {
+  if (editor.active && e.button === 0) editorMouseDown(editor, canvasPoint(e), e.shiftKey);
+});
+window.addEventListener("mousemove", (e) => {
+  if (editor.active) editorMouseMove(editor, canvasPoint(e));
+});
+window.addEventListener("mouseup", () => {
+  if (editor.active) editorMouseUp(editor);
+});
+
 const title = createTitleScreen();
 const demo = createDemoState();
 
 let lastTime = -1;
 let fps = 0;
 let showFps = false;
-let paused = false;
 
 const postProcessor = new PostProcessor(canvas, ppCanvas, INTERNAL_W, INTERNAL_H);
 
 // Teleport animation constants
-const TELEPORT_FRAME_DURATION = 1 / 25;  // 40ms per step (half speed)
 const TELEPORT_VISIBILITY_THRESHOLD = 3;
 const TELEPORT_STRIP_HEIGHT = 8;
 const TELEPORT_STRIP_SPACING = 8;
@@ -128,7 +218,7 @@ async function startGame() {
   // Init WebGPU post-processing (non-blocking — gracefully degrades if unavailable)
   const ppReady = await postProcessor.init().catch(() => false);
 
-  const [{ sprites: shipSprites, masks: shipMasks, centers: shipCenters }, fuelSprite, turretSprites, powerPlantSprite, podStandSprite, shieldSprite, podSprite, switchSprites] = await Promise.all([
+  const [{ sprites: shipSprites, centers: shipCenters }, fuelSprite, turretSprites, powerPlantSprite, podStandSprite, shieldSprite, podSprite, switchSprites] = await Promise.all([
     loadShipSprites(),
     loadSprite(fuelPng),
     loadTurretSprites(),
@@ -140,11 +230,14 @@ async function startGame() {
   ]);
 
   const sounds = ThrustSounds.create();
+  const ghostSprites = { ship: shipSprites, centers: shipCenters, pod: podSprite };
 
-  function renderScene(hideShip?: boolean, landscapeRevealed?: boolean) {
-    const camX = Math.round(game.scroll.windowPos.x * WORLD_SCALE_X);
-    const camY = Math.round(game.scroll.windowPos.y * WORLD_SCALE_Y);
-    const podDetached = game.physics.state.podAttached;
+  function renderScene(hideShip?: boolean, landscapeRevealed?: boolean, showStars: boolean = true) {
+    // Ship, pod and camera are drawn between the last two ticks
+    const pose = renderPose(interpolation, game, interpolationAlpha(scheduler));
+    const camX = Math.round(pose.windowX * WORLD_SCALE_X);
+    const camY = Math.round(pose.windowY * WORLD_SCALE_Y);
+    const podDetached = podOffPedestal(game);
 
     // Hide ship when destroyed in death sequence
     const shouldHideShip = hideShip || game.deathSequence?.shipDestroyed;
@@ -167,32 +260,35 @@ async function startGame() {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
     }
 
-    if (!title.active && !highScoreEntry?.active) {
+    if (showStars) {
       renderStars(ctx, game.starField, camX, camY);
     }
 
     const doorPoly = getDoorPolygon(game.doorState, game.level.doorConfig, camX, camY);
-    renderLevel(ctx, effectiveLevel, game.player.x, game.player.y, game.player.rotation, shipSprites, shipCenters, camX, camY, fuelSprite, turretSprites, powerPlantSprite, podStandSprite, game.shieldActive ? shieldSprite : undefined, game.destroyedTurrets, game.destroyedFuel, game.generator.destroyed, game.generator.visible, podDetached, shouldHideShip, doorPoly, switchSprites);
+    renderLevel(ctx, effectiveLevel, pose.shipX, pose.shipY, game.player.rotation, shipSprites, shipCenters, camX, camY, fuelSprite, turretSprites, powerPlantSprite, podStandSprite, game.shieldActive ? shieldSprite : undefined, game.destroyedTurrets, game.destroyedFuel, game.generator.destroyed, game.generator.visible, podDetached, shouldHideShip, doorPoly, switchSprites);
 
     renderBullets(ctx, game.turretFiring.bullets, camX, camY, lineColor);
     renderPlayerBullets(ctx, game.playerShooting, camX, camY, lineColor);
     renderExplosions(ctx, game.explosions, camX, camY);
+    if (timeAttack) {
+      renderTimeAttackGhost(ctx, timeAttack, game, interpolationAlpha(scheduler), camX, camY, ghostSprites, lineColor, effectiveLevel.terrainColor);
+    }
 
     const spriteIdx = rotationToSpriteIndex(game.player.rotation);
     const center = shipCenters[spriteIdx];
-    const shipScreenX = Math.round(game.player.x * WORLD_SCALE_X - camX - center.x);
-    const shipScreenY = Math.round(game.player.y * WORLD_SCALE_Y - camY - center.y);
+    const shipScreenX = Math.round(pose.shipX * WORLD_SCALE_X - camX - center.x);
+    const shipScreenY = Math.round(pose.shipY * WORLD_SCALE_Y - camY - center.y);
     renderFuelBeams(ctx, game.fuelCollection, shipScreenX, shipScreenY);
 
     // Tractor beam / attachment line + attached pod rendering (skip during teleport)
     if (!game.teleport && (game.podLineExists || game.physics.state.podAttached)) {
-      const shipCX = Math.round(game.player.x * WORLD_SCALE_X - camX);
-      const shipCY = Math.round(game.player.y * WORLD_SCALE_Y - camY);
+      const shipCX = Math.round(pose.shipX * WORLD_SCALE_X - camX);
+      const shipCY = Math.round(pose.shipY * WORLD_SCALE_Y - camY);
 
       let podCX: number, podCY: number;
       if (game.physics.state.podAttached) {
-        podCX = Math.round(game.physics.state.podX * WORLD_SCALE_X - camX);
-        podCY = Math.round(game.physics.state.podY * WORLD_SCALE_Y - camY);
+        podCX = Math.round(pose.podX * WORLD_SCALE_X - camX);
+        podCY = Math.round(pose.podY * WORLD_SCALE_Y - camY);
       } else {
         podCX = Math.round(game.level.podPedestal.x * WORLD_SCALE_X - camX + Math.floor(podStandSprite.width / 2));
         podCY = Math.round(game.level.podPedestal.y * WORLD_SCALE_Y - camY - 1 + Math.floor(podSprite.height / 2));
@@ -231,29 +327,75 @@ async function startGame() {
     }
   }
 
-  function drawCenteredMessage(text: string) {
-    const cx = Math.floor((INTERNAL_W - text.length * 8) / 2);
-    const cy = 128;
-    drawText(ctx, text, cx, cy, bbcMicroColours.white);
+  /** One-shot sound effects triggered by game events. */
+  function playEventSound(event: GameEvent) {
+    switch (event.type) {
+      case "ShotFired":
+        sounds.playOwnGun();
+        break;
+      case "TurretFired":
+        sounds.playHostileGun();
+        break;
+      // Fuel collected, or pod picked up by tractor beam — double-ping, as in the original
+      case "FuelCollected":
+      case "PodAttached":
+        sounds.playCollect();
+        break;
+      case "CountdownBeep":
+        sounds.playCountdown();
+        break;
+      case "TurretDestroyed":
+      case "FuelDestroyed":
+      case "GeneratorHit":
+      case "DoorTriggered":
+      case "ShipDestroyed":
+      case "PodDestroyed":
+        sounds.playExplosion();
+        break;
+      case "OrbitReached":
+        sounds.playEnterOrbit();
+        break;
+    }
   }
 
-  function processOrbitEscape() {
-    if (game.fuelEmpty) {
-      triggerMessage(game, "OUT OF FUEL", 'game-over');
-    } else if (game.physics.state.podAttached) {
-      missionComplete(game);
-      triggerMessage(game, "MISSION COMPLETE", 'next-level');
-    } else if (game.generator.planetCountdown >= 0) {
-      game.lives--;
-      if (game.lives <= 0) triggerMessage(game, "GAME OVER", 'game-over');
-      else triggerMessage(game, "PLANET DESTROYED", 'next-level', MESSAGE_DURATION * 2);
+  /** Render the in-game frame: message screen, teleport animation or normal play. */
+  function renderGame(shieldKeyDown: boolean) {
+    if (game.messageTimer > 0) {
+      // Message overlay — black screen with status bar and text
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawStatusBar(ctx, INTERNAL_W, game.fuel, game.lives, game.score);
+      if (game.messageText) {
+        drawCenteredMessage(game.messageText);
+      }
+    } else if (game.teleport) {
+      // Teleport animation — calculate size: expand 1→6, contract 6→1
+      const step = game.teleport.step;
+      const size = step < 6 ? step + 1 : TELEPORT_STEPS - step;
+      const isExpansion = step < 6;
+
+      // Ship visibility per spec table
+      const shipVisible = size >= TELEPORT_VISIBILITY_THRESHOLD ||
+        (game.teleport.isDisappearing ? isExpansion : !isExpansion);
+
+      renderScene(!shipVisible);
+
+      // Draw teleport rectangles
+      drawTeleportEffect(ctx, game.teleport.shipCX, game.teleport.shipCY, size, bbcMicroColours.yellow);
+      if (game.teleport.hasPod) {
+        drawTeleportEffect(ctx, game.teleport.podCX, game.teleport.podCY, size, bbcMicroColours.white);
+      }
     } else {
-      game.lives--;
-      if (game.lives <= 0) triggerMessage(game, "GAME OVER", 'game-over');
-      else triggerMessage(game, "MISSION INCOMPLETE", 'retry');
+      // Render visible frame — shield key reveals invisible landscape
+      renderScene(false, shieldKeyDown);
     }
   }
 
+  function drawCenteredMessage(text: string) {
+    const cx = Math.floor((INTERNAL_W - text.length * 8) / 2);
+    const cy = 128;
+    drawText(ctx, text, cx, cy, bbcMicroColours.white);
+  }
+
   function handlePostProcessKeys() {
     if (ppReady && keys.has("BracketRight")) {
       postProcessor.cycleEffect(1);
@@ -269,561 +411,647 @@ async function startGame() {
     postProcessor.render(time);
   }
 
-  /** Exit demo mode and return to the title screen (instructions page). */
-  function exitDemoToTitle() {
-    demo.active = false;
-    sounds.stopAll();
-    resetTitleScreen(title);
-    game = createGame(levels[0], 0);
-    keys.clear();
+  /** Leave the title screen and play back a recording. */
+  function startReplay(rec: Recording) {
+    ({ game, player: replay } = createReplayPlayer(rec));
+    lastRecording = rec;
+    recording = null;
+    sounds.resume();
   }
 
-  function frame(time: number) {
-    const dt = lastTime < 0 ? 0 : (time - lastTime) / 1000;
-    lastTime = time;
-    handlePostProcessKeys();
-
-    // Title screen — show terrain with text overlay, no ship
-    if (title.active) {
-      updateTitleScreen(title, dt);
-
-      // Scoreboard timed out → start demo
-      if (title.demoRequested) {
-        title.demoRequested = false;
-        title.active = false;
+  /** Recording ends with the game — keep it so it can be replayed or saved. */
+  function finishRecording() {
+    if (recording) lastRecording = recording;
+    recording = null;
+  }
 
-        // Initialise demo: level 0, fresh game, scripted inputs
-        setupDemoTimers();
-        resetDemoState(demo);
-        game = createGame(levels[0], 0);
-        // createGame already starts a teleport-in animation
+  /** Where a finished game goes. Replays and practice games never enter the high score table. */
+  function gameOverState(): FlowStateName {
+    if (playtest) return "Editor";
+    if (practice) return "Practice";
+    if (replay) return "Title";
+    const scores = loadScores();
+    return playerScores(game).some(score => getHighScoreRank(scores, score) >= 0) ? "HighScoreEntry" : "GameOver";
+  }
 
-        postProcessFrame(time);
-        requestAnimationFrame(frame);
-        return;
+  /**
+   * Start name entry for the next waiting score that makes the table,
+   * ranked against the table as the previous entry left it. Returns
+   * false once there are none left.
+   */
+  function nextHighScoreEntry(): boolean {
+    const scores = loadScores();
+    while (scoresToEnter.length > 0) {
+      const score = scoresToEnter.shift()!;
+      const rank = getHighScoreRank(scores, score);
+      if (rank >= 0) {
+        highScoreEntry = { rank, score, name: "", scores };
+        charQueue.length = 0; // clear any queued chars
+        return true;
       }
+    }
+    return false;
+  }
 
-      renderScene(true);
-      renderTitleScreen(ctx, title, INTERNAL_W);
+  /** The state to be in after a tick of a real (non-demo) game. */
+  function nextGameState(): FlowStateName {
+    const phase = gamePhaseState(game);
+    return phase === "GameOver" ? gameOverState() : phase;
+  }
 
-      if (keys.size > 0) {
-        if (title.remap) {
-          // During remap: capture the first key pressed
-          const code = keys.values().next().value as string;
-          keys.clear();
-          handleRemapKey(title, code);
-        } else if (keys.has("KeyK")) {
-          // K enters key remap mode
-          keys.clear();
-          startKeyRemap(title);
-        } else if (keys.has("Space")) {
-          keys.clear();
-          title.active = false;
-          demo.active = false;
-          sounds.resume();
-          startTeleport(game, false);
-        } else {
-          keys.clear();
-        }
-      }
+  /** Escape aborts the game (as in the original). */
+  function abortGame(): FlowStateName {
+    keys.delete("Escape");
+    sounds.stopAll();
+    game.gameOver = true;
+    return gameOverState();
+  }
 
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+  /**
+   * Save states (disabled during replay). Loading drops the recording,
+   * since the loaded game can't be reproduced from its start.
+   */
+  function handleSaveKeys() {
+    if (replay || timeAttack) return;
+    if (keys.has("F5")) {
+      keys.delete("F5");
+      quickSave(saveSlots, game);
     }
-
-    // High score entry mode
-    if (highScoreEntry?.active) {
-      sounds.stopAll();
-      renderScene(true);
-
-      // Build a preview of scores with the new entry inserted
-      const previewScores = insertScore(highScoreEntry.scores, highScoreEntry.rank, highScoreEntry.score, highScoreEntry.name);
-
-      renderScoreboard(ctx, INTERNAL_W, previewScores, highScoreEntry.rank, highScoreEntry.name);
-
-      // Process character input from queue
-      while (charQueue.length > 0) {
-        const ch = charQueue.shift()!;
-        if (ch === "Enter") {
-          // Confirm name
-          const finalName = highScoreEntry.name || "PLAYER";
-          const finalScores = insertScore(highScoreEntry.scores, highScoreEntry.rank, highScoreEntry.score, finalName);
-          saveScores(finalScores);
-          highScoreEntry = null;
-          keys.clear();
-          resetTitleScreen(title);
-          title.page = 1;
-          game = createGame(levels[0], 0);
-          break;
-        } else if (ch === "Backspace") {
-          highScoreEntry.name = highScoreEntry.name.slice(0, -1);
-        } else if (ch.length === 1 && /^[a-zA-Z]$/.test(ch) && highScoreEntry.name.length < 9) {
-          highScoreEntry.name += ch.toUpperCase();
-        }
+    if (keys.has("F7")) {
+      keys.delete("F7");
+      selectNextSlot(saveSlots);
+    }
+    if (keys.has("F9")) {
+      keys.delete("F9");
+      const loaded = quickLoad(saveSlots);
+      if (loaded) {
+        sounds.stopAll();
+        game = loaded;
+        recording = null;
+        // A snapshot with assists on came from a practice game, and stays one
+        if (Object.values(loaded.cheats).some(Boolean)) practice = true;
       }
-
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
     }
+  }
 
-    // Game over state — wait for any key to restart
-    // During demo: should not happen, but handle gracefully
-    if (game.gameOver && demo.active) {
-      exitDemoToTitle();
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+  /** Time scale, freeze and step keys. Not during replay, where any key stops playback. */
+  function handleTimeKeys() {
+    if (replay || timeAttack) return;
+    if (keys.has("Minus")) {
+      changeTimeScale(timeControl, -1);
+      keys.delete("Minus");
     }
-    if (game.gameOver) {
-      sounds.stopAll();
-
-      // Check for high score on first frame of game over
-      if (!highScoreEntry) {
-        const scores = loadScores();
-        const rank = getHighScoreRank(scores, game.score);
-        if (rank >= 0) {
-          highScoreEntry = { active: true, rank, score: game.score, name: "", scores };
-          game = createGame(levels[0], 0);
-          charQueue.length = 0; // clear any queued chars
-          keys.clear();
-          postProcessFrame(time);
-          requestAnimationFrame(frame);
-          return;
-        }
-      }
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      drawStatusBar(ctx, INTERNAL_W, game.fuel, game.lives, game.score);
-      drawCenteredMessage("GAME OVER");
-
-      // Check for any key to restart
-      if (keys.size > 0) {
-        keys.clear();
-        resetTitleScreen(title);
-        game = createGame(levels[0], 0);
-      }
-
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+    if (keys.has("Equal")) {
+      changeTimeScale(timeControl, 1);
+      keys.delete("Equal");
     }
-
-    // Message overlay — black screen with status bar and text
-    // During demo: skip message overlays entirely, return to title
-    if (game.messageTimer > 0 && demo.active) {
-      exitDemoToTitle();
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+    if (keys.has("Backquote")) {
+      toggleFrozen(timeControl);
+      keys.delete("Backquote");
     }
-    if (game.messageTimer > 0) {
-      sounds.stopAll();
-      game.messageTimer--;
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      drawStatusBar(ctx, INTERNAL_W, game.fuel, game.lives, game.score);
-      if (game.messageText) {
-        drawCenteredMessage(game.messageText);
-      }
-
-      if (game.messageTimer === 0 && game.pendingAction) {
-        switch (game.pendingAction) {
-          case 'retry':
-            retryLevel(game);
-            break;
-          case 'next-level':
-            game = advanceToNextLevel(game);
-            break;
-          case 'game-over':
-            game.gameOver = true;
-            break;
-        }
-        game.pendingAction = null;
-        game.messageText = null;
-      }
-
-      // FPS counter (toggle with C)
-      if (keys.has("KeyC")) {
-        showFps = !showFps;
-        keys.delete("KeyC");
-      }
-      if (showFps) {
-        if (dt > 0) fps = fps * 0.95 + (1 / dt) * 0.05;
-        const fpsText = String(Math.round(fps));
-        ctx.fillStyle = "#000000";
-        ctx.fillRect(0, INTERNAL_H - 7, fpsText.length * 8 + 2, 7);
-        drawText(ctx, fpsText, 1, INTERNAL_H - 6, "#ffffff");
-      }
-
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+    if (keys.has("Period")) {
+      requestStep(timeControl);
+      keys.delete("Period");
     }
+  }
 
-    // Teleport animation
-    if (game.teleport) {
-      // During demo: any key exits back to title screen
-      if (demo.active && keys.size > 0) {
-        exitDemoToTitle();
-        postProcessFrame(time);
-        requestAnimationFrame(frame);
-        return;
-      }
-
-      game.teleport.timer += dt;
-      while (game.teleport.timer >= TELEPORT_FRAME_DURATION) {
-        game.teleport.timer -= TELEPORT_FRAME_DURATION;
-        game.teleport.step++;
-      }
-
-      if (game.teleport.step >= 12) {
-        // Animation complete
-        const wasDisappearing = game.teleport.isDisappearing;
-        game.teleport = null;
-        if (wasDisappearing) {
-          // During demo: orbit escape returns to title instead of normal logic
-          if (demo.active) {
-            exitDemoToTitle();
-            postProcessFrame(time);
-            requestAnimationFrame(frame);
-            return;
-          }
-          processOrbitEscape();
-        }
-        renderScene();
-      } else {
-        // Calculate size: expand 1→6, contract 6→1
-        const step = game.teleport.step;
-        const size = step < 6 ? step + 1 : 12 - step;
-        const isExpansion = step < 6;
-
-        // Ship visibility per spec table
-        const shipVisible = size >= TELEPORT_VISIBILITY_THRESHOLD ||
-          (game.teleport.isDisappearing ? isExpansion : !isExpansion);
-
-        renderScene(!shipVisible);
-
-        // Draw teleport rectangles
-        drawTeleportEffect(ctx, game.teleport.shipCX, game.teleport.shipCY, size, bbcMicroColours.yellow);
-        if (game.teleport.hasPod) {
-          drawTeleportEffect(ctx, game.teleport.podCX, game.teleport.podCY, size, bbcMicroColours.white);
-        }
-      }
+  // Set while updating a game for the render that follows
+  let shieldKeyDown = false;
+  let rewinding = false;
 
-      // FPS counter (toggle with C)
-      if (keys.has("KeyC")) {
-        showFps = !showFps;
-        keys.delete("KeyC");
-      }
-      if (showFps) {
-        if (dt > 0) fps = fps * 0.95 + (1 / dt) * 0.05;
-        const fpsText = String(Math.round(fps));
-        ctx.fillStyle = "#000000";
-        ctx.fillRect(0, INTERNAL_H - 7, fpsText.length * 8 + 2, 7);
-        drawText(ctx, fpsText, 1, INTERNAL_H - 6, "#ffffff");
-      }
-
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
-    }
+  /** Engine and one-shot sounds for a tick's input and events. */
+  function playTickSounds(events: readonly GameEvent[], gameInput: GameInput, playing: boolean) {
+    const dying = game.deathSequence !== null;
+    const thrustActive = playing && !dying && gameInput.thrust && !game.fuelEmpty;
+    shieldKeyDown = playing && !dying && gameInput.shieldTractor && !game.fuelEmpty;
 
-    // Escape aborts the game (as in the original) — disabled during demo
-    if (!demo.active && keys.has("Escape")) {
-      keys.delete("Escape");
-      paused = false;
-      sounds.stopAll();
-      game.gameOver = true;
+    // Engine/shield: re-issue every tick while active (duration=3 = 150ms, stops naturally)
+    if (thrustActive && !shieldKeyDown) {
+      sounds.runEngine(false);
+    } else if (shieldKeyDown) {
+      sounds.runEngine(true);
     }
 
-    // Pause toggle (disabled during demo)
-    if (!demo.active && keys.has("KeyP")) {
-      paused = !paused;
-      keys.delete("KeyP");
+    for (const event of events) {
+      playEventSound(event);
     }
+  }
 
-    if (paused) {
-      renderScene();
-      drawCenteredMessage("PAUSED");
+  /**
+   * One frame of a real game (Teleport, Playing and Message): however many
+   * ticks the scheduler says are due. Player controls only apply while
+   * Playing — otherwise tick() just advances the message and teleport
+   * timers. Ticking stops early when the phase changes, so the new phase
+   * handles the rest of the frame's ticks.
+   */
+  function updateGame(dt: number): FlowStateName {
+    const playing = flow.current === "Playing";
+    tickSaveSlotNotice(saveSlots, dt);
 
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+    // FPS counter (toggle with C)
+    if (keys.has("KeyC")) {
+      showFps = !showFps;
+      keys.delete("KeyC");
     }
-
-    // Debug keys (disabled during demo)
-    if (!demo.active) {
-      // Number keys switch level (debug)
-      for (let i = 0; i < levels.length; i++) {
-        if (keys.has(`Digit${i + 1}`)) {
-          sounds.stopAll();
-          game = createGame(levels[i], i);
-          keys.delete(`Digit${i + 1}`);
-          break;
-        }
-      }
-
-      // 0 key advances to next cycle (debug) — stay on same level, toggle modifiers
-      if (keys.has("Digit0")) {
-        sounds.stopAll();
-        let reverseGravity = !game.reverseGravity;
-        let invisibleLandscape = game.invisibleLandscape;
-        if (!reverseGravity) {
-          invisibleLandscape = !invisibleLandscape;
-        }
-        game = createGame(levels[game.levelNumber], game.levelNumber, {
-          lives: game.lives,
-          score: game.score,
-          missionNumber: game.missionNumber,
-          reverseGravity,
-          invisibleLandscape,
-        });
-        keys.delete("Digit0");
-      }
+    if (keys.has("F3")) {
+      debugOverlay.visible = !debugOverlay.visible;
+      keys.delete("F3");
     }
-
-    // --- Demo mode: advance scripted keypresses before tick ---
-    if (demo.active) {
-      demoModeTick(demo, dt);
-
-      // Demo sequence exhausted (safety: should not happen, ship crashes first)
-      if (!demo.active) {
-        exitDemoToTitle();
-        postProcessFrame(time);
-        requestAnimationFrame(frame);
-        return;
+    handleTimeKeys();
+
+    // Rewind (disabled during replay): while Backspace is held, step back
+    // one tick per frame instead of ticking. The recording is cut back to
+    // match, so it still reproduces the game from its start.
+    rewinding = !replay && !timeAttack && keys.has("Backspace");
+    if (rewinding) {
+      const rewound = rewindTick(rewind, game);
+      if (rewound) {
+        game = rewound;
+        if (recording) dropRecordedTicks(recording, 1);
       }
+      sounds.stopAll();
+      shieldKeyDown = false;
+      return nextGameState();
     }
 
-    // Build game input — from demo bitmask or real keyboard
-    const gameInput: GameInput = demo.active
-      ? getDemoInput(demo)
-      : gameInputFromKeys(keys);
-
-    // The original game plays no sound during demo mode
-    sounds.setMuted(demo.active);
-
-    tick(game, dt, gameInput);
-    sounds.tick();
+    // Replay: any real key stops playback
+    if (replay && keys.size > 0) return "Title";
+
+    // Replays and time attack runs go at normal speed; otherwise the time controls apply
+    const frameDt = clampFrameTime(dt);
+    addFrameTime(scheduler, replay || timeAttack ? frameDt : controlledDt(timeControl, frameDt));
+    while (takeTick(scheduler)) {
+      // Build game input — from replay recording or real keyboard
+      let gameInput: GameInput = gameInputFromKeys(keys);
+      if (replay) {
+        const next = nextReplayTick(replay);
+        if (!next) return "Title";
+        gameInput = next;
+      } else {
+        if (recording) recordTick(recording, gameInput);
+        recordRewindTick(rewind, game, gameInput);
+      }
 
-    // --- Demo mode: any real key exits back to title screen ---
-    if (demo.active && keys.size > 0) {
-      exitDemoToTitle();
-      postProcessFrame(time);
-      requestAnimationFrame(frame);
-      return;
+      beforeTick(interpolation, game);
+      const events = tick(game, gameInput);
+      if (timeAttack) updateTimeAttack(timeAttack, game, events);
+      if (playing) sounds.tick();
+      playTickSounds(events, gameInput, playing);
+      if (nextGameState() !== flow.current) break;
     }
+    // A playtest ends when its level does. The level is played as level 0,
+    // so that is when the game moves on; its Level object can't tell, as
+    // rewinding and quick-loading restore a copy of it.
+    if (playtest && game.levelNumber !== 0) return "Editor";
+    return nextGameState();
+  }
 
-    // --- Sound triggers from game tick events ---
-    const dying = game.deathSequence !== null;
-    const thrustActive = !dying && gameInput.thrust && !game.fuelEmpty;
-    const shieldKeyDown = !dying && gameInput.shieldTractor && !game.fuelEmpty;
+  /** One frame of demo mode: scripted input, ending on any key, a crash, orbit or a message. */
+  function updateDemo(frameDt: number): FlowStateName | void {
+    if (keys.size > 0) return "Title";
 
-    // Engine/shield: re-issue every tick while active (duration=3 = 150ms, stops naturally)
-    if (thrustActive && !shieldKeyDown) {
-      sounds.runEngine(false);
-    } else if (shieldKeyDown) {
-      sounds.runEngine(true);
-    }
+    // The demo follows the time scale but is never frozen — any key ends it
+    addFrameTime(scheduler, clampFrameTime(frameDt) * timeScale(timeControl));
+    while (takeTick(scheduler)) {
+      const playing = game.messageTimer === 0 && !game.teleport;
 
-    // Player gun fired
-    if (game.playerShooting.firedThisTick) {
-      sounds.playOwnGun();
-    }
+      // Advance scripted keypresses before tick
+      if (playing) {
+        demoModeTick(demo);
+        // Demo sequence exhausted (safety: should not happen, ship crashes first)
+        if (!demo.active) return "Title";
+      }
 
-    // Hostile turret fired
-    if (game.turretFiring.turretsFiredThisTick) {
-      sounds.playHostileGun();
-    }
+      const gameInput = getDemoInput(demo);
+      beforeTick(interpolation, game);
+      const events = tick(game, gameInput);
+      if (playing) sounds.tick();
 
-    // Fuel collected
-    if (game.fuelCollection.collectedThisTick) {
-      sounds.playCollect();
-    }
+      const demoOver = events.some(e => e.type === "LevelEnded" || e.type === "OrbitReached");
+      if (demoOver || game.messageTimer > 0) return "Title";
 
-    // Pod picked up by tractor beam — double-ping, as in the original
-    if (game.podAttachedThisTick) {
-      sounds.playCollect();
+      playTickSounds(events, gameInput, playing);
     }
+  }
 
-    // Countdown beep
-    if (game.generator.countdownBeepThisTick) {
-      sounds.playCountdown();
-    }
+  // Each split-screen view is drawn full width, then the half of it
+  // around its ship is copied across to its side of this canvas
+  const splitCanvas = document.createElement("canvas");
+  splitCanvas.width = INTERNAL_W;
+  splitCanvas.height = INTERNAL_H;
+  const splitCtx = splitCanvas.getContext("2d")!;
+
+  /** Both ships' views side by side, drawn with the one-ship renderer by swapping each ship in as the game. */
+  function renderSplitScreen(s: SplitScreenState) {
+    const savedGame = game;
+    const savedInterpolation = interpolation;
+    const alpha = interpolationAlpha(scheduler);
+    const halfW = INTERNAL_W / 2;
+
+    s.ships.forEach((ship, i) => {
+      game = ship;
+      interpolation = s.interpolations[i];
+      let left = halfW / 2;
+      if (ship.gameOver || ship.messageTimer > 0) {
+        // The HUD draws the message in the half
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+      } else {
+        renderGame(false);
+        const pose = renderPose(interpolation, ship, alpha);
+        const camX = Math.round(pose.windowX * WORLD_SCALE_X);
+        const camY = Math.round(pose.windowY * WORLD_SCALE_Y);
+        const lineColor = ship.invisibleLandscape ? bbcMicroColours.white : ship.level.terrainColor;
+        const colours = { line: lineColor, object: ship.level.objectColor, terrain: ship.level.terrainColor };
+        renderOtherShip(ctx, s, i, alpha, camX, camY, ghostSprites, shieldSprite, colours);
+        left = splitViewLeft(Math.round(pose.shipX * WORLD_SCALE_X) - camX, INTERNAL_W, halfW);
+      }
+      splitCtx.drawImage(canvas, left, 0, halfW, INTERNAL_H, i * halfW, 0, halfW, INTERNAL_H);
+    });
+
+    game = savedGame;
+    interpolation = savedInterpolation;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(splitCanvas, 0, 0);
+    renderSplitScreenHud(ctx, s, INTERNAL_W, INTERNAL_H);
+  }
 
-    // Camera from scroll state
-    const camX = Math.round(game.scroll.windowPos.x * WORLD_SCALE_X);
-    const camY = Math.round(game.scroll.windowPos.y * WORLD_SCALE_Y);
-    const podDetached = game.physics.state.podAttached;
-    // Remove pod stand from collision buffer as soon as tractor beam starts (or pod attached)
-    const podRemovedFromCollision = podDetached || game.tractorBeamStarted;
-    const doorPolyCollision = getDoorPolygon(game.doorState, game.level.doorConfig, camX, camY);
-    renderCollisionBuffer(collisionBuf, game.level, camX, camY, fuelSprite, turretSprites, powerPlantSprite, podStandSprite, game.destroyedTurrets, game.destroyedFuel, game.generator.destroyed, podRemovedFromCollision, switchSprites, doorPolyCollision);
-    const collisionImageData = collisionBuf.ctx.getImageData(0, 0, collisionBuf.width, collisionBuf.height);
-
-    // Remove bullets that hit terrain/objects
-    removeCollidingBullets(game.turretFiring, collisionImageData, camX, camY);
-
-    // Player bullet collision via collision buffer — detects terrain hits and object destruction
-    const bulletHits = processPlayerBulletCollisions(
-      game.playerShooting, collisionImageData, camX, camY,
-      game.level.turrets, game.level.fuel,
-      game.destroyedTurrets, game.destroyedFuel,
-    );
-    // Gun explosions: type 2 ($0F) = colour 1 = yellow
-    for (const idx of bulletHits.hitTurrets) {
-      game.destroyedTurrets.add(idx);
-      const t = game.level.turrets[idx];
-      spawnExplosion(game.explosions, t.x + 2, t.y + 4, bbcMicroColours.yellow);
-      addScore(game, SCORE_GUN_DESTROYED);
-      sounds.playExplosion();
-    }
-    // Fuel explosions: type 1 ($FF) = both landscape + object colours combined
-    const fuelExplosionColour = orColours(game.level.terrainColor, game.level.objectColor);
-    for (const idx of bulletHits.hitFuel) {
-      game.destroyedFuel.add(idx);
-      const f = game.level.fuel[idx];
-      spawnExplosion(game.explosions, f.x + 2, f.y + 4, fuelExplosionColour);
-      addScore(game, SCORE_FUEL_SHOT);
-      sounds.playExplosion();
+  function renderGameFrame() {
+    renderGame(shieldKeyDown);
+    const pose = renderPose(interpolation, game, interpolationAlpha(scheduler));
+    renderDebugOverlay(ctx, debugOverlay, game, Math.round(pose.windowX * WORLD_SCALE_X), Math.round(pose.windowY * WORLD_SCALE_Y));
+    if (rewinding) {
+      drawText(ctx, "REWIND", Math.floor((INTERNAL_W - 6 * 8) / 2), 24, bbcMicroColours.magenta);
     }
-    // Generator hit
-    if (bulletHits.hitGenerator && !game.generator.destroyed) {
-      handleGeneratorHit(game.generator, game.explosions, bulletHits.generatorHitX, bulletHits.generatorHitY);
-      sounds.playExplosion();
+    const timeLabel = replay || timeAttack ? "" : timeControlLabel(timeControl);
+    if (timeLabel) {
+      drawText(ctx, timeLabel, INTERNAL_W - timeLabel.length * 8 - 1, INTERNAL_H - 6, bbcMicroColours.yellow);
     }
-    // Switch hit — trigger door and spawn debris (no score, switch persists)
-    if (bulletHits.hitSwitch) {
-      triggerDoor(game.doorState);
-      spawnExplosion(game.explosions, bulletHits.switchHitX, bulletHits.switchHitY, bbcMicroColours.yellow);
-      sounds.playExplosion();
-    }
-
-    const spriteIdx = rotationToSpriteIndex(game.player.rotation);
-    const center = shipCenters[spriteIdx];
-    const shipScreenX = Math.round(game.player.x * WORLD_SCALE_X - camX - center.x);
-    const shipScreenY = Math.round(game.player.y * WORLD_SCALE_Y - camY - center.y);
+    renderSaveSlots(ctx, saveSlots, INTERNAL_W);
+    if (timeAttack) renderTimeAttack(ctx, timeAttack, game, INTERNAL_W);
+  }
 
-    // --- Collision detection — skip during death sequence ---
-    if (!game.deathSequence) {
-      const collision = testCollision(collisionBuf, shipMasks[spriteIdx], shipScreenX, shipScreenY);
-      game.collisionResult = collision;
+  const flow = createFlow({
+    Title: {
+      enter(from) {
+        sounds.stopAll();
+        replay = null;
+        timeAttack = null;
+        practice = false;
+        split = null;
+        resetTitleScreen(title);
+        // Show the updated table straight after a name is entered
+        if (from === "HighScoreEntry") title.page = 1;
+        game = createGame(levels[0], 0);
+        keys.clear();
+      },
+      update(dt) {
+        updateTitleScreen(title, dt);
+
+        // Scoreboard timed out → start demo
+        if (title.demoRequested) {
+          title.demoRequested = false;
+          return "Demo";
+        }
 
-      // Ship collision → destroy ship (ship dies first)
-      if (collision !== CollisionResult.None) {
-        destroyPlayerShip(game);
-        sounds.playExplosion();
-      }
+        if (pendingReplay) {
+          const rec = pendingReplay;
+          pendingReplay = null;
+          keys.clear();
+          startReplay(rec);
+          return "Teleport";
+        }
 
-      // Tether line + pod collision with terrain (only when pod is attached, not during tractor beam)
-      if (collision === CollisionResult.None && game.physics.state.podAttached) {
-        const shipCX = Math.round(game.player.x * WORLD_SCALE_X - camX);
-        const shipCY = Math.round(game.player.y * WORLD_SCALE_Y - camY);
-        const podCX = Math.round(game.physics.state.podX * WORLD_SCALE_X - camX);
-        const podCY = Math.round(game.physics.state.podY * WORLD_SCALE_Y - camY);
-
-        // Test tether line
-        if (testLineCollision(collisionImageData, shipCX, shipCY, podCX, podCY)) {
-          destroyAttachedPod(game);
-          sounds.playExplosion();
+        // Replays name a built-in level, so a game on a loaded level isn't recorded
+        if (pendingLevel) {
+          const level = pendingLevel;
+          pendingLevel = null;
+          keys.clear();
+          sounds.resume();
+          game = createGame(level);
+          recording = null;
+          return "Teleport";
         }
-        // Test pod sprite area
-        else {
-          const podLeft = podCX - Math.floor(podSprite.width / 2);
-          const podTop = podCY - Math.floor(podSprite.height / 2);
-          if (testRectCollision(collisionImageData, podLeft, podTop, podSprite.width, podSprite.height)) {
-            destroyAttachedPod(game);
-            sounds.playExplosion();
+
+        if (keys.size === 0) return;
+        if (keys.has("KeyK")) {
+          // K enters key remap mode
+          keys.clear();
+          return "Options";
+        } else if (keys.has("KeyE")) {
+          keys.clear();
+          return "Editor";
+        } else if (keys.has("KeyP")) {
+          keys.clear();
+          return "Practice";
+        } else if (keys.has("Digit2")) {
+          // Two players take turns, swapping on each life lost
+          keys.clear();
+          sounds.resume();
+          ({ game, recording } = beginRecording(newGameStart(0, randomSeed(), true)));
+          return "Teleport";
+        } else if (keys.has("KeyV") || keys.has("KeyC")) {
+          // Split screen isn't recorded: a replay holds one ship's input
+          const mode = keys.has("KeyV") ? "versus" : "coop";
+          keys.clear();
+          sounds.resume();
+          split = createSplitScreen(mode);
+          return "SplitScreen";
+        } else if (keys.has("KeyG")) {
+          // Like a level file, a generated cave isn't recorded
+          keys.clear();
+          sounds.resume();
+          let level = levels[0];
+          try {
+            level = generateCave(randomSeed(), caveParams(DEFAULT_CAVE_DIFFICULTY));
+          } catch (err) {
+            // Every layout from this seed failed validation; play the first level instead
+            console.error(`Could not generate a cave: ${err instanceof Error ? err.message : err}`);
           }
+          game = createGame(level);
+          recording = null;
+          return "Teleport";
+        } else if (keys.has("Space")) {
+          keys.clear();
+          sounds.resume();
+          // createGame starts the teleport-in animation
+          ({ game, recording } = beginRecording(newGameStart(0, randomSeed())));
+          return "Teleport";
+        } else if (keys.has("KeyT")) {
+          // Time attack is a normal game with the clock running and the assists off
+          keys.clear();
+          sounds.resume();
+          timeAttack = createTimeAttack();
+          resetTimeControl(timeControl);
+          ({ game, recording } = beginRecording(newGameStart(0, randomSeed())));
+          return "Teleport";
+        } else if (keys.has("KeyR") && lastRecording) {
+          keys.clear();
+          startReplay(lastRecording);
+          return "Teleport";
+        } else if (keys.has("KeyS") && lastRecording) {
+          keys.clear();
+          downloadRecording(lastRecording);
+        } else {
+          keys.clear();
         }
-      }
-
-      // Bullet-ship collision — always remove bullets that hit, only kill player if shield is down
-      const bulletHitShip = removeBulletsHittingShip(game.turretFiring.bullets, shipMasks[spriteIdx], shipScreenX, shipScreenY, camX, camY);
-      if (bulletHitShip && !game.shieldActive) {
-        destroyPlayerShip(game);
-        sounds.playExplosion();
-      }
-    }
-
-    // Planet self-destruct countdown reached 0 — start explosion animation
-    if (game.planetKilled) {
-      game.planetKilled = false;
-      if (game.planetExplodeAnim === 0 && !game.deathSequence) {
-        game.planetExplodeAnim = 15;
+      },
+      // Terrain with text overlay, no ship
+      render() {
+        renderScene(true, false, false);
+        renderTitleScreen(ctx, title, INTERNAL_W);
+      },
+      exit() {
+        title.active = false;
+      },
+    },
 
-        // Destroy player ship and all remaining objects at once
-        destroyPlayerShip(game);
-        sounds.playExplosion();
-        for (let i = 0; i < game.level.turrets.length; i++) {
-          if (!game.destroyedTurrets.has(i)) {
-            game.destroyedTurrets.add(i);
-            const t = game.level.turrets[i];
-            spawnExplosion(game.explosions, t.x + 2, t.y + 4, bbcMicroColours.yellow);
+    // Practice settings; a practice game comes back here when it ends
+    Practice: {
+      enter() {
+        sounds.stopAll();
+        practice = false;
+        game = createGame(levels[0], 0);
+        keys.clear();
+      },
+      update() {
+        for (const code of [...keys]) {
+          keys.delete(code);
+          if (code === "Escape") return "Title";
+          if (code === "Space") {
+            // Practice games aren't recorded: replays can't reproduce the assists or start point
+            practice = true;
+            game = createPracticeGame(practiceMenu.settings);
+            recording = null;
+            sounds.resume();
+            return "Teleport";
           }
+          handlePracticeMenuKey(practiceMenu, code);
         }
-        for (let i = 0; i < game.level.fuel.length; i++) {
-          if (!game.destroyedFuel.has(i)) {
-            game.destroyedFuel.add(i);
-            const f = game.level.fuel[i];
-            spawnExplosion(game.explosions, f.x + 2, f.y + 4, bbcMicroColours.yellow);
+      },
+      render() {
+        renderScene(true, false, false);
+        renderPracticeMenu(ctx, practiceMenu, INTERNAL_W);
+      },
+    },
+
+    // Both ships at once; the save, rewind and time keys don't apply
+    SplitScreen: {
+      update(dt) {
+        const s = split!;
+        if (keys.has("Escape")) return "Title";
+        if (s.result) return;
+
+        addFrameTime(scheduler, clampFrameTime(dt));
+        while (takeTick(scheduler)) {
+          const inputs = [gameInputFromKeys(keys), gameInputFromKeys(keys, PLAYER_2_BINDINGS)];
+          const events = tickSplitScreen(s, inputs);
+          sounds.tick();
+          s.ships.forEach((ship, i) => {
+            game = ship;
+            playTickSounds(events[i], inputs[i], ship.messageTimer === 0 && !ship.teleport);
+          });
+          if (s.result) break;
+        }
+      },
+      render() {
+        renderSplitScreen(split!);
+      },
+    },
+
+    Editor: {
+      enter() {
+        sounds.stopAll();
+        playtest = false;
+        editor.active = true;
+        keys.clear();
+      },
+      update(dt) {
+        tickEditorNotice(editor, dt);
+        const ctrl = keys.has("ControlLeft") || keys.has("ControlRight") || keys.has("MetaLeft") || keys.has("MetaRight");
+        const shift = keys.has("ShiftLeft") || keys.has("ShiftRight");
+
+        const panX = (keys.has("ArrowRight") ? 1 : 0) - (keys.has("ArrowLeft") ? 1 : 0);
+        const panY = (keys.has("ArrowDown") ? 1 : 0) - (keys.has("ArrowUp") ? 1 : 0);
+        panEditor(editor, panX, panY, shift ? dt * 3 : dt);
+
+        for (const code of [...keys]) {
+          if (code === "Escape") {
+            keys.delete(code);
+            if (!cancelDraft(editor)) return "Title";
+          } else if (code === "KeyP") {
+            keys.delete(code);
+            playtest = true;
+            game = createGame(playtestLevel(editor, INTERNAL_W, INTERNAL_H), 0);
+            recording = null;
+            sounds.resume();
+            return "Teleport";
+          } else if (code === "KeyS") {
+            keys.delete(code);
+            downloadLevel(editor.level);
+          } else if (handleEditorKey(editor, code, ctrl, shift, INTERNAL_W, INTERNAL_H)) {
+            keys.delete(code);
           }
         }
-        if (!game.generator.destroyed) {
-          game.generator.destroyed = true;
-          const pp = game.level.powerPlant;
-          spawnExplosion(game.explosions, pp.x + 4, pp.y + 4, bbcMicroColours.yellow);
+      },
+      render() {
+        const level = editor.level;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        const doorPoly = getDoorPolygon(createDoorState(), level.doorConfig, editor.camX, editor.camY);
+        renderLevel(ctx, level, 0, 0, 0, shipSprites, shipCenters, editor.camX, editor.camY, fuelSprite, turretSprites, powerPlantSprite, podStandSprite, undefined, undefined, undefined, false, true, false, true, doorPoly, switchSprites);
+        renderEditorOverlay(ctx, editor, INTERNAL_W, INTERNAL_H);
+      },
+      exit() {
+        editor.active = false;
+        editorMouseUp(editor);
+      },
+    },
+
+    // Key remapping (shown by the title screen while title.remap is set)
+    Options: {
+      enter() {
+        startKeyRemap(title);
+      },
+      update() {
+        if (keys.size === 0) return;
+        // Capture the first key pressed
+        const code = keys.values().next().value as string;
+        keys.clear();
+        handleRemapKey(title, code);
+        if (!title.remap) return "Title";
+      },
+      render() {
+        renderScene(true, false, false);
+        renderTitleScreen(ctx, title, INTERNAL_W);
+      },
+    },
+
+    Demo: {
+      enter() {
+        // Level 0, fresh game, scripted inputs. createGame already starts a teleport-in animation
+        game = createGame(levels[0], 0);
+        setupDemoTimers(game.rng);
+        resetDemoState(demo);
+        // The original game plays no sound during demo mode
+        sounds.setMuted(true);
+      },
+      update: updateDemo,
+      render() {
+        renderGame(shieldKeyDown);
+      },
+      exit() {
+        demo.active = false;
+        sounds.setMuted(false);
+      },
+    },
+
+    Teleport: {
+      update: updateGame,
+      render: renderGameFrame,
+    },
+
+    Playing: {
+      update(dt) {
+        if (keys.has("Escape")) return abortGame();
+        if (keys.has("KeyP")) {
+          keys.delete("KeyP");
+          return "Paused";
         }
-      }
-    }
-
-    // --- Process orbit escape — start disappear teleport ---
-    if (game.escapedToOrbit) {
-      game.escapedToOrbit = false;
-      if (demo.active) {
-        // Demo: orbit escape → return to title (should not happen but handle gracefully)
-        exitDemoToTitle();
-        postProcessFrame(time);
-        requestAnimationFrame(frame);
-        return;
-      }
-      sounds.playEnterOrbit();
-      startTeleport(game, true);
-    }
+        handleSaveKeys();
+        return updateGame(dt);
+      },
+      render: renderGameFrame,
+    },
+
+    Paused: {
+      update(dt) {
+        tickSaveSlotNotice(saveSlots, dt);
+        if (keys.has("Escape")) return abortGame();
+        if (keys.has("KeyP")) {
+          keys.delete("KeyP");
+          return "Playing";
+        }
+        handleSaveKeys();
+      },
+      render() {
+        renderScene();
+        drawCenteredMessage("PAUSED");
+        renderSaveSlots(ctx, saveSlots, INTERNAL_W);
+      },
+    },
 
-    // --- Process death (levelEndedFlag) ---
-    if (game.levelEndedFlag) {
-      game.levelEndedFlag = false;
-      if (demo.active) {
-        // Demo: crash → return to title screen (skip lives/game-over logic)
-        exitDemoToTitle();
-        postProcessFrame(time);
-        requestAnimationFrame(frame);
-        return;
-      }
-      if (game.fuelEmpty) {
-        triggerMessage(game, "OUT OF FUEL", 'game-over');
-      } else {
-        game.lives--;
-        if (game.lives <= 0) {
-          triggerMessage(game, "GAME OVER", 'game-over');
-        } else if (game.generator.planetCountdown >= 0 || game.planetKilled) {
-          triggerMessage(game, "PLANET DESTROYED", 'next-level', MESSAGE_DURATION * 2);
-        } else {
-          retryLevel(game);
+    Message: {
+      enter() {
+        sounds.stopAll();
+      },
+      update: updateGame,
+      render: renderGameFrame,
+    },
+
+    // Wait for any key to return to the title screen
+    GameOver: {
+      enter() {
+        sounds.stopAll();
+        finishRecording();
+      },
+      update() {
+        if (keys.size > 0) return "Title";
+      },
+      render() {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawStatusBar(ctx, INTERNAL_W, game.fuel, game.lives, game.score);
+        drawCenteredMessage("GAME OVER");
+      },
+    },
+
+    HighScoreEntry: {
+      enter() {
+        sounds.stopAll();
+        finishRecording();
+        scoresToEnter = playerScores(game);
+        nextHighScoreEntry();
+        game = createGame(levels[0], 0);
+        keys.clear();
+      },
+      update() {
+        const entry = highScoreEntry!;
+        // Process character input from queue
+        while (charQueue.length > 0) {
+          const ch = charQueue.shift()!;
+          if (ch === "Enter") {
+            // Confirm name
+            const finalName = entry.name || "PLAYER";
+            saveScores(insertScore(entry.scores, entry.rank, entry.score, finalName));
+            // In a two-player game the other player's score may make the table too
+            if (nextHighScoreEntry()) return;
+            return "Title";
+          } else if (ch === "Backspace") {
+            entry.name = entry.name.slice(0, -1);
+          } else if (ch.length === 1 && /^[a-zA-Z]$/.test(ch) && entry.name.length < 9) {
+            entry.name += ch.toUpperCase();
+          }
         }
-      }
-    }
+      },
+      render() {
+        const entry = highScoreEntry!;
+        renderScene(true, false, false);
+        // Preview of the scores with the new entry inserted
+        const previewScores = insertScore(entry.scores, entry.rank, entry.score, entry.name);
+        renderScoreboard(ctx, INTERNAL_W, previewScores, entry.rank, entry.name);
+      },
+      exit() {
+        highScoreEntry = null;
+      },
+    },
+  }, "Title");
 
-    // Render visible frame — shield key reveals invisible landscape
-    renderScene(false, shieldKeyDown);
+  function frame(time: number) {
+    const dt = lastTime < 0 ? 0 : (time - lastTime) / 1000;
+    lastTime = time;
+    handlePostProcessKeys();
+
+    updateFlow(flow, dt);
+    renderFlow(flow);
 
-    // FPS counter (toggle with C)
-    if (keys.has("KeyC")) {
-      showFps = !showFps;
-      keys.delete("KeyC");
-    }
     if (showFps) {
       if (dt > 0) fps = fps * 0.95 + (1 / dt) * 0.05;
       const fpsText = String(Math.round(fps));
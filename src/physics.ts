@@ -1,16 +1,16 @@
 /**
  * ThrustPhysics.ts
  *
- * A frame-rate-independent physics model that reproduces the "feel" of
+ * A fixed-step physics model that reproduces the "feel" of
  * Thrust (BBC Micro, 1986) by Jeremy C. Smith.
  *
  * Derived from the Kieran Connell / Phill Harvey-Smith disassembly.
  *
  * The original runs at 50 Hz PAL with a fixed tick loop. Physics
  * updates are gated to 6 out of every 16 ticks (≈18.75 effective Hz).
- * This model accumulates real elapsed time and steps the simulation
- * at the original fixed-step rate, with leftover time carried forward,
- * so it feels identical regardless of host frame rate.
+ * This model advances exactly one original tick (3 centiseconds) per
+ * tick() call; the game's tick scheduler decides how many ticks each
+ * host frame runs, so it feels identical regardless of frame rate.
  *
  * All constants are taken directly from the 6502 source and converted
  * from Q7.8 / Q7.16 fixed-point into floating-point equivalents.
@@ -39,6 +39,17 @@
  *
  * The result is the distinctive swinging behaviour where the pod
  * hangs below and oscillates when you thrust off-axis.
+ *
+ * ## Fixed-point mode
+ *
+ * Setting `fixedPoint` in the state switches to a bit-exact integer
+ * model: positions, forces and the pod's angle and angular velocity are
+ * held as the original INT/FRAC byte pairs (counts of 1/256), forces and
+ * angular velocity wrap at 16 bits, and drag, mass and tether divisions
+ * are the original arithmetic shifts rather than float multiplies. The
+ * state still exposes plain numbers — every value is an exact multiple of
+ * 1/256 — so the rest of the game is unaware of the mode. Trajectories
+ * can be compared byte-for-byte against emulator traces.
  */
 
 // ---------------------------------------------------------------------------
@@ -97,22 +108,30 @@ export const ANGLE_Y = ANGLE_TO_Y_INT.map((v, i) => q78ToFloat(v, ANGLE_TO_Y_FRA
 export const ANGLE_X = ANGLE_TO_X_INT.map((v, i) => q78ToFloat(v, ANGLE_TO_X_FRAC[i]));
 
 // ---------------------------------------------------------------------------
-// Per-level gravity (fractional byte, INT is always 0)
-// From level_gravity_FRAC_table: $05,$07,$09,$0B,$0C,$0D
+// Fixed-point helpers. A "raw" value is an INT/FRAC pair as one signed
+// integer count of 1/256 — what the 6502 holds in two bytes.
 // ---------------------------------------------------------------------------
 
-const LEVEL_GRAVITY_FRAC = [0x05, 0x07, 0x09, 0x0B, 0x0C, 0x0D];
+const FRAC_ONE = 256;
+/** Angle with its two fraction bytes: 5-bit index, angleFrac, sub-fraction */
+const ANGLE_RAW_MASK = 0x1FFFFF;
+const ANGLE_RAW_INDEX_SHIFT = 16;
 
-// ---------------------------------------------------------------------------
-// Timing constants
-// ---------------------------------------------------------------------------
+function toRaw(value: number): number {
+  return Math.round(value * FRAC_ONE);
+}
 
-/**
- * Original frame period: the tick loop waits for the BBC Micro system
- * clock (100 Hz) to reach 3 centiseconds before proceeding, giving
- * ~33.3 ticks/second — NOT 50 Hz as previously assumed.
- */
-const ORIGINAL_FRAME_S = 3 / 100;
+function fromRaw(raw: number): number {
+  return raw / FRAC_ONE;
+}
+
+/** Wrap to a signed 16-bit INT/FRAC pair, as the 6502's byte arithmetic does. */
+function wrap16(raw: number): number {
+  return (raw << 16) >> 16;
+}
+
+const ANGLE_Y_RAW = ANGLE_Y.map(toRaw);
+const ANGLE_X_RAW = ANGLE_X.map(toRaw);
 
 // ---------------------------------------------------------------------------
 // Mass (shift counts from the disassembly)
@@ -124,6 +143,16 @@ const MASS_SHIFT_SHIP = 4;
 /** Ship + pod: thrust >> 5, effective mass divisor = 32 */
 const MASS_SHIFT_SHIP_AND_POD = 5;
 
+/** Linear drag shifts: force -= force >> shift */
+const DRAG_SHIFT_X = 6;
+const DRAG_SHIFT_Y = 8;
+/** Angular drag shift: angularVel -= angularVel >> 6 */
+const ANGULAR_DRAG_SHIFT = 6;
+/** Torque: tangential force (angle X component) * 8 / 2 */
+const TORQUE_SHIFT = 2;
+/** Tether delta: sample sum >> 2 */
+const TETHER_SHIFT = 2;
+
 // ---------------------------------------------------------------------------
 // Drag — applied each physics step.
 //   X axis: force -= force >> 6  ->  *= 63/64
@@ -213,11 +242,23 @@ export interface ThrustState {
   podX: number;
   podY: number;
 
-  /** Current level (0-based, 0-5) — controls gravity */
-  level: number;
+  /**
+   * Gravity as a fractional byte (INT is always 0), from the level's
+   * `gravity` — level_gravity_FRAC_table in the original
+   */
+  gravityFrac: number;
 
   /** When true, gravity pulls upward instead of downward */
   reverseGravity: boolean;
+
+  /** When true, use the bit-exact INT/FRAC integer model (see "Fixed-point mode") */
+  fixedPoint: boolean;
+}
+
+/** Everything needed to recreate a ThrustPhysics exactly, including its private tick slot. */
+export interface ThrustPhysicsSnapshot {
+  state: ThrustState;
+  tickCounter: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -227,9 +268,6 @@ export interface ThrustState {
 export class ThrustPhysics {
   public state: ThrustState;
 
-  /** Leftover time from previous frame, carried into the next */
-  private accumulator = 0;
-
   /** Internal tick counter, replicates level_tick_counter */
   private tickCounter = 0;
 
@@ -264,8 +302,9 @@ export class ThrustPhysics {
       shipY: 0,
       podX: 0,
       podY: 0,
-      level: 0,
+      gravityFrac: 0x05,
       reverseGravity: false,
+      fixedPoint: false,
       ...initialState,
     };
   }
@@ -275,8 +314,7 @@ export class ThrustPhysics {
   // -----------------------------------------------------------------------
 
   private get gravity(): number {
-    const idx = Math.min(this.state.level, LEVEL_GRAVITY_FRAC.length - 1);
-    const gravFrac = LEVEL_GRAVITY_FRAC[idx];
+    const gravFrac = this.state.gravityFrac;
     if (this.state.reverseGravity) {
       // Ones complement + INT=$FF: small negative value (pulls upward)
       return q78ToFloat(0xFF, gravFrac ^ 0xFF);
@@ -284,6 +322,11 @@ export class ThrustPhysics {
     return gravFrac / 256;
   }
 
+  /** Gravity as a raw INT/FRAC pair */
+  private get gravityRaw(): number {
+    return toRaw(this.gravity);
+  }
+
   private get massShift(): number {
     return this.state.podAttached ? MASS_SHIFT_SHIP_AND_POD : MASS_SHIFT_SHIP;
   }
@@ -294,27 +337,10 @@ export class ThrustPhysics {
   }
 
   // -----------------------------------------------------------------------
-  // Main update
+  // Main update — one original tick
   // -----------------------------------------------------------------------
 
-  update(dtSeconds: number, input: ThrustInput): void {
-    const dt = Math.min(dtSeconds, 0.1);
-
-    this.accumulator += dt;
-    while (this.accumulator >= ORIGINAL_FRAME_S) {
-      this.accumulator -= ORIGINAL_FRAME_S;
-      this.tickStep(input);
-    }
-
-    // Re-derive positions every frame for smooth rendering
-    this.derivePositions();
-  }
-
-  // -----------------------------------------------------------------------
-  // Internal — per-tick step
-  // -----------------------------------------------------------------------
-
-  private tickStep(input: ThrustInput): void {
+  tick(input: ThrustInput): void {
     const slot = this.tickCounter & TICK_SLOT_MASK;
     this.tickCounter = (this.tickCounter + 1) & BYTE_MASK;
 
@@ -325,6 +351,18 @@ export class ThrustPhysics {
       s.angle = ((s.angle + input.rotate) + 32) % 32;
     }
 
+    if (s.fixedPoint) {
+      this.fixedPointStep(slot, input);
+    } else {
+      this.floatStep(slot, input);
+    }
+
+    // --- Step 3: Derive ship/pod positions (every tick) ---
+    this.derivePositions();
+  }
+
+  private floatStep(slot: number, input: ThrustInput): void {
+    const s = this.state;
     const isActiveSlot = ThrustPhysics.ACTIVE_SLOTS.has(slot);
 
     // --- Step 1: Force calculation (active slots only — 6 of every 16 ticks) ---
@@ -367,9 +405,55 @@ export class ThrustPhysics {
     if (s.podAttached) {
       this.integrateAngularVelocity();
     }
+  }
 
-    // --- Step 3: Derive ship/pod positions (every tick) ---
-    this.derivePositions();
+  /**
+   * Steps 1 and 2 on INT/FRAC pairs. Values are read back from the state
+   * each tick, so positions set by the game (spawn points, attach) are
+   * quantised to 1/256 on entry; after that every operation is exact.
+   */
+  private fixedPointStep(slot: number, input: ThrustInput): void {
+    const s = this.state;
+    const pod = s.pod;
+    let forceX = wrap16(toRaw(s.forceX));
+    let forceY = wrap16(toRaw(s.forceY));
+    let angularVel = wrap16(toRaw(pod.angularVelocity));
+
+    if (ThrustPhysics.ACTIVE_SLOTS.has(slot)) {
+      const angleIdx = s.angle & ANGLE_MASK;
+
+      forceY = wrap16(forceY + this.gravityRaw);
+
+      if (input.thrust) {
+        forceY = wrap16(forceY + (ANGLE_Y_RAW[angleIdx] >> this.massShift));
+        forceX = wrap16(forceX + (ANGLE_X_RAW[angleIdx] >> this.massShift));
+      }
+
+      if (s.podAttached && input.thrust && !ThrustPhysics.TORQUE_SKIP_SLOTS.has(slot)) {
+        const diffAngle = (angleIdx - pod.angleShipToPod) & ANGLE_MASK;
+        angularVel = wrap16(angularVel + (ANGLE_X_RAW[diffAngle] << TORQUE_SHIFT));
+      }
+
+      if (s.podAttached) {
+        angularVel -= angularVel >> ANGULAR_DRAG_SHIFT;
+      }
+
+      forceX -= forceX >> DRAG_SHIFT_X;
+      forceY -= forceY >> DRAG_SHIFT_Y;
+    }
+
+    s.forceX = s.vx = fromRaw(forceX);
+    s.forceY = s.vy = fromRaw(forceY);
+    s.x = fromRaw(toRaw(s.x) + forceX);
+    s.y = fromRaw(toRaw(s.y) + forceY);
+    pod.angularVelocity = fromRaw(angularVel);
+
+    if (s.podAttached) {
+      // angleShipToPod : angleFrac : sub-fraction, carried as one 21-bit value
+      const angle = ((pod.angleShipToPod << ANGLE_RAW_INDEX_SHIFT) + toRaw(pod.angleFrac) + angularVel) & ANGLE_RAW_MASK;
+      pod.angleShipToPod = angle >> ANGLE_RAW_INDEX_SHIFT;
+      pod.angleFrac = fromRaw(angle & ((1 << ANGLE_RAW_INDEX_SHIFT) - 1));
+    }
   }
 
   // -----------------------------------------------------------------------
@@ -448,6 +532,9 @@ export class ThrustPhysics {
     }
 
     // Arithmetic shift right by 2 (sign-preserving divide by 4)
+    if (this.state.fixedPoint) {
+      return { dx: fromRaw(toRaw(dxAcc) >> TETHER_SHIFT), dy: fromRaw(toRaw(dyAcc) >> TETHER_SHIFT) };
+    }
     return { dx: dxAcc / 4, dy: dyAcc / 4 };
   }
 
@@ -549,8 +636,13 @@ export class ThrustPhysics {
     s.y = s.shipY - dy;
 
     // Halve forces (arithmetic shift right — matches original)
-    s.forceX /= 2;
-    s.forceY /= 2;
+    if (s.fixedPoint) {
+      s.forceX = fromRaw(toRaw(s.forceX) >> 1);
+      s.forceY = fromRaw(toRaw(s.forceY) >> 1);
+    } else {
+      s.forceX /= 2;
+      s.forceY /= 2;
+    }
     s.pod.angularVelocity = 0;
 
     this.derivePositions();
@@ -572,7 +664,7 @@ export class ThrustPhysics {
   // Utilities
   // -----------------------------------------------------------------------
 
-  /** Reset all motion, keeping position and level. */
+  /** Reset all motion, keeping position and gravity. */
   resetMotion(): void {
     this.state.vx = 0;
     this.state.vy = 0;
@@ -580,11 +672,28 @@ export class ThrustPhysics {
     this.state.forceY = 0;
     this.state.pod.angularVelocity = 0;
     this.state.pod.angleFrac = 0;
-    this.accumulator = 0;
   }
 
-  /** Set the level (0-5), which controls gravity strength. */
-  setLevel(level: number): void {
-    this.state.level = Math.max(0, Math.min(5, level));
+  /** Set the gravity strength (fractional byte, 0-255). */
+  setGravity(gravityFrac: number): void {
+    this.state.gravityFrac = Math.max(0, Math.min(0xFF, gravityFrac));
+  }
+
+  // -----------------------------------------------------------------------
+  // Snapshots (save states)
+  // -----------------------------------------------------------------------
+
+  /** Deep copy of the full physics state, including the tick slot. */
+  snapshot(): ThrustPhysicsSnapshot {
+    return {
+      state: { ...this.state, pod: { ...this.state.pod } },
+      tickCounter: this.tickCounter,
+    };
+  }
+
+  static fromSnapshot(snapshot: ThrustPhysicsSnapshot): ThrustPhysics {
+    const physics = new ThrustPhysics({ ...snapshot.state, pod: { ...snapshot.state.pod } });
+    physics.tickCounter = snapshot.tickCounter;
+    return physics;
   }
 }
\ No newline at end of file
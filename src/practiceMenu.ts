@@ -0,0 +1,167 @@
+import {drawText, bbcMicroColours} from "./rendering";
+import {levels} from "./levels";
+import {GameState, GameCheats, INITIAL_LIVES, createGame, createGameCheats, startAtSpawnPoint} from "./game";
+import {randomSeed} from "./rng";
+
+// ---------------------------------------------------------------------------
+// Practice mode: any level, any checkpoint, optional assists
+// ---------------------------------------------------------------------------
+//
+// The menu picks the level, the spawn point to start from (with or
+// without the pod, as after a death carrying it), the game modifiers and
+// the practice assists. Practice games aren't recorded and never reach
+// the high score table; main.ts sends a finished one back to this menu.
+
+const CHAR_W = 8;
+const TITLE_ROW = 4;
+const FIRST_ROW = 7;
+const LABEL_COLUMN = 3;
+const VALUE_COLUMN = 31;
+
+export interface PracticeSettings {
+  levelNumber: number;
+  /** Index into the level's spawnPoints */
+  spawnIndex: number;
+  withPod: boolean;
+  reverseGravity: boolean;
+  invisibleLandscape: boolean;
+  cheats: GameCheats;
+}
+
+export interface PracticeMenuState {
+  settings: PracticeSettings;
+  /** Highlighted row */
+  row: number;
+}
+
+interface PracticeRow {
+  label: string;
+  value(settings: PracticeSettings): string;
+  /** Step the setting one place left (-1) or right (+1) */
+  change(settings: PracticeSettings, direction: number): void;
+}
+
+function wrap(value: number, direction: number, count: number): number {
+  return (value + direction + count) % count;
+}
+
+function onOff(on: boolean): string {
+  return on ? "ON" : "OFF";
+}
+
+function toggleRow(label: string, key: "withPod" | "reverseGravity" | "invisibleLandscape"): PracticeRow {
+  return {
+    label,
+    value: s => onOff(s[key]),
+    change: s => { s[key] = !s[key]; },
+  };
+}
+
+function cheatRow(label: string, key: keyof GameCheats): PracticeRow {
+  return {
+    label,
+    value: s => onOff(s.cheats[key]),
+    change: s => { s.cheats[key] = !s.cheats[key]; },
+  };
+}
+
+const ROWS: readonly PracticeRow[] = [
+  {
+    label: "LEVEL",
+    value: s => String(s.levelNumber + 1),
+    change: (s, direction) => {
+      s.levelNumber = wrap(s.levelNumber, direction, levels.length);
+      s.spawnIndex = Math.min(s.spawnIndex, levels[s.levelNumber].spawnPoints.length - 1);
+    },
+  },
+  {
+    label: "CHECKPOINT",
+    value: s => s.spawnIndex === 0 ? "START" : String(s.spawnIndex),
+    change: (s, direction) => {
+      s.spawnIndex = wrap(s.spawnIndex, direction, levels[s.levelNumber].spawnPoints.length);
+    },
+  },
+  toggleRow("CARRYING POD", "withPod"),
+  toggleRow("REVERSE GRAVITY", "reverseGravity"),
+  toggleRow("INVISIBLE LANDSCAPE", "invisibleLandscape"),
+  cheatRow("INFINITE FUEL", "infiniteFuel"),
+  cheatRow("INFINITE LIVES", "infiniteLives"),
+  cheatRow("INVULNERABLE SHIELD", "invulnerableShield"),
+  cheatRow("TURRETS DISABLED", "turretsDisabled"),
+];
+
+export function createPracticeMenu(): PracticeMenuState {
+  return {
+    settings: {
+      levelNumber: 0,
+      spawnIndex: 0,
+      withPod: false,
+      reverseGravity: false,
+      invisibleLandscape: false,
+      cheats: createGameCheats(),
+    },
+    row: 0,
+  };
+}
+
+/**
+ * Up/down choose a row, left/right (or Enter) change it. Returns true if
+ * the key was used; starting and leaving are up to the caller.
+ */
+export function handlePracticeMenuKey(menu: PracticeMenuState, code: string): boolean {
+  switch (code) {
+    case "ArrowUp":
+      menu.row = wrap(menu.row, -1, ROWS.length);
+      return true;
+    case "ArrowDown":
+      menu.row = wrap(menu.row, 1, ROWS.length);
+      return true;
+    case "ArrowLeft":
+      ROWS[menu.row].change(menu.settings, -1);
+      return true;
+    case "ArrowRight":
+    case "Enter":
+      ROWS[menu.row].change(menu.settings, 1);
+      return true;
+  }
+  return false;
+}
+
+/** A new game set up as the menu describes, teleporting in at the chosen checkpoint. */
+export function createPracticeGame(settings: PracticeSettings): GameState {
+  const game = createGame(levels[settings.levelNumber], settings.levelNumber, {
+    lives: INITIAL_LIVES,
+    score: 0,
+    missionNumber: 0,
+    reverseGravity: settings.reverseGravity,
+    invisibleLandscape: settings.invisibleLandscape,
+    seed: randomSeed(),
+    cheats: { ...settings.cheats },
+  });
+  startAtSpawnPoint(game, settings.spawnIndex, settings.withPod);
+  return game;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function drawCentered(ctx: CanvasRenderingContext2D, text: string, row: number, colour: string, screenWidth: number): void {
+  drawText(ctx, text, Math.floor((screenWidth - text.length * CHAR_W) / 2), row * CHAR_W, colour);
+}
+
+export function renderPracticeMenu(ctx: CanvasRenderingContext2D, menu: PracticeMenuState, screenWidth: number): void {
+  drawCentered(ctx, "PRACTICE", TITLE_ROW, bbcMicroColours.green, screenWidth);
+
+  ROWS.forEach((row, i) => {
+    const selected = i === menu.row;
+    const y = (FIRST_ROW + i * 2) * CHAR_W;
+    drawText(ctx, row.label, LABEL_COLUMN * CHAR_W, y, selected ? bbcMicroColours.white : bbcMicroColours.red);
+    drawText(ctx, row.value(menu.settings), VALUE_COLUMN * CHAR_W, y, selected ? bbcMicroColours.white : bbcMicroColours.yellow);
+  });
+
+  const helpRow = FIRST_ROW + ROWS.length * 2 + 1;
+  drawCentered(ctx, "UP/DOWN CHOOSE  LEFT/RIGHT CHANGE", helpRow, bbcMicroColours.cyan, screenWidth);
+  drawCentered(ctx, "SPACE START  ESCAPE BACK", helpRow + 1, bbcMicroColours.cyan, screenWidth);
+  drawCentered(ctx, "PRACTICE GAMES ARE NOT SCORED", helpRow + 3, bbcMicroColours.magenta, screenWidth);
+}
@@ -18,8 +18,11 @@ import { Level, TurretDirection, SwitchDirection } from "./levels";
 import { fontData, charIndex, CHAR_W, CHAR_H } from "./font";
 import { TurretSprites, SpriteCenter, SwitchSprites } from "./shipSprites";
 
+/** The two context members fillPolygon needs — satisfied by a real canvas or the collision buffer. */
+export type FillTarget = Pick<CanvasRenderingContext2D, "fillStyle" | "fillRect">;
+
 export function fillPolygon(
-  ctx: CanvasRenderingContext2D,
+  ctx: FillTarget,
   points: Point[],
   color: string,
   parityOffset: number = 0
@@ -92,8 +95,20 @@ export function rotationToSpriteIndex(radians: number): number {
   return Math.round(normalized / (twoPi / 32)) % 32;
 }
 
-const tintCanvas = document.createElement('canvas');
-const tintCtx = tintCanvas.getContext('2d', { willReadFrequently: true })!;
+// Scratch canvas for sprite recolouring. Created on first use so this module
+// can be imported where there is no DOM (e.g. the headless simulation).
+let tintCanvas: HTMLCanvasElement | null = null;
+let tintCtx: CanvasRenderingContext2D;
+
+function getTintCanvas(width: number, height: number): HTMLCanvasElement {
+  if (!tintCanvas) {
+    tintCanvas = document.createElement('canvas');
+    tintCtx = tintCanvas.getContext('2d', { willReadFrequently: true })!;
+  }
+  tintCanvas.width = width;
+  tintCanvas.height = height;
+  return tintCanvas;
+}
 
 function parseHexColor(hex: string): [number, number, number] {
   const v = parseInt(hex.slice(1), 16);
@@ -107,8 +122,7 @@ function drawWhiteReplacedSprite(
   y: number,
   color: string,
 ) {
-  tintCanvas.width = sprite.width;
-  tintCanvas.height = sprite.height;
+  const tint = getTintCanvas(sprite.width, sprite.height);
   tintCtx.clearRect(0, 0, sprite.width, sprite.height);
   tintCtx.drawImage(sprite, 0, 0);
   const imageData = tintCtx.getImageData(0, 0, sprite.width, sprite.height);
@@ -122,7 +136,7 @@ function drawWhiteReplacedSprite(
     }
   }
   tintCtx.putImageData(imageData, 0, 0);
-  ctx.drawImage(tintCanvas, x, y);
+  ctx.drawImage(tint, x, y);
 }
 
 /**
@@ -139,8 +153,7 @@ export function drawRemappedSprite(
   colour3: string,
   colour2: string,
 ) {
-  tintCanvas.width = sprite.width;
-  tintCanvas.height = sprite.height;
+  const tint = getTintCanvas(sprite.width, sprite.height);
   tintCtx.clearRect(0, 0, sprite.width, sprite.height);
   tintCtx.drawImage(sprite, 0, 0);
   const imageData = tintCtx.getImageData(0, 0, sprite.width, sprite.height);
@@ -164,7 +177,7 @@ export function drawRemappedSprite(
     }
   }
   tintCtx.putImageData(imageData, 0, 0);
-  ctx.drawImage(tintCanvas, x, y);
+  ctx.drawImage(tint, x, y);
 }
 
 function getTurretSprite(
@@ -310,15 +323,18 @@ export function renderLevel(
   if (!hideShip) {
     ctx.drawImage(sprite, shipDrawX, shipDrawY);
 
-    if (shieldSprite) {
-      // Shield is centered on the canvas (same size as ship sprites)
-      const shieldDrawX = Math.round(screenX - shieldSprite.width / 2);
-      const shieldDrawY = Math.round(screenY - shieldSprite.height / 2);
-      drawWhiteReplacedSprite(ctx, shieldSprite, shieldDrawX, shieldDrawY, bbcMicroColours.green);
-    }
+    if (shieldSprite) drawShield(ctx, shieldSprite, screenX, screenY);
   }
 }
 
+/** The shield around a ship whose centre is at (screenX, screenY). */
+export function drawShield(ctx: CanvasRenderingContext2D, shieldSprite: ImageBitmap, screenX: number, screenY: number): void {
+  // Shield is centered on the canvas (same size as ship sprites)
+  const shieldDrawX = Math.round(screenX - shieldSprite.width / 2);
+  const shieldDrawY = Math.round(screenY - shieldSprite.height / 2);
+  drawWhiteReplacedSprite(ctx, shieldSprite, shieldDrawX, shieldDrawY, bbcMicroColours.green);
+}
+
 export function drawStatusBar(
   ctx: CanvasRenderingContext2D,
   screenW: number,
@@ -408,6 +424,22 @@ export function drawStatusBar(
 
 const FONT_MSB = 0x80;
 
+/** Split text the font can draw into lines of at most `width` characters. */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.replace(/[^A-Za-z0-9:/\-. ]/g, "").split(/\s+/)) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
 export function drawText(
   ctx: CanvasRenderingContext2D,
   text: string,
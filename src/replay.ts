@@ -0,0 +1,270 @@
+/**
+ * Input recording and replay for Thrust.
+ *
+ * A recording captures everything needed to reproduce a game session:
+ * the starting conditions (level, modifiers, carried-over lives/score,
+ * RNG seed) plus the GameInput passed to every tick() call. Every tick
+ * is the same fixed length, so no timing needs storing, and because all
+ * gameplay randomness flows from the seeded RNG, feeding the same inputs
+ * back into tick() reproduces the same game at any frame rate. Every
+ * tick() call is recorded, including those that only advance the
+ * message and teleport timers.
+ *
+ * Playback works exactly like demo mode: the recorded bitmask replaces
+ * gameInputFromKeys() and the normal engine does the rest.
+ *
+ * File format (JSON, versioned):
+ *   {
+ *     format: "thrust-replay", version: 4, build: "1.0.0",
+ *     levelNumber, reverseGravity, invisibleLandscape,
+ *     lives, score, missionNumber, seed, fixedPointPhysics, twoPlayer,
+ *     ticks:  number of recorded tick() calls,
+ *     inputs: base64 Uint8Array   — INPUT_* bitmask per tick
+ *   }
+ */
+
+import { version as BUILD_VERSION } from "../package.json";
+import { levels } from "./levels";
+import { GameState, createGame, createPlayerTurns, INITIAL_LIVES } from "./game";
+import { GameInput, gameInputFromBitmask, gameInputToBitmask } from "./input";
+
+export const REPLAY_FORMAT = "thrust-replay";
+export const REPLAY_FORMAT_VERSION = 4;
+
+const INPUT_BITS_MASK = 0x1F;
+const REPLAY_MIME_TYPE = "application/json";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Starting conditions — enough to rebuild the GameState via createGame(). */
+export interface ReplayStart {
+  levelNumber: number;
+  reverseGravity: boolean;
+  invisibleLandscape: boolean;
+  lives: number;
+  score: number;
+  missionNumber: number;
+  seed: number;
+  /** Bit-exact integer physics (see ThrustPhysics "Fixed-point mode") */
+  fixedPointPhysics: boolean;
+  /** Two players taking turns, player 2 starting fresh on level 0 */
+  twoPlayer: boolean;
+}
+
+export interface Recording {
+  start: ReplayStart;
+  /** Build version that produced the recording */
+  build: string;
+  /** INPUT_* bitmask per tick() call */
+  inputs: number[];
+}
+
+export interface ReplayPlayer {
+  recording: Recording;
+  /** Index of the next tick to play back */
+  index: number;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** Starting conditions for a fresh game on the given level. */
+export function newGameStart(levelNumber: number, seed: number, twoPlayer: boolean = false): ReplayStart {
+  return {
+    levelNumber,
+    reverseGravity: false,
+    invisibleLandscape: false,
+    lives: INITIAL_LIVES,
+    score: 0,
+    missionNumber: 0,
+    seed,
+    fixedPointPhysics: false,
+    twoPlayer,
+  };
+}
+
+/** Create the GameState a recording starts from. */
+export function createGameFromReplayStart(start: ReplayStart): GameState {
+  return createGame(levels[start.levelNumber], start.levelNumber, {
+    lives: start.lives,
+    score: start.score,
+    missionNumber: start.missionNumber,
+    reverseGravity: start.reverseGravity,
+    invisibleLandscape: start.invisibleLandscape,
+    seed: start.seed,
+    fixedPointPhysics: start.fixedPointPhysics,
+    turns: start.twoPlayer ? createPlayerTurns() : undefined,
+  });
+}
+
+/**
+ * Start a new game and a recording of it. The game is created here so
+ * the recorded seed is the one the RNG actually started from.
+ */
+export function beginRecording(start: ReplayStart): { game: GameState; recording: Recording } {
+  return {
+    game: createGameFromReplayStart(start),
+    recording: { start: { ...start }, build: BUILD_VERSION, inputs: [] },
+  };
+}
+
+/** Append one tick() call to the recording. */
+export function recordTick(recording: Recording, input: GameInput): void {
+  recording.inputs.push(gameInputToBitmask(input));
+}
+
+/** Remove the last `count` recorded tick() calls (after rewinding the game). */
+export function dropRecordedTicks(recording: Recording, count: number): void {
+  recording.inputs.length = Math.max(0, recording.inputs.length - count);
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+export function createReplayPlayer(recording: Recording): { game: GameState; player: ReplayPlayer } {
+  return {
+    game: createGameFromReplayStart(recording.start),
+    player: { recording, index: 0 },
+  };
+}
+
+/** Input for the next recorded tick, or null once the recording is exhausted. */
+export function nextReplayTick(player: ReplayPlayer): GameInput | null {
+  const { inputs } = player.recording;
+  if (player.index >= inputs.length) return null;
+  return gameInputFromBitmask(inputs[player.index++]);
+}
+
+// ---------------------------------------------------------------------------
+// Serialisation
+// ---------------------------------------------------------------------------
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function base64ToBytes(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function serializeRecording(recording: Recording): string {
+  return JSON.stringify({
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    build: recording.build,
+    ...recording.start,
+    ticks: recording.inputs.length,
+    inputs: bytesToBase64(Uint8Array.from(recording.inputs)),
+  });
+}
+
+function expectNumber(obj: Record<string, unknown>, key: string): number {
+  const v = obj[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new Error(`Replay field "${key}" must be a number`);
+  }
+  return v;
+}
+
+function expectBoolean(obj: Record<string, unknown>, key: string): boolean {
+  const v = obj[key];
+  if (typeof v !== "boolean") throw new Error(`Replay field "${key}" must be a boolean`);
+  return v;
+}
+
+function expectString(obj: Record<string, unknown>, key: string): string {
+  const v = obj[key];
+  if (typeof v !== "string") throw new Error(`Replay field "${key}" must be a string`);
+  return v;
+}
+
+/** Parse and validate a replay file. Throws an Error describing the first problem found. */
+export function parseRecording(text: string): Recording {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+  if (typeof raw !== "object" || raw === null) throw new Error("Replay file is not an object");
+  const obj = raw as Record<string, unknown>;
+
+  if (obj.format !== REPLAY_FORMAT) throw new Error("Not a Thrust replay file");
+  const version = expectNumber(obj, "version");
+  if (version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version ${version} (expected ${REPLAY_FORMAT_VERSION})`);
+  }
+
+  const levelNumber = expectNumber(obj, "levelNumber");
+  if (!Number.isInteger(levelNumber) || levelNumber < 0 || levelNumber >= levels.length) {
+    throw new Error(`Replay level ${levelNumber} is out of range`);
+  }
+
+  const ticks = expectNumber(obj, "ticks");
+  const inputs = Array.from(base64ToBytes(expectString(obj, "inputs")));
+  if (inputs.length !== ticks) {
+    throw new Error(`Replay data is truncated (expected ${ticks} ticks)`);
+  }
+  if (inputs.some(b => (b & ~INPUT_BITS_MASK) !== 0)) {
+    throw new Error("Replay contains unknown input bits");
+  }
+
+  return {
+    start: {
+      levelNumber,
+      reverseGravity: expectBoolean(obj, "reverseGravity"),
+      invisibleLandscape: expectBoolean(obj, "invisibleLandscape"),
+      lives: expectNumber(obj, "lives"),
+      score: expectNumber(obj, "score"),
+      missionNumber: expectNumber(obj, "missionNumber"),
+      seed: expectNumber(obj, "seed"),
+      fixedPointPhysics: expectBoolean(obj, "fixedPointPhysics"),
+      twoPlayer: expectBoolean(obj, "twoPlayer"),
+    },
+    build: expectString(obj, "build"),
+    inputs,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Browser file helpers
+// ---------------------------------------------------------------------------
+
+/** Offer the recording to the user as a downloadable file. */
+export function downloadRecording(recording: Recording): void {
+  const blob = new Blob([serializeRecording(recording)], { type: REPLAY_MIME_TYPE });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `thrust-level${recording.start.levelNumber}-${recording.start.seed}.thrust-replay.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Prompt the user to pick a replay file. Must be called from a user
+ * gesture (key or click handler). Resolves to null if nothing was chosen.
+ */
+export function pickRecordingFile(): Promise<Recording | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,application/json";
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) { resolve(null); return; }
+      file.text().then(parseRecording).then(resolve, reject);
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
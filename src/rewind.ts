@@ -0,0 +1,138 @@
+/**
+ * Rewind buffer for practice play.
+ *
+ * Keeps the last few seconds of play so holding the rewind key steps the
+ * game backwards one tick per frame, like an emulator's rewind.
+ *
+ * Memory stays bounded because full states are only stored sparsely: the
+ * history is a list of segments, each a keyframe snapshot (see saveState)
+ * followed by the input bitmask of every tick() call after it.
+ * Because tick() is deterministic, any state inside a segment can be
+ * rebuilt by restoring its keyframe and replaying the inputs. When rewind
+ * first reaches a segment it is decoded once into per-tick snapshots,
+ * which are then popped one per frame.
+ */
+
+import { GameState, tick, GAME_TICK_S } from "./game";
+import { GameInput, gameInputFromBitmask, gameInputToBitmask } from "./input";
+import { GameSnapshot, snapshotGame, restoreGame } from "./saveState";
+
+/** Seconds of history kept */
+export const REWIND_SECONDS = 10;
+/** Ticks of play between keyframes (half a second) */
+const KEYFRAME_INTERVAL_TICKS = Math.round(0.5 / GAME_TICK_S);
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface RewindSegment {
+  /** State before the segment's first tick */
+  keyframe: GameSnapshot;
+  /** INPUT_* bitmask per tick() call */
+  inputs: number[];
+}
+
+interface DecodedSegment {
+  segment: RewindSegment;
+  /** states[i] is the state before inputs[i] was applied */
+  states: GameSnapshot[];
+}
+
+export interface RewindBuffer {
+  capacityTicks: number;
+  /** Oldest first */
+  segments: RewindSegment[];
+  /** Game the history belongs to — a different game starts a new history */
+  game: GameState | null;
+  /** Segment currently being rewound through, decoded */
+  decoded: DecodedSegment | null;
+}
+
+export function createRewindBuffer(capacitySeconds: number = REWIND_SECONDS): RewindBuffer {
+  return { capacityTicks: Math.round(capacitySeconds / GAME_TICK_S), segments: [], game: null, decoded: null };
+}
+
+export function clearRewindBuffer(buffer: RewindBuffer): void {
+  buffer.segments = [];
+  buffer.game = null;
+  buffer.decoded = null;
+}
+
+function availableTicks(buffer: RewindBuffer): number {
+  return buffer.segments.reduce((sum, s) => sum + s.inputs.length, 0);
+}
+
+/** Seconds of play that can currently be rewound. */
+export function rewindAvailable(buffer: RewindBuffer): number {
+  return availableTicks(buffer) * GAME_TICK_S;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** Record a tick() call. Must be called before tick() so the keyframe is the pre-tick state. */
+export function recordRewindTick(buffer: RewindBuffer, game: GameState, input: GameInput): void {
+  if (buffer.game !== game) {
+    clearRewindBuffer(buffer);
+    buffer.game = game;
+  }
+  buffer.decoded = null;
+
+  const segments = buffer.segments;
+  let current = segments[segments.length - 1];
+  if (!current || current.inputs.length >= KEYFRAME_INTERVAL_TICKS) {
+    current = { keyframe: snapshotGame(game), inputs: [] };
+    segments.push(current);
+  }
+  current.inputs.push(gameInputToBitmask(input));
+
+  // Drop the oldest segment once the rest already cover the capacity
+  let total = availableTicks(buffer);
+  while (segments.length > 1 && total - segments[0].inputs.length >= buffer.capacityTicks) {
+    total -= segments[0].inputs.length;
+    segments.shift();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rewinding
+// ---------------------------------------------------------------------------
+
+function decodeSegment(segment: RewindSegment): DecodedSegment {
+  const game = restoreGame(segment.keyframe);
+  const states = [segment.keyframe];
+  for (let i = 0; i < segment.inputs.length - 1; i++) {
+    tick(game, gameInputFromBitmask(segment.inputs[i]));
+    states.push(snapshotGame(game));
+  }
+  return { segment, states };
+}
+
+/**
+ * Step back one tick() call of `game`. Returns the game as it was before
+ * that call, or null once its history is exhausted. The returned state
+ * replaces the caller's game; recording carries on from it.
+ */
+export function rewindTick(buffer: RewindBuffer, game: GameState): GameState | null {
+  if (buffer.game !== game) return null;
+  const segments = buffer.segments;
+  const segment = segments[segments.length - 1];
+  if (!segment) return null;
+
+  if (buffer.decoded?.segment !== segment) {
+    buffer.decoded = decodeSegment(segment);
+  }
+  const snapshot = buffer.decoded.states.pop()!;
+  segment.inputs.pop();
+
+  if (segment.inputs.length === 0) {
+    segments.pop();
+    buffer.decoded = null;
+  }
+
+  const rewound = restoreGame(snapshot);
+  buffer.game = rewound;
+  return rewound;
+}
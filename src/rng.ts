@@ -0,0 +1,65 @@
+/**
+ * Seedable pseudo-random number generator for the game simulation.
+ *
+ * Modelled on the 6502 `rnd` routine: a 16-bit shift register that is
+ * clocked eight times per call, with the low byte returned as the
+ * result. Every gameplay randomness source (turret firing, explosion
+ * debris, star field, generator recharge, demo timers) draws from the
+ * single RngState carried on GameState, so a given seed plus input
+ * stream always reproduces the same game.
+ */
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SEED_MASK = 0xFFFF;
+const SEED_HIGH_BIT = 0x8000;
+const BYTE_MASK = 0xFF;
+const BITS_PER_CALL = 8;
+
+/**
+ * Feedback taps (x^16 + x^5 + x^3 + x^2 + 1). Maximal length: the
+ * register visits all 65535 non-zero states before repeating.
+ */
+const FEEDBACK_TAPS = 0x002D;
+
+/** Substituted for a zero seed, which would lock the register at 0. */
+const DEFAULT_SEED = 0x5A17;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+export interface RngState {
+  /** 16-bit shift register contents — never zero */
+  seed: number;
+}
+
+export function createRng(seed: number): RngState {
+  return { seed: (seed & SEED_MASK) || DEFAULT_SEED };
+}
+
+/**
+ * Pick a fresh seed for a new game. This is the only place the
+ * simulation consults Math.random().
+ */
+export function randomSeed(): number {
+  return 1 + Math.floor(Math.random() * SEED_MASK);
+}
+
+// ---------------------------------------------------------------------------
+// Generation
+// ---------------------------------------------------------------------------
+
+/** Advance the register and return a byte in the range 0–255. */
+export function rnd(state: RngState): number {
+  let s = state.seed;
+  for (let i = 0; i < BITS_PER_CALL; i++) {
+    const carry = (s & SEED_HIGH_BIT) !== 0;
+    s = (s << 1) & SEED_MASK;
+    if (carry) s ^= FEEDBACK_TAPS;
+  }
+  state.seed = s;
+  return s & BYTE_MASK;
+}
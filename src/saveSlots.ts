@@ -0,0 +1,128 @@
+import {drawText, bbcMicroColours} from "./rendering";
+import {GameState} from "./game";
+import {serializeGame, deserializeGame} from "./saveState";
+
+// ---------------------------------------------------------------------------
+// Quick-save slots (localStorage)
+// ---------------------------------------------------------------------------
+
+export const SAVE_SLOT_COUNT = 4;
+
+const STORAGE_KEY_PREFIX = "thrust-save-slot-";
+const NOTICE_DURATION = 2.0; // seconds the slot panel stays up after a save/load
+
+export interface SaveSlotState {
+  /** Slot used by quick-save and quick-load (0-based) */
+  selected: number;
+  occupied: boolean[];
+  /** Short message shown in the slot panel ("SAVED", "EMPTY", ...) */
+  notice: string;
+  noticeTimer: number;
+}
+
+function storageKey(slot: number): string {
+  return STORAGE_KEY_PREFIX + (slot + 1);
+}
+
+function isOccupied(slot: number): boolean {
+  try {
+    return localStorage.getItem(storageKey(slot)) !== null;
+  } catch {
+    return false;
+  }
+}
+
+export function createSaveSlotState(): SaveSlotState {
+  const occupied: boolean[] = [];
+  for (let i = 0; i < SAVE_SLOT_COUNT; i++) occupied.push(isOccupied(i));
+  return { selected: 0, occupied, notice: "", noticeTimer: 0 };
+}
+
+function showNotice(slots: SaveSlotState, notice: string): void {
+  slots.notice = notice;
+  slots.noticeTimer = NOTICE_DURATION;
+}
+
+export function quickSave(slots: SaveSlotState, game: GameState): void {
+  try {
+    localStorage.setItem(storageKey(slots.selected), serializeGame(game));
+    slots.occupied[slots.selected] = true;
+    showNotice(slots, "SAVED");
+  } catch {
+    showNotice(slots, "SAVE FAILED");
+  }
+}
+
+/** Returns the game saved in the selected slot, or null if it is empty or unreadable */
+export function quickLoad(slots: SaveSlotState): GameState | null {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(storageKey(slots.selected));
+  } catch {
+    // treated as empty
+  }
+  if (raw === null) {
+    showNotice(slots, "EMPTY");
+    return null;
+  }
+  try {
+    const game = deserializeGame(raw);
+    showNotice(slots, "LOADED");
+    return game;
+  } catch (err) {
+    console.warn(`Save slot ${slots.selected + 1}:`, err);
+    showNotice(slots, "UNREADABLE");
+    return null;
+  }
+}
+
+export function selectNextSlot(slots: SaveSlotState): void {
+  slots.selected = (slots.selected + 1) % SAVE_SLOT_COUNT;
+  showNotice(slots, "");
+}
+
+export function tickSaveSlotNotice(slots: SaveSlotState, dt: number): void {
+  if (slots.noticeTimer > 0) {
+    slots.noticeTimer = Math.max(0, slots.noticeTimer - dt);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Slot panel
+// ---------------------------------------------------------------------------
+
+const CHAR_W = 8;
+const PANEL_ROW = 3;
+
+/**
+ * Draws the slot list ("SLOT [1] 2 3 4") plus the latest notice while the
+ * notice timer is running. Empty slots are drawn dimmed.
+ */
+export function renderSaveSlots(
+  ctx: CanvasRenderingContext2D,
+  slots: SaveSlotState,
+  screenWidth: number,
+): void {
+  if (slots.noticeTimer <= 0) return;
+
+  const label = "SLOT ";
+  const slotW = 4 * CHAR_W;
+  const panelW = (label.length + 1) * CHAR_W + SAVE_SLOT_COUNT * slotW;
+  let x = Math.floor((screenWidth - panelW) / 2);
+  const y = PANEL_ROW * CHAR_W;
+
+  drawText(ctx, label, x, y, bbcMicroColours.yellow);
+  x += label.length * CHAR_W;
+
+  for (let i = 0; i < SAVE_SLOT_COUNT; i++) {
+    const text = i === slots.selected ? `[${i + 1}]` : ` ${i + 1} `;
+    const colour = slots.occupied[i] ? bbcMicroColours.white : bbcMicroColours.blue;
+    drawText(ctx, text, x, y, colour);
+    x += slotW;
+  }
+
+  if (slots.notice) {
+    const noticeX = Math.floor((screenWidth - slots.notice.length * CHAR_W) / 2);
+    drawText(ctx, slots.notice, noticeX, y + 2 * CHAR_W, bbcMicroColours.cyan);
+  }
+}
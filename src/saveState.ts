@@ -0,0 +1,107 @@
+/**
+ * Save states: a complete snapshot of a GameState that can be restored
+ * later and continue exactly where it left off.
+ *
+ * Almost all of GameState is plain data. The exceptions are converted
+ * explicitly: the destroyed-object Sets become index arrays, the
+ * ThrustPhysics instance is captured through snapshot()/fromSnapshot()
+ * (which includes its private tick counter), and the
+ * event queue keeps only its tick number — events are per-tick and are
+ * never carried between ticks.
+ *
+ * File format (JSON, versioned):
+ *   { format: "thrust-savestate", version: 6, build: "1.0.0", game: GameSnapshot }
+ *
+ * Version 5 added the practice assists (GameState.cheats) and version 6
+ * the two-player turns (GameState.turns, null in a one-player game).
+ * Snapshots from older versions are rejected rather than filled in.
+ */
+
+import { version as BUILD_VERSION } from "../package.json";
+import { GameState } from "./game";
+import { ThrustPhysics, ThrustPhysicsSnapshot } from "./physics";
+
+export const SAVE_STATE_FORMAT = "thrust-savestate";
+export const SAVE_STATE_VERSION = 6;
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/** JSON-safe deep copy of a GameState. */
+export interface GameSnapshot extends Omit<GameState, "physics" | "destroyedTurrets" | "destroyedFuel" | "eventQueue"> {
+  physics: ThrustPhysicsSnapshot;
+  destroyedTurrets: number[];
+  destroyedFuel: number[];
+  /** Tick number of the event queue, so event numbering continues after a restore */
+  eventTick: number;
+}
+
+/** Deep-copy plain data. Every field of GameState except those converted by hand is JSON-safe. */
+function clonePlain<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function snapshotGame(state: GameState): GameSnapshot {
+  const { physics, destroyedTurrets, destroyedFuel, eventQueue, ...plain } = state;
+  return {
+    ...clonePlain(plain),
+    physics: physics.snapshot(),
+    destroyedTurrets: [...destroyedTurrets],
+    destroyedFuel: [...destroyedFuel],
+    eventTick: eventQueue.tick,
+  };
+}
+
+/** Build a fresh GameState from a snapshot. The snapshot itself is not modified or shared. */
+export function restoreGame(snapshot: GameSnapshot): GameState {
+  const { physics, destroyedTurrets, destroyedFuel, eventTick, ...plain } = clonePlain(snapshot);
+  return {
+    ...plain,
+    physics: ThrustPhysics.fromSnapshot(physics),
+    destroyedTurrets: new Set(destroyedTurrets),
+    destroyedFuel: new Set(destroyedFuel),
+    eventQueue: { tick: eventTick, events: [] },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Serialisation
+// ---------------------------------------------------------------------------
+
+export function serializeGame(state: GameState): string {
+  return JSON.stringify({
+    format: SAVE_STATE_FORMAT,
+    version: SAVE_STATE_VERSION,
+    build: BUILD_VERSION,
+    game: snapshotGame(state),
+  });
+}
+
+/** Parse and validate a save state. Throws an Error describing the first problem found. */
+export function deserializeGame(text: string): GameState {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Save state is not valid JSON");
+  }
+  if (typeof raw !== "object" || raw === null) throw new Error("Save state is not an object");
+  const obj = raw as Record<string, unknown>;
+
+  if (obj.format !== SAVE_STATE_FORMAT) throw new Error("Not a Thrust save state");
+  if (obj.version !== SAVE_STATE_VERSION) {
+    throw new Error(`Unsupported save state version ${obj.version} (expected ${SAVE_STATE_VERSION})`);
+  }
+
+  const game = obj.game as Partial<GameSnapshot> | undefined;
+  if (typeof game !== "object" || game === null) throw new Error("Save state has no game");
+  if (typeof game.physics !== "object" || game.physics === null) throw new Error("Save state has no physics");
+  if (!Array.isArray(game.destroyedTurrets) || !Array.isArray(game.destroyedFuel)) {
+    throw new Error("Save state has no destroyed-object lists");
+  }
+  if (typeof game.level !== "object" || game.level === null) throw new Error("Save state has no level");
+  if (typeof game.rng?.seed !== "number") throw new Error("Save state has no RNG seed");
+
+  return restoreGame(game as GameSnapshot);
+}
@@ -0,0 +1,125 @@
+/**
+ * Fixed-rate tick scheduler and render interpolation.
+ *
+ * All game logic runs in whole ticks of GAME_TICK_S, the original's 3
+ * centiseconds: tick() has no dt, so nothing in the rules can depend on
+ * the display's refresh rate. Each display frame adds its elapsed time
+ * to the scheduler and runs however many ticks are now due (often none
+ * at 144 Hz, sometimes two at 30 Hz).
+ *
+ * Whatever time is left over, as a fraction of a tick, is used to
+ * interpolate the ship, pod and camera between the last two ticks, so
+ * motion still looks smooth on screens faster than the tick rate.
+ */
+
+import { GameState, GAME_TICK_S } from "./game";
+
+/** Longest frame carried into ticks, so a stall doesn't trigger a burst of catch-up ticks */
+const MAX_FRAME_S = 0.1;
+
+/** Rounding slack, so accumulated frame times that add up to a tick run it */
+const TICK_EPSILON_S = 1e-9;
+
+/**
+ * A jump bigger than this (world units) in one tick is a respawn, level
+ * change or load rather than motion, and is not interpolated.
+ */
+const SNAP_DISTANCE = 16;
+
+export interface TickScheduler {
+  /** Seconds not yet run as ticks */
+  accumulator: number;
+}
+
+export function createTickScheduler(): TickScheduler {
+  return { accumulator: 0 };
+}
+
+/**
+ * A frame's elapsed time (seconds) as carried into ticks. Clamp the real
+ * frame time before any time scaling, so a long frame limits catch-up
+ * without also capping fast-forward.
+ */
+export function clampFrameTime(frameDt: number): number {
+  return Math.min(frameDt, MAX_FRAME_S);
+}
+
+/** Add a frame's game time (seconds, clamped and then time-scaled). */
+export function addFrameTime(scheduler: TickScheduler, dt: number): void {
+  scheduler.accumulator += dt;
+}
+
+/** Consume one tick if a whole tick is due. Use as `while (takeTick(s)) tick(...)`. */
+export function takeTick(scheduler: TickScheduler): boolean {
+  if (scheduler.accumulator < GAME_TICK_S - TICK_EPSILON_S) return false;
+  scheduler.accumulator = Math.max(0, scheduler.accumulator - GAME_TICK_S);
+  return true;
+}
+
+/** How far (0-1) the display is between the last tick and the next. */
+export function interpolationAlpha(scheduler: TickScheduler): number {
+  return Math.min(1, scheduler.accumulator / GAME_TICK_S);
+}
+
+// ---------------------------------------------------------------------------
+// Interpolation
+// ---------------------------------------------------------------------------
+
+/** The positions rendering interpolates, in world units. */
+export interface RenderPose {
+  shipX: number;
+  shipY: number;
+  podX: number;
+  podY: number;
+  /** Camera (scroll window) position */
+  windowX: number;
+  windowY: number;
+}
+
+export interface RenderInterpolation {
+  /** Game the previous pose belongs to — any other game is drawn as-is */
+  game: GameState | null;
+  /** Pose before the latest tick */
+  previous: RenderPose | null;
+}
+
+export function createRenderInterpolation(): RenderInterpolation {
+  return { game: null, previous: null };
+}
+
+export function capturePose(game: GameState): RenderPose {
+  const physics = game.physics.state;
+  return {
+    shipX: game.player.x,
+    shipY: game.player.y,
+    podX: physics.podX,
+    podY: physics.podY,
+    windowX: game.scroll.windowPos.x,
+    windowY: game.scroll.windowPos.y,
+  };
+}
+
+/** Remember the pose before a tick. Call immediately before each tick(). */
+export function beforeTick(interpolation: RenderInterpolation, game: GameState): void {
+  interpolation.game = game;
+  interpolation.previous = capturePose(game);
+}
+
+function lerp(from: number, to: number, alpha: number): number {
+  return Math.abs(to - from) > SNAP_DISTANCE ? to : from + (to - from) * alpha;
+}
+
+/** The pose to draw `game` at, `alpha` of the way from the previous tick to the latest. */
+export function renderPose(interpolation: RenderInterpolation, game: GameState, alpha: number): RenderPose {
+  const current = capturePose(game);
+  const previous = interpolation.previous;
+  if (interpolation.game !== game || !previous) return current;
+  return {
+    shipX: lerp(previous.shipX, current.shipX, alpha),
+    shipY: lerp(previous.shipY, current.shipY, alpha),
+    podX: lerp(previous.podX, current.podX, alpha),
+    podY: lerp(previous.podY, current.podY, alpha),
+    windowX: lerp(previous.windowX, current.windowX, alpha),
+    windowY: lerp(previous.windowY, current.windowY, alpha),
+  };
+}
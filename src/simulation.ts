@@ -0,0 +1,37 @@
+/**
+ * Headless simulation entry point.
+ *
+ * tick() applies every game rule and the collision buffer is a plain
+ * typed array, so a game can be run in Node or a Web Worker with no
+ * DOM. This wraps it in a create → step(input) → state API that steps
+ * at the original's fixed 3 centisecond tick:
+ *
+ *   const sim = createSimulation(newGameStart(0, 1234));
+ *   while (!sim.state.gameOver) stepSimulation(sim, input);
+ *
+ * For trajectories that match the original byte-for-byte, start from
+ * `{ ...newGameStart(0, 1234), fixedPointPhysics: true }`.
+ */
+
+import { GameState, tick } from "./game";
+import { GameInput } from "./input";
+import { ReplayStart, createGameFromReplayStart } from "./replay";
+
+export interface Simulation {
+  state: GameState;
+  /** Number of stepSimulation() calls so far */
+  steps: number;
+}
+
+export function createSimulation(start: ReplayStart): Simulation {
+  return { state: createGameFromReplayStart(start), steps: 0 };
+}
+
+/** Advance the simulation by one tick. Does nothing once the game is over. */
+export function stepSimulation(sim: Simulation, input: GameInput): GameState {
+  if (!sim.state.gameOver) {
+    tick(sim.state, input);
+    sim.steps++;
+  }
+  return sim.state;
+}
@@ -0,0 +1,227 @@
+import {drawText, drawShield, bbcMicroColours, rotationToSpriteIndex, WORLD_SCALE_X, WORLD_SCALE_Y} from "./rendering";
+import {GameState, SplitScreenLink, createGame, tick, hitShipWithBullets} from "./game";
+import {GameEvent} from "./events";
+import {GameInput} from "./input";
+import {levels, Level} from "./levels";
+import {PlayerShootingState, renderBullets, renderPlayerBullets} from "./bullets";
+import {tickExplosions} from "./explosions";
+import {tickGenerator} from "./generator";
+import {tickDoor} from "./doors";
+import {RenderInterpolation, createRenderInterpolation, beforeTick, renderPose} from "./scheduler";
+import {GhostSprites, drawShipAndPod, toScreenX} from "./ghost";
+
+// ---------------------------------------------------------------------------
+// Split screen: two ships in one level, versus or co-op
+// ---------------------------------------------------------------------------
+//
+// Each ship is a GameState of its own, with its own physics, camera,
+// shield, fuel, bullets, lives and score, and tick() runs once for each.
+// The world is shared: the second ship's state is given the first's
+// destroyed turret and fuel sets, generator, door and explosions, which
+// are ticked here once per tick (GameState.splitScreen tells tick() to
+// leave them alone, and a respawning ship to leave them as they are).
+// What each tick() can't see of the other ship is added here: the pod
+// being on the other ship's tether, the planet blowing up under both,
+// turret bullets aimed at one ship hitting the other, and in versus the
+// ships' own bullets hitting each other.
+//
+// A round is one level. It ends when a game would move on to the next
+// level (a ship reached orbit with the pod, or the planet was destroyed)
+// or when ships run out of lives: in versus the first ship out loses,
+// in co-op the mission only fails once both are.
+
+const CHAR_W = 8;
+const STATUS_BAR_H = 16;
+
+export type SplitScreenMode = "versus" | "coop";
+
+export interface SplitScreenState {
+  mode: SplitScreenMode;
+  /** Player 1's ship, then player 2's */
+  ships: GameState[];
+  /** Each ship's GameState.splitScreen, updated before its tick */
+  links: SplitScreenLink[];
+  /** Pose of each ship before the latest tick, for drawing between ticks */
+  interpolations: RenderInterpolation[];
+  /** How the round ended ("PLAYER 1 WINS", "MISSION COMPLETE", ...), or null while it is on */
+  result: string | null;
+}
+
+export function createSplitScreen(mode: SplitScreenMode, level: Level = levels[0], levelNumber: number = 0): SplitScreenState {
+  const first = createGame(level, levelNumber);
+  const second = createGame(level, levelNumber);
+  second.destroyedTurrets = first.destroyedTurrets;
+  second.destroyedFuel = first.destroyedFuel;
+  second.generator = first.generator;
+  second.doorState = first.doorState;
+  second.explosions = first.explosions;
+  const links: SplitScreenLink[] = [{ podTaken: false }, { podTaken: false }];
+  first.splitScreen = links[0];
+  second.splitScreen = links[1];
+  return {
+    mode,
+    ships: [first, second],
+    links,
+    interpolations: [createRenderInterpolation(), createRenderInterpolation()],
+    result: null,
+  };
+}
+
+function inPlay(ship: GameState): boolean {
+  return !ship.gameOver && ship.messageTimer === 0 && !ship.teleport;
+}
+
+/** The shared world's share of tick(), run once for both ships. */
+function tickWorld(split: SplitScreenState): void {
+  const [first] = split.ships;
+  tickExplosions(first.explosions);
+  // Events from the world go out with the first ship's
+  const { playerKilled } = tickGenerator(first.generator, first.eventQueue, first.explosions, first.level);
+  if (playerKilled) {
+    for (const ship of split.ships) ship.planetKilled = true;
+  }
+  tickDoor(first.doorState, first.level.doorConfig);
+}
+
+/** Player bullets are kept in fixed slots, so spent ones are switched off rather than removed. */
+function hitShipWithPlayerBullets(ship: GameState, shooting: PlayerShootingState): void {
+  const live = shooting.bullets.filter(bullet => bullet.active);
+  hitShipWithBullets(ship, live);
+  for (const bullet of shooting.bullets) {
+    if (bullet.active && !live.includes(bullet)) bullet.active = false;
+  }
+}
+
+function isOut(ship: GameState): boolean {
+  return ship.gameOver || ship.pendingAction === 'game-over';
+}
+
+function roundResult(split: SplitScreenState): string | null {
+  const finished = split.ships.findIndex(ship => ship.pendingAction === 'next-level');
+  if (finished >= 0) {
+    if (!split.ships[finished].physics.state.podAttached) return "PLANET DESTROYED";
+    return split.mode === "versus" ? `PLAYER ${finished + 1} WINS` : "MISSION COMPLETE";
+  }
+  const [firstOut, secondOut] = split.ships.map(isOut);
+  if (split.mode === "versus") {
+    if (firstOut && secondOut) return "DRAW";
+    if (firstOut || secondOut) return `PLAYER ${firstOut ? 2 : 1} WINS`;
+  } else if (firstOut && secondOut) {
+    return "MISSION FAILED";
+  }
+  return null;
+}
+
+/**
+ * Advance both ships and the world by one tick. Returns each ship's
+ * events (world events are in the first ship's). Once the round is
+ * over nothing moves.
+ */
+export function tickSplitScreen(split: SplitScreenState, inputs: GameInput[]): (readonly GameEvent[])[] {
+  if (split.result) return split.ships.map(() => []);
+
+  const events = split.ships.map((ship, i) => {
+    const other = split.ships[1 - i];
+    split.links[i].podTaken = other.physics.state.podAttached;
+    beforeTick(split.interpolations[i], ship);
+    return tick(ship, inputs[i]);
+  });
+  if (split.ships.some(inPlay)) tickWorld(split);
+
+  split.ships.forEach((ship, i) => {
+    const other = split.ships[1 - i];
+    hitShipWithBullets(ship, other.turretFiring.bullets);
+    if (split.mode === "versus") hitShipWithPlayerBullets(ship, other.playerShooting);
+  });
+
+  split.result = roundResult(split);
+  return events;
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+/**
+ * Draws the other ship (with its shield, pod and tether) and its bullets
+ * into a ship's view, where the game's own rendering only draws its own.
+ */
+export function renderOtherShip(
+  ctx: CanvasRenderingContext2D,
+  split: SplitScreenState,
+  viewIndex: number,
+  alpha: number,
+  camX: number,
+  camY: number,
+  sprites: GhostSprites,
+  shieldSprite: ImageBitmap,
+  colours: { line: string; object: string; terrain: string },
+): void {
+  const index = 1 - viewIndex;
+  const other = split.ships[index];
+  renderBullets(ctx, other.turretFiring.bullets, camX, camY, colours.line);
+  renderPlayerBullets(ctx, other.playerShooting, camX, camY, colours.line);
+  if (!inPlay(other) || other.deathSequence?.shipDestroyed) return;
+
+  const pose = renderPose(split.interpolations[index], other, alpha);
+  const shipX = toScreenX(pose.shipX * WORLD_SCALE_X, camX);
+  const shipY = pose.shipY * WORLD_SCALE_Y - camY;
+  const pod = other.physics.state.podAttached
+    ? { x: toScreenX(pose.podX * WORLD_SCALE_X, camX), y: pose.podY * WORLD_SCALE_Y - camY }
+    : null;
+  drawShipAndPod(ctx, shipX, shipY, rotationToSpriteIndex(other.player.rotation), pod, sprites, colours);
+  if (other.shieldActive) drawShield(ctx, shieldSprite, Math.round(shipX), Math.round(shipY));
+}
+
+/** Left edge of the `width` columns of a full-width view to show, keeping its ship away from the sides. */
+export function splitViewLeft(shipScreenX: number, screenWidth: number, width: number): number {
+  const centred = (screenWidth - width) / 2;
+  const left = centred + (shipScreenX - screenWidth / 2) * 0.75;
+  return Math.max(0, Math.min(screenWidth - width, Math.round(left)));
+}
+
+function drawCentred(ctx: CanvasRenderingContext2D, text: string, left: number, width: number, y: number, colour: string): void {
+  drawText(ctx, text, left + Math.floor((width - text.length * CHAR_W) / 2), y, colour);
+}
+
+/**
+ * A ship's fuel, lives and score across the top of its half. The game's
+ * status bar needs the full width, so this is the same three readings
+ * without the frame.
+ */
+function drawSplitStatusBar(ctx: CanvasRenderingContext2D, ship: GameState, left: number, width: number): void {
+  ctx.fillStyle = bbcMicroColours.black;
+  ctx.fillRect(left, 0, width, STATUS_BAR_H);
+  const columns: [string, string][] = [["FUEL", String(ship.fuel)], ["LIVES", String(ship.lives)], ["SCORE", String(ship.score)]];
+  const columnW = Math.floor(width / columns.length);
+  columns.forEach(([label, value], i) => {
+    drawCentred(ctx, label, left + i * columnW, columnW, 0, bbcMicroColours.green);
+    drawCentred(ctx, value, left + i * columnW, columnW, CHAR_W, bbcMicroColours.yellow);
+  });
+}
+
+/**
+ * Everything drawn over the two views: each ship's readings and message
+ * (or GAME OVER) in its own half, the line between the halves, and the
+ * round's result across both.
+ */
+export function renderSplitScreenHud(ctx: CanvasRenderingContext2D, split: SplitScreenState, screenWidth: number, screenHeight: number): void {
+  const halfW = screenWidth / 2;
+  split.ships.forEach((ship, i) => {
+    const left = i * halfW;
+    drawSplitStatusBar(ctx, ship, left, halfW);
+    const text = ship.gameOver ? "GAME OVER" : ship.messageTimer > 0 ? ship.messageText : null;
+    if (text) drawCentred(ctx, text, left, halfW, Math.floor(screenHeight / 2), bbcMicroColours.white);
+  });
+  ctx.fillStyle = bbcMicroColours.yellow;
+  ctx.fillRect(halfW - 1, 0, 2, screenHeight);
+
+  if (!split.result) return;
+  const y = Math.floor(screenHeight / 2) - 3 * CHAR_W;
+  const lines = [split.result, "ESCAPE FOR TITLE"];
+  const boxW = Math.max(...lines.map(line => line.length)) * CHAR_W + 2 * CHAR_W;
+  ctx.fillStyle = bbcMicroColours.black;
+  ctx.fillRect(Math.floor((screenWidth - boxW) / 2), y - CHAR_W / 2, boxW, 4 * CHAR_W);
+  drawCentred(ctx, lines[0], 0, screenWidth, y, bbcMicroColours.yellow);
+  drawCentred(ctx, lines[1], 0, screenWidth, y + 2 * CHAR_W, bbcMicroColours.cyan);
+}
@@ -1,5 +1,6 @@
 import { orColours } from "./explosions";
 import { WORLD_SCALE_X, WORLD_SCALE_Y } from "./rendering";
+import { RngState, rnd } from "./rng";
 
 interface Star {
   x: number;
@@ -21,16 +22,13 @@ const STAR_LIFETIME = 30;
 const STAR_GENERATION_MASK = 0x01;
 const STAR_TYPE_MASK = 0x01;
 
-function randomByte(): number {
-  return Math.floor(Math.random() * 256);
-}
-
 export function createStarFieldState(): StarFieldState {
   return { stars: [], tickCounter: 0 };
 }
 
 export function tickStarField(
   state: StarFieldState,
+  rng: RngState,
   viewportX: number,
   viewportY: number,
   objectColor: string,
@@ -52,8 +50,8 @@ export function tickStarField(
   // Only generate when above altitude threshold
   if (viewportY >= STAR_ALTITUDE_THRESHOLD) return;
 
-  const rndA = randomByte();
-  const rndB = randomByte();
+  const rndA = rnd(rng);
+  const rndB = rnd(rng);
 
   // Y position: random byte + $64, world coordinates (range 100–355)
   const y = rndA + STAR_Y_OFFSET;
@@ -70,19 +68,20 @@ export function tickStarField(
 
 export function seedStarField(
   state: StarFieldState,
+  rng: RngState,
   viewportX: number,
   objectColor: string,
   terrainColor: string,
 ): void {
   // Pre-populate ~15 stars within the viewport area with varied lifetimes
   for (let i = 0; i < 15; i++) {
-    const rndA = randomByte();
-    const rndB = randomByte();
+    const rndA = rnd(rng);
+    const rndB = rnd(rng);
     const y = rndA + STAR_Y_OFFSET;
     const x = (rndB & STAR_X_RANDOM_MASK) + viewportX + STAR_X_OFFSET;
-    const isType2 = (randomByte() & STAR_TYPE_MASK) !== 0;
+    const isType2 = (rnd(rng) & STAR_TYPE_MASK) !== 0;
     const color = isType2 ? objectColor : orColours(terrainColor, objectColor);
-    const lifetime = Math.floor(Math.random() * STAR_LIFETIME) + 1;
+    const lifetime = (rnd(rng) % STAR_LIFETIME) + 1;
     state.stars.push({ x, y, lifetime, color });
   }
 }
@@ -0,0 +1,261 @@
+import {drawText, bbcMicroColours} from "./rendering";
+import {GameState, GAME_TICK_S} from "./game";
+import {GameEvent} from "./events";
+import {Level} from "./levels";
+import {GhostTrack, GhostSprites, createGhostTrack, recordGhostFrame, serializeGhost, deserializeGhost, renderGhost} from "./ghost";
+
+// ---------------------------------------------------------------------------
+// Time attack: level timing with checkpoint splits (localStorage bests)
+// ---------------------------------------------------------------------------
+//
+// A run starts when the teleport-in finishes and ends when the ship
+// reaches orbit with the pod. Deaths and a MISSION INCOMPLETE don't stop
+// the clock; moving to another level (or another modifier combination)
+// abandons the run and starts a new one there.
+//
+// Splits are taken as the ship passes each spawn point's height: every
+// checkpoint below the start on the way down, then on the way back up
+// with the pod every checkpoint again, ending with the start point.
+// Times are counted in game ticks, so slow motion can't help; the
+// rewind, quick-load and time control assists are off in time attack.
+//
+// Every run records a ghost track, and the best run's track is stored
+// with its times; the next run on the same level races against it.
+
+const STORAGE_KEY = "thrust-time-attack";
+/** Ghost tracks are stored one per key, so a full quota only loses ghosts, not times */
+const GHOST_STORAGE_PREFIX = "thrust-time-attack-ghost:";
+const CHAR_W = 8;
+const HUD_ROW = 3;
+
+export interface TimeAttackSplit {
+  /** Index into level.spawnPoints */
+  spawnIndex: number;
+  /** Passed climbing back up with the pod rather than on the way down */
+  up: boolean;
+}
+
+/** A completed run: ticks from the start to each split and to orbit */
+export interface TimeAttackRecord {
+  splits: number[];
+  total: number;
+}
+
+export interface TimeAttackState {
+  /** Level and modifiers of the current run, as used for the stored best */
+  key: string;
+  level: Level | null;
+  route: TimeAttackSplit[];
+  /** Game tick on which the teleport-in finished, or null before then */
+  startTick: number | null;
+  /** Ticks from the start to each split passed so far */
+  splits: number[];
+  /** Ticks for the whole run once the ship reaches orbit with the pod */
+  total: number | null;
+  best: TimeAttackRecord | null;
+  /** The finished run beat the stored best (or there was none) */
+  newBest: boolean;
+  /** This run's ship and pod, tick by tick */
+  track: GhostTrack;
+  /** The best run's track, drawn as the ghost */
+  ghost: GhostTrack | null;
+}
+
+export function createTimeAttack(): TimeAttackState {
+  return {
+    key: "", level: null, route: [], startTick: null, splits: [], total: null, best: null, newBest: false,
+    track: createGhostTrack(), ghost: null,
+  };
+}
+
+/** Bests are kept per level and per combination of the game modifiers. */
+function runKey(game: GameState): string {
+  const modifiers = [game.reverseGravity ? "reverse-gravity" : "", game.invisibleLandscape ? "invisible" : ""].filter(Boolean);
+  return [game.level.name, ...modifiers].join("/");
+}
+
+/** Checkpoints below the start going down, then all of them coming back up. */
+function splitRoute(level: Level): TimeAttackSplit[] {
+  const route: TimeAttackSplit[] = [];
+  for (let i = 1; i < level.spawnPoints.length; i++) route.push({ spawnIndex: i, up: false });
+  for (let i = level.spawnPoints.length - 1; i >= 0; i--) route.push({ spawnIndex: i, up: true });
+  return route;
+}
+
+function loadBests(): Record<string, TimeAttackRecord> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    }
+  } catch {
+    // fall through to no bests
+  }
+  return {};
+}
+
+function loadBest(key: string): TimeAttackRecord | null {
+  const record = loadBests()[key];
+  if (!record || typeof record.total !== "number" || !Array.isArray(record.splits)) return null;
+  return record;
+}
+
+function saveBest(key: string, record: TimeAttackRecord): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadBests(), [key]: record }));
+  } catch {
+    // the run still shows as a new best, it just isn't kept
+  }
+}
+
+function loadGhost(key: string): GhostTrack | null {
+  try {
+    const raw = localStorage.getItem(GHOST_STORAGE_PREFIX + key);
+    return raw ? deserializeGhost(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveGhost(key: string, track: GhostTrack): void {
+  try {
+    localStorage.setItem(GHOST_STORAGE_PREFIX + key, serializeGhost(track));
+  } catch {
+    // the best time is kept without a ghost; drop any older run's track with it
+    try { localStorage.removeItem(GHOST_STORAGE_PREFIX + key); } catch { /* ignore */ }
+  }
+}
+
+function startRun(attack: TimeAttackState, game: GameState, key: string): void {
+  attack.key = key;
+  attack.level = game.level;
+  attack.route = splitRoute(game.level);
+  attack.startTick = null;
+  attack.splits = [];
+  attack.total = null;
+  attack.best = loadBest(key);
+  attack.newBest = false;
+  attack.track = createGhostTrack();
+  attack.ghost = loadGhost(key);
+}
+
+/** Ticks since the run started (the final time once it has finished). */
+export function timeAttackElapsed(attack: TimeAttackState, game: GameState): number {
+  if (attack.total !== null) return attack.total;
+  if (attack.startTick === null) return 0;
+  return game.eventQueue.tick - attack.startTick;
+}
+
+/** Follow the game after each tick: start the clock, take splits, finish on orbit. */
+export function updateTimeAttack(attack: TimeAttackState, game: GameState, events: readonly GameEvent[]): void {
+  const key = runKey(game);
+  if (game.level !== attack.level || key !== attack.key) startRun(attack, game, key);
+  if (attack.total !== null || game.gameOver) return;
+
+  if (attack.startTick === null) {
+    if (game.teleport || game.messageTimer > 0) return;
+    attack.startTick = game.eventQueue.tick;
+  }
+  recordGhostFrame(attack.track, game);
+
+  const next = attack.route[attack.splits.length];
+  if (next && !game.teleport && !game.deathSequence) {
+    const y = game.level.spawnPoints[next.spawnIndex].midpointY;
+    const passed = next.up
+      ? game.physics.state.podAttached && game.player.y < y
+      : game.player.y >= y;
+    if (passed) attack.splits.push(timeAttackElapsed(attack, game));
+  }
+
+  for (const event of events) {
+    if (event.type === "OrbitReached" && event.withPod) {
+      attack.total = event.tick - attack.startTick;
+      if (!attack.best || attack.total < attack.best.total) {
+        attack.newBest = true;
+        saveBest(attack.key, { splits: attack.splits, total: attack.total });
+        saveGhost(attack.key, attack.track);
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HUD
+// ---------------------------------------------------------------------------
+
+/** Ticks as M:SS.CC */
+export function formatRaceTime(ticks: number): string {
+  const cs = Math.round(ticks * GAME_TICK_S * 100);
+  const minutes = Math.floor(cs / 6000);
+  const seconds = Math.floor(cs / 100) % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}.${String(cs % 100).padStart(2, "0")}`;
+}
+
+/** Difference from the best as +M:SS.CC (behind) or -M:SS.CC (ahead). */
+function formatDelta(ticks: number): string {
+  return (ticks < 0 ? "-" : "+") + formatRaceTime(Math.abs(ticks));
+}
+
+function splitLabel(split: TimeAttackSplit): string {
+  if (split.spawnIndex === 0) return "START";
+  return `CP${split.spawnIndex} ${split.up ? "UP" : "DOWN"}`;
+}
+
+/**
+ * Draws the running time, the latest split against the best run's time
+ * at the same split, and the best time, down the right-hand side under
+ * the status bar. The running time turns red once it is past the best
+ * run's time for the next split.
+ */
+export function renderTimeAttack(
+  ctx: CanvasRenderingContext2D,
+  attack: TimeAttackState,
+  game: GameState,
+  screenWidth: number,
+): void {
+  const rightAlign = (text: string, row: number, colour: string) =>
+    drawText(ctx, text, screenWidth - text.length * CHAR_W - CHAR_W, row * CHAR_W, colour);
+
+  const elapsed = timeAttackElapsed(attack, game);
+  const best = attack.best;
+  const comparable = best !== null && best.splits.length === attack.route.length;
+  const passed = attack.splits.length;
+  const nextTarget = comparable ? (passed < best.splits.length ? best.splits[passed] : best.total) : Infinity;
+  const behind = attack.total === null && elapsed > nextTarget;
+  rightAlign(formatRaceTime(elapsed), HUD_ROW, behind ? bbcMicroColours.red : bbcMicroColours.white);
+
+  if (attack.total !== null) {
+    const label = best && !attack.newBest ? formatDelta(attack.total - best.total) : "NEW BEST";
+    rightAlign(label, HUD_ROW + 2, attack.newBest ? bbcMicroColours.yellow : bbcMicroColours.red);
+  } else if (passed > 0) {
+    const index = passed - 1;
+    const split = attack.splits[index];
+    const bestSplit = comparable ? best.splits[index] : undefined;
+    const text = `${splitLabel(attack.route[index])} ${bestSplit === undefined ? formatRaceTime(split) : formatDelta(split - bestSplit)}`;
+    const colour = bestSplit === undefined ? bbcMicroColours.white : split <= bestSplit ? bbcMicroColours.green : bbcMicroColours.red;
+    rightAlign(text, HUD_ROW + 2, colour);
+  }
+
+  rightAlign(`BEST ${best ? formatRaceTime(best.total) : "-:--.--"}`, HUD_ROW + 4, bbcMicroColours.cyan);
+}
+
+/**
+ * Draws the best run's ghost as it was at the same time into its run,
+ * while this run is being timed.
+ */
+export function renderTimeAttackGhost(
+  ctx: CanvasRenderingContext2D,
+  attack: TimeAttackState,
+  game: GameState,
+  alpha: number,
+  camX: number,
+  camY: number,
+  sprites: GhostSprites,
+  lineColour: string,
+  terrainColour: string,
+): void {
+  if (!attack.ghost || attack.startTick === null || attack.total !== null) return;
+  const colours = { line: lineColour, object: game.level.objectColor, terrain: terrainColour };
+  renderGhost(ctx, attack.ghost, timeAttackElapsed(attack, game), alpha, camX, camY, sprites, colours);
+}
@@ -0,0 +1,71 @@
+/**
+ * Debug time controls: slow motion, turbo and single-tick stepping.
+ *
+ * Every timer in the game — physics, scrolling, the teleport and
+ * message timers, demo keypresses — counts game ticks, and the tick
+ * scheduler turns frame time into ticks. Scaling the frame time fed to
+ * the scheduler therefore slows or speeds up everything together, and
+ * freezing simply stops feeding it. A frozen game can be advanced by
+ * exactly one game tick (the original's 3 centiseconds) at a time.
+ */
+
+import { GAME_TICK_S } from "./game";
+
+export const TIME_SCALES = [0.25, 0.5, 1, 2, 4] as const;
+const NORMAL_SCALE_INDEX = TIME_SCALES.indexOf(1);
+
+export interface TimeControl {
+  /** Index into TIME_SCALES */
+  scaleIndex: number;
+  /** The simulation only advances by single steps */
+  frozen: boolean;
+  /** One tick has been requested while frozen */
+  stepPending: boolean;
+}
+
+export function createTimeControl(): TimeControl {
+  return { scaleIndex: NORMAL_SCALE_INDEX, frozen: false, stepPending: false };
+}
+
+/** Back to normal speed, not frozen. */
+export function resetTimeControl(control: TimeControl): void {
+  Object.assign(control, createTimeControl());
+}
+
+export function timeScale(control: TimeControl): number {
+  return TIME_SCALES[control.scaleIndex];
+}
+
+/** Step the time scale down (-1) or up (+1), stopping at the ends. */
+export function changeTimeScale(control: TimeControl, direction: -1 | 1): void {
+  control.scaleIndex = Math.max(0, Math.min(TIME_SCALES.length - 1, control.scaleIndex + direction));
+}
+
+export function toggleFrozen(control: TimeControl): void {
+  control.frozen = !control.frozen;
+  control.stepPending = false;
+}
+
+/** Advance a frozen game by one tick on the next frame. */
+export function requestStep(control: TimeControl): void {
+  if (control.frozen) control.stepPending = true;
+}
+
+/**
+ * Game time to feed the tick scheduler for this frame: the frame time
+ * scaled, or while frozen nothing — or exactly one tick if a step was
+ * requested, whatever the time scale.
+ */
+export function controlledDt(control: TimeControl, frameDt: number): number {
+  if (!control.frozen) return frameDt * timeScale(control);
+  if (!control.stepPending) return 0;
+  control.stepPending = false;
+  return GAME_TICK_S;
+}
+
+/** Short status for the screen ("FROZEN", "0.5X"), or "" at normal speed. */
+export function timeControlLabel(control: TimeControl): string {
+  if (control.frozen) return "FROZEN";
+  const scale = timeScale(control);
+  return scale === 1 ? "" : `${scale}X`;
+}
@@ -1,10 +1,13 @@
-import {drawText, bbcMicroColours} from "./rendering";
+import {drawText, wrapText, bbcMicroColours} from "./rendering";
 import {ScoreEntry, loadScores, renderScoreboard} from "./scoreboard";
 import {keyBindings, keyDisplayName, remapActions, KeyBindings, saveKeyBindings} from "./input";
 
 // Number of visible pages (instructions + scoreboard) before demo triggers
 const TITLE_PAGE_COUNT = 2;
 const PAGE_FLIP_INTERVAL = 5;
+const NOTICE_DURATION = 5;
+/** Notices go under the instructions, in the bottom rows of the screen */
+const NOTICE_ROW = 29;
 
 export interface KeyRemapState {
   active: boolean;
@@ -20,6 +23,10 @@ export interface TitleScreenState {
   /** Set to true when the scoreboard page times out — signals main.ts to start demo */
   demoRequested: boolean;
   remap: KeyRemapState | null;
+  /** Message for the player (such as why a file didn't load), or null */
+  notice: string | null;
+  /** Seconds left to show the notice */
+  noticeTimer: number;
 }
 
 interface TitleEntry {
@@ -47,11 +54,16 @@ function buildInstructionsPage(): TitleEntry[] {
 
     { row: 20, text: "PRESS {K} TO REDEFINE KEYS", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
     { row: 21, text: "PRESS {SPACE} TO START", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
+    { row: 23, text: "{R} REPLAY  {S} SAVE  {L} LOAD REPLAY", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
+    { row: 24, text: "{O} PLAY A LEVEL FILE  {E} EDITOR", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
+    { row: 25, text: "{G} PLAY A GENERATED CAVE  {T} TIME ATTACK", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
+    { row: 26, text: "{P} PRACTICE  {2} TWO PLAYERS", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
+    { row: 27, text: "{V} SPLIT-SCREEN VERSUS  {C} CO-OP", color: bbcMicroColours.red, color2: bbcMicroColours.yellow },
   ];
 }
 
 export function createTitleScreen(): TitleScreenState {
-  return { active: true, pageTimer: 0, page: 0, scores: loadScores(), demoRequested: false, remap: null };
+  return { active: true, pageTimer: 0, page: 0, scores: loadScores(), demoRequested: false, remap: null, notice: null, noticeTimer: 0 };
 }
 
 export function resetTitleScreen(state: TitleScreenState): void {
@@ -61,6 +73,14 @@ export function resetTitleScreen(state: TitleScreenState): void {
   state.scores = loadScores();
   state.demoRequested = false;
   state.remap = null;
+  state.notice = null;
+  state.noticeTimer = 0;
+}
+
+/** Show a notice at the foot of the title screen for a few seconds. */
+export function showTitleNotice(state: TitleScreenState, notice: string): void {
+  state.notice = notice;
+  state.noticeTimer = NOTICE_DURATION;
 }
 
 /**
@@ -69,6 +89,8 @@ export function resetTitleScreen(state: TitleScreenState): void {
  * title screen deactivates itself so main.ts can start the demo.
  */
 export function updateTitleScreen(state: TitleScreenState, dt: number): void {
+  state.noticeTimer = Math.max(0, state.noticeTimer - dt);
+  if (state.noticeTimer === 0) state.notice = null;
   if (state.remap) return;  // Freeze page timer during key remap
   state.pageTimer += dt;
   if (state.pageTimer >= PAGE_FLIP_INTERVAL) {
@@ -137,7 +159,17 @@ function renderRemapScreen(ctx: CanvasRenderingContext2D, state: KeyRemapState,
   }
 }
 
+function renderNotice(ctx: CanvasRenderingContext2D, notice: string, screenWidth: number): void {
+  const lines = wrapText(notice, screenWidth / 8 - 2);
+  ctx.fillStyle = bbcMicroColours.black;
+  ctx.fillRect(0, NOTICE_ROW * 8 - 2, screenWidth, lines.length * 8 + 3);
+  lines.forEach((line, i) => {
+    drawText(ctx, line, Math.floor((screenWidth - line.length * 8) / 2), (NOTICE_ROW + i) * 8, bbcMicroColours.white);
+  });
+}
+
 export function renderTitleScreen(ctx: CanvasRenderingContext2D, state: TitleScreenState, screenWidth: number): void {
+  if (state.notice) renderNotice(ctx, state.notice, screenWidth);
   if (state.remap) {
     renderRemapScreen(ctx, state.remap, screenWidth);
     return;
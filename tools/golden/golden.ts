@@ -0,0 +1,348 @@
+#!/usr/bin/env npx tsx
+
+import * as fs from "fs";
+import * as path from "path";
+import { ThrustPhysics, ThrustInput } from "../../src/physics";
+import { createScrollConfig, createScrollState, updateScroll } from "../../src/scroll";
+import { createTurretFiringState, tickTurrets } from "../../src/bullets";
+import { createGeneratorState, tickGenerator, handleGeneratorHit } from "../../src/generator";
+import { createDoorState, triggerDoor, tickDoor } from "../../src/doors";
+import { createExplosionState } from "../../src/explosions";
+import { createEventQueue, beginEventTick } from "../../src/events";
+import { createRng } from "../../src/rng";
+import { levels } from "../../src/levels";
+import { WORLD_SCALE_X, WORLD_SCALE_Y } from "../../src/rendering";
+import { tick as gameTick } from "../../src/game";
+import { createGameFromReplayStart, newGameStart } from "../../src/replay";
+
+/**
+ * Golden-trajectory regression harness
+ *
+ * Runs scripted input sequences through the game's fixed-step systems —
+ * ThrustPhysics, updateScroll, tickTurrets, tickGenerator and tickDoor,
+ * and whole games through tick() — and compares the state after every tick with the traces checked in
+ * under traces/. Any refactor that changes how the game feels changes a
+ * trace, and the first differing tick and field are reported.
+ *
+ * Scenarios follow the specs in specs/ (solo-ship-physics,
+ * attached-pod-physics, scrolling-dead-zone, turret-firing-system,
+ * generator-system, switches-and-doors), plus two-player turn handover.
+ *
+ * Usage (from tools/golden, or `npm test` from the repo root):
+ *   npx tsx golden.ts            compare against traces/, exit 1 on mismatch
+ *   npx tsx golden.ts --update   rewrite traces/ after an intended change
+ *   npx tsx golden.ts <name>...  run only the named scenarios
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type TraceRow = Record<string, number | boolean>;
+
+interface Scenario {
+    name: string;
+    description: string;
+    run: () => TraceRow[];
+}
+
+interface Trace {
+    scenario: string;
+    description: string;
+    rows: TraceRow[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TRACES_DIR = path.join(__dirname, "traces");
+
+/** Floats may differ by rounding noise only */
+const FLOAT_TOLERANCE = 1e-9;
+
+const VIEWPORT_W = 320 / WORLD_SCALE_X;
+const VIEWPORT_H = 256 / WORLD_SCALE_Y;
+const STATUS_BAR_H = 16 / WORLD_SCALE_Y;
+
+// ============================================================================
+// Input scripts
+// ============================================================================
+
+/** A run of ticks with the same input: [ticks, thrust, rotate] */
+type Phase = [number, boolean, -1 | 0 | 1];
+
+function expandScript(phases: Phase[]): ThrustInput[] {
+    const inputs: ThrustInput[] = [];
+    for (const [ticks, thrust, rotate] of phases) {
+        for (let i = 0; i < ticks; i++) inputs.push({ thrust, rotate, shield: false });
+    }
+    return inputs;
+}
+
+// Climb, turn, burn sideways, coast, turn back and hover
+const SOLO_SCRIPT = expandScript([
+    [20, false, 0],
+    [40, true, 0],
+    [12, false, 1],
+    [30, true, 0],
+    [40, false, 0],
+    [24, false, -1],
+    [60, true, 0],
+    [30, false, 0],
+]);
+
+// Thrust off-axis to set the pod swinging, then let it damp out
+const POD_SCRIPT = expandScript([
+    [10, false, 0],
+    [50, true, 0],
+    [6, false, 1],
+    [40, true, 0],
+    [12, false, -1],
+    [40, true, 0],
+    [80, false, 0],
+    [30, true, 0],
+]);
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+function shipRow(tick: number, physics: ThrustPhysics): TraceRow {
+    const s = physics.state;
+    return { tick, x: s.x, y: s.y, forceX: s.forceX, forceY: s.forceY, angle: s.angle };
+}
+
+function podRow(tick: number, physics: ThrustPhysics): TraceRow {
+    const s = physics.state;
+    return {
+        tick,
+        x: s.x,
+        y: s.y,
+        shipX: s.shipX,
+        shipY: s.shipY,
+        podX: s.podX,
+        podY: s.podY,
+        angle: s.angle,
+        angleShipToPod: s.pod.angleShipToPod,
+        angleFrac: s.pod.angleFrac,
+        angularVelocity: s.pod.angularVelocity,
+    };
+}
+
+/** Solo ship on every level's gravity, plus reverse gravity. */
+function soloShipPhysics(): TraceRow[] {
+    const rows: TraceRow[] = [];
+    const setups = [0, 1, 2, 3, 4, 5].map(level => ({ level, reverseGravity: false }));
+    setups.push({ level: 2, reverseGravity: true });
+
+    for (const { level, reverseGravity } of setups) {
+        const physics = new ThrustPhysics({ x: 100, y: 300, gravityFrac: levels[level].gravity, reverseGravity, angle: reverseGravity ? 16 : 0 });
+        SOLO_SCRIPT.forEach((input, tick) => {
+            physics.tick(input);
+            rows.push({ level, reverseGravity, ...shipRow(tick, physics) });
+        });
+    }
+    return rows;
+}
+
+function podPhysics(fixedPoint: boolean): TraceRow[] {
+    const physics = new ThrustPhysics({ x: 100, y: 300, gravityFrac: levels[1].gravity, fixedPoint });
+    physics.tick({ thrust: false, rotate: 0, shield: false });
+    physics.attachPod(103, 312);
+
+    return POD_SCRIPT.map((input, tick) => {
+        physics.tick(input);
+        return podRow(tick, physics);
+    });
+}
+
+/** Scroll window following a solo ship through the dead zone. */
+function scrollingDeadZone(): TraceRow[] {
+    const physics = new ThrustPhysics({ x: 100, y: 300, gravityFrac: levels[0].gravity });
+    const config = createScrollConfig(VIEWPORT_W, VIEWPORT_H, STATUS_BAR_H);
+    const scroll = createScrollState(100, 300, VIEWPORT_W, VIEWPORT_H, STATUS_BAR_H);
+
+    return SOLO_SCRIPT.map((input, tick) => {
+        physics.tick(input);
+        const s = physics.state;
+        updateScroll({ x: s.x, y: s.y }, { x: s.forceX, y: s.forceY }, scroll, config);
+        return {
+            tick,
+            x: s.x,
+            y: s.y,
+            windowX: scroll.windowPos.x,
+            windowY: scroll.windowPos.y,
+            scrollSpeedX: scroll.scrollSpeed.x,
+            scrollSpeedY: scroll.scrollSpeed.y,
+        };
+    });
+}
+
+/** Every turret on level 2 in view, with a ceasefire part-way through. */
+function turretFiring(): TraceRow[] {
+    const level = levels[1];
+    const turrets = createTurretFiringState();
+    const events = createEventQueue();
+    const rng = createRng(0x1234);
+    const first = level.turrets[0];
+    const camX = Math.round((first.x - VIEWPORT_W / 2) * WORLD_SCALE_X);
+    const camY = Math.round((first.y - VIEWPORT_H / 2) * WORLD_SCALE_Y);
+
+    const rows: TraceRow[] = [];
+    for (let tick = 0; tick < 2000; tick++) {
+        beginEventTick(events);
+        const suppressed = tick >= 600 && tick < 900;
+        tickTurrets(turrets, events, rng, level, first.x, first.y, camX, camY, 320, 256, undefined, suppressed);
+        const row: TraceRow = { tick, bullets: turrets.bullets.length, fired: events.events.length, seed: rng.seed };
+        turrets.bullets.forEach((b, i) => {
+            row[`b${i}x`] = b.x;
+            row[`b${i}y`] = b.y;
+        });
+        rows.push(row);
+    }
+    return rows;
+}
+
+/** Repeated power plant hits until it overloads and the countdown runs out. */
+function generatorSystem(): TraceRow[] {
+    const level = levels[0];
+    const generator = createGeneratorState();
+    const explosions = createExplosionState();
+    const events = createEventQueue();
+    const rng = createRng(0x4321);
+    const rows: TraceRow[] = [];
+    for (let tick = 0; tick < 1000; tick++) {
+        beginEventTick(events);
+        if (tick >= 20 && tick <= 500 && tick % 30 === 20) {
+            handleGeneratorHit(generator, explosions, rng, level.powerPlant.x, level.powerPlant.y);
+        }
+        const { playerKilled } = tickGenerator(generator, events, explosions, level);
+        rows.push({ tick, ...generator, particles: explosions.particles.length, playerKilled });
+    }
+    return rows;
+}
+
+/** Each level's door triggered, left to close, and triggered again. */
+function switchesAndDoors(): TraceRow[] {
+    const rows: TraceRow[] = [];
+    levels.forEach((level, levelNumber) => {
+        if (!level.doorConfig) return;
+        const door = createDoorState();
+        for (let tick = 0; tick < 400; tick++) {
+            if (tick === 5 || tick === 300) triggerDoor(door);
+            tickDoor(door, level.doorConfig);
+            rows.push({ level: levelNumber, tick, counterA: door.counterA, counterB: door.counterB });
+        }
+    });
+    return rows;
+}
+
+/**
+ * A two-player game flown straight up to orbit without the pod, so every
+ * turn ends on MISSION INCOMPLETE and hands over behind a PLAYER message.
+ */
+function twoPlayerTurns(): TraceRow[] {
+    const game = createGameFromReplayStart(newGameStart(0, 0x2468, true));
+    const rows: TraceRow[] = [];
+    for (let tick = 0; tick < 3000 && !game.gameOver; tick++) {
+        gameTick(game, { thrust: tick % 3 === 0, rotateLeft: false, rotateRight: false, fire: false, shieldTractor: false });
+        rows.push({
+            tick,
+            player: game.turns!.current,
+            lives: game.lives,
+            waitingLives: game.turns!.waiting.lives,
+            messageTimer: game.messageTimer,
+            playerMessage: game.messageText === `PLAYER ${game.turns!.current + 1}`,
+            teleporting: game.teleport !== null,
+        });
+    }
+    return rows;
+}
+
+const SCENARIOS: Scenario[] = [
+    { name: "solo-ship-physics", description: "Scripted flight on every gravity setting", run: soloShipPhysics },
+    { name: "attached-pod-physics", description: "Pod swing from off-axis thrust", run: () => podPhysics(false) },
+    { name: "fixed-point-pod-physics", description: "Pod swing in the bit-exact integer mode", run: () => podPhysics(true) },
+    { name: "scrolling-dead-zone", description: "Scroll window following the solo flight", run: scrollingDeadZone },
+    { name: "turret-firing-system", description: "Level 2 turrets firing, with a ceasefire", run: turretFiring },
+    { name: "generator-system", description: "Power plant hits, overload and countdown", run: generatorSystem },
+    { name: "switches-and-doors", description: "Door open/close cycle on each level", run: switchesAndDoors },
+    { name: "two-player-turns", description: "Turns handed over after MISSION INCOMPLETE", run: twoPlayerTurns },
+];
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function valuesMatch(expected: number | boolean, actual: number | boolean): boolean {
+    if (typeof expected === "number" && typeof actual === "number") {
+        return Math.abs(expected - actual) <= FLOAT_TOLERANCE;
+    }
+    return expected === actual;
+}
+
+/** Describe the first difference between two traces, or return null if they match. */
+function compareRows(expected: TraceRow[], actual: TraceRow[]): string | null {
+    const count = Math.max(expected.length, actual.length);
+    for (let i = 0; i < count; i++) {
+        const e = expected[i];
+        const a = actual[i];
+        if (!e || !a) return `row ${i}: trace has ${expected.length} rows, run produced ${actual.length}`;
+        const keys = new Set([...Object.keys(e), ...Object.keys(a)]);
+        for (const key of keys) {
+            if (!(key in e) || !(key in a) || !valuesMatch(e[key], a[key])) {
+                return `row ${i} (tick ${a.tick ?? e.tick}): ${key} expected ${e[key]}, got ${a[key]}`;
+            }
+        }
+    }
+    return null;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+const args = process.argv.slice(2);
+const update = args.includes("--update");
+const only = args.filter(a => !a.startsWith("--"));
+const selected = only.length > 0 ? SCENARIOS.filter(s => only.includes(s.name)) : SCENARIOS;
+
+if (only.length > 0 && selected.length !== only.length) {
+    console.error(`Unknown scenario. Available: ${SCENARIOS.map(s => s.name).join(", ")}`);
+    process.exit(2);
+}
+
+let failures = 0;
+for (const scenario of selected) {
+    const file = path.join(TRACES_DIR, `${scenario.name}.json`);
+    const rows = scenario.run();
+
+    if (update) {
+        const trace: Trace = { scenario: scenario.name, description: scenario.description, rows };
+        fs.mkdirSync(TRACES_DIR, { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(trace, null, 0).replace(/\},\{/g, "},\n{") + "\n");
+        console.log(`Written ${file} (${rows.length} rows)`);
+        continue;
+    }
+
+    if (!fs.existsSync(file)) {
+        console.log(`FAIL ${scenario.name}: no trace at ${file} (run with --update)`);
+        failures++;
+        continue;
+    }
+
+    const trace = JSON.parse(fs.readFileSync(file, "utf8")) as Trace;
+    const difference = compareRows(trace.rows, rows);
+    if (difference) {
+        console.log(`FAIL ${scenario.name}: ${difference}`);
+        failures++;
+    } else {
+        console.log(`ok   ${scenario.name} (${rows.length} rows)`);
+    }
+}
+
+if (failures > 0) {
+    console.log(`${failures} of ${selected.length} scenarios differ from their golden traces`);
+    process.exit(1);
+}
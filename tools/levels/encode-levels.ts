@@ -0,0 +1,123 @@
+#!/usr/bin/env npx tsx
+
+import * as fs from "fs";
+import { Level, LevelTables, originalLevelTables } from "./level-data";
+import { decodeLevel } from "./level-decoder";
+import { encodeLevel, formatLevelAsm } from "./level-encoder";
+import { levels as stockLevels } from "../../src/levels";
+import { parseLevelFile } from "../../src/levelFile";
+import { bbcMicroColours } from "../../src/rendering";
+
+/**
+ * Thrust Level Encoder
+ *
+ * Encodes a Level back into the original 6502 data tables, so levels made
+ * for this port (level files from the editor) can be assembled into the
+ * BBC Micro game and played on real hardware or an emulator.
+ *
+ * With no arguments it checks the round trip for the six stock levels:
+ * each level in src/levels.ts must survive decode(encode(level)), and
+ * must also match what the original tables decode to. Whether the
+ * encoded tables are byte-for-byte the original ones is reported too,
+ * but not required: different tables can decode to the same level.
+ *
+ * Usage (from tools/levels):
+ *   npx tsx encode-levels.ts                        round-trip check, exit 1 on mismatch
+ *   npx tsx encode-levels.ts <slot> <level.json>    print BeebAsm tables for level slot 0-5
+ */
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** The game's levels use CSS colours; the tables and decoder use BBC Micro colour names. */
+function withColourNames(level: Level): Level {
+    const name = (css: string) => Object.entries(bbcMicroColours).find(([, value]) => value === css)?.[0] ?? css;
+    return { ...level, terrainColor: name(level.terrainColor), objectColor: name(level.objectColor) };
+}
+
+/** Path of the first difference between two JSON-like values, or null if they are equal. */
+function firstDifference(a: unknown, b: unknown, path = "level"): string | null {
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+        return a === b ? null : `${path}: ${JSON.stringify(a)} != ${JSON.stringify(b)}`;
+    }
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+        const diff = firstDifference(
+            (a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key],
+            Array.isArray(a) ? `${path}[${key}]` : `${path}.${key}`,
+        );
+        if (diff) return diff;
+    }
+    return null;
+}
+
+/** Names of the tables that are not byte-for-byte the same. */
+function differingTables(a: LevelTables, b: LevelTables): string[] {
+    const differing: string[] = [];
+    for (const [name, table] of Object.entries({ ...a.terrain, ...a.objects })) {
+        const other = ({ ...b.terrain, ...b.objects } as Record<string, number[]>)[name];
+        if (JSON.stringify(table) !== JSON.stringify(other)) differing.push(name);
+    }
+    if (JSON.stringify(a.reset) !== JSON.stringify(b.reset)) differing.push("reset");
+    return differing;
+}
+
+// ============================================================================
+// Round-trip check
+// ============================================================================
+
+function checkRoundTrip(): boolean {
+    let ok = true;
+    stockLevels.forEach((stock, slot) => {
+        const level = withColourNames(stock);
+        const problems: string[] = [];
+
+        const fromOriginal = firstDifference(level, decodeLevel(originalLevelTables[slot], slot));
+        if (fromOriginal) problems.push(`levels.ts differs from the original tables: ${fromOriginal}`);
+
+        let tables: LevelTables | null = null;
+        try {
+            tables = encodeLevel(level, slot);
+            const roundTrip = firstDifference(level, decodeLevel(tables, slot));
+            if (roundTrip) problems.push(`decode(encode(level)) differs: ${roundTrip}`);
+        } catch (e) {
+            problems.push(`encode failed: ${(e as Error).message}`);
+        }
+
+        if (problems.length > 0) {
+            ok = false;
+            console.log(`  ${stock.name}: FAIL`);
+            for (const problem of problems) console.log(`    ${problem}`);
+        } else if (tables) {
+            const differing = differingTables(tables, originalLevelTables[slot]);
+            const bytes = differing.length === 0 ? "identical to the original" : `differ from the original in ${differing.join(", ")}`;
+            console.log(`  ${stock.name}: ok (tables ${bytes})`);
+        }
+    });
+    return ok;
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+const args = process.argv.slice(2);
+
+if (args.length === 0) {
+    process.exit(checkRoundTrip() ? 0 : 1);
+}
+
+const slot = Number(args[0]);
+if (args.length !== 2 || !Number.isInteger(slot) || slot < 0 || slot >= originalLevelTables.length) {
+    console.error("Usage: npx tsx encode-levels.ts [<slot 0-5> <level.json>]");
+    process.exit(1);
+}
+
+try {
+    const level = withColourNames(parseLevelFile(fs.readFileSync(args[1], "utf8")));
+    process.stdout.write(formatLevelAsm(encodeLevel(level, slot), slot));
+} catch (e) {
+    console.error(`${args[1]}: ${(e as Error).message}`);
+    process.exit(1);
+}
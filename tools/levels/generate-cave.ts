@@ -0,0 +1,30 @@
+#!/usr/bin/env npx tsx
+
+import { generateCave, caveParams, MAX_CAVE_DIFFICULTY, DEFAULT_CAVE_DIFFICULTY } from "../../src/caveGenerator";
+import { serializeLevel } from "../../src/levelFile";
+
+/**
+ * Cave generator CLI
+ *
+ * Prints a generated cave as a level file, ready for the O key on the
+ * title screen or L in the editor. The same seed and difficulty always
+ * give the same cave.
+ *
+ * Usage (from tools/levels):
+ *   npx tsx generate-cave.ts <seed> [difficulty 0-5] > cave.json
+ */
+
+const seed = Number(process.argv[2]);
+const difficulty = process.argv[3] === undefined ? DEFAULT_CAVE_DIFFICULTY : Number(process.argv[3]);
+if (process.argv.length > 4 || !Number.isInteger(seed) || seed < 1 || seed > 0xFFFF
+    || !Number.isInteger(difficulty) || difficulty < 0 || difficulty > MAX_CAVE_DIFFICULTY) {
+  console.error(`Usage: npx tsx generate-cave.ts <seed 1-65535> [difficulty 0-${MAX_CAVE_DIFFICULTY}]`);
+  process.exit(1);
+}
+
+try {
+  process.stdout.write(serializeLevel(generateCave(seed, caveParams(difficulty))));
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
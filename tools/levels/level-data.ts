@@ -0,0 +1,236 @@
+/**
+ * Thrust level data tables
+ *
+ * The per-level tables of the BBC Micro original, as extracted from the
+ * 6502 source, and the Level type they decode to. Shared by the decoder
+ * (decode-levels.ts) and the encoder (encode-levels.ts).
+ *
+ * Each level's own tables are gathered into a LevelTables; the values
+ * that live in shared per-level tables in the original (colours,
+ * gravity) are single entries of it.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Polygon = Array<number>;
+export type ObjectPosition = { x: number; y: number };
+export type TurretDirection = 'up_left' | 'up_right' | 'down_left' | 'down_right';
+export type TurretPosition = ObjectPosition & { direction: TurretDirection; gunParam: number };
+export type SwitchDirection = 'left' | 'right';
+export type SwitchPosition = ObjectPosition & { direction: SwitchDirection };
+export type DoorType = 'slide' | 'step' | 'chevron';
+export type DoorConfig = {
+    type: DoorType;
+    worldY: number;
+    threshold: number;
+    scanlines: number;
+    closedX: number;
+    openX: number;
+    innerX: number;
+};
+
+/**
+ * A spawn/respawn point. Levels with vertical depth have multiple checkpoints
+ * ordered top-to-bottom by Y. On death the game picks the nearest checkpoint
+ * at or above the ship's current Y position. The first entry (index 0) is
+ * always used for a fresh level start.
+ *
+ * Fields decoded from level_reset_data:
+ *   midpointX/Y  - ship midpoint position (Y is 16-bit: yHigh*256 + yInt)
+ *   windowX/Y    - initial scroll window position (Y is 16-bit: yExt*256 + yInt)
+ */
+export type SpawnPoint = {
+    midpointX: number;
+    midpointY: number;
+    windowX: number;
+    windowY: number;
+};
+
+export type Level = {
+    name: string;
+    terrainColor: string;
+    objectColor: string;
+    gravity: number;
+    spawnPoints: SpawnPoint[];
+    polygons: Polygon[];
+    turrets: TurretPosition[];
+    powerPlant: ObjectPosition;
+    podPedestal: ObjectPosition;
+    fuel: ObjectPosition[];
+    switches: SwitchPosition[];
+    doorConfig: DoorConfig | null;
+};
+
+// ============================================================================
+// BBC Micro Mode 1 physical colours
+// ============================================================================
+
+export const bbcMicroColours: Record<number, string> = {
+    0: "black", 1: "red", 2: "green", 3: "yellow",
+    4: "blue", 5: "magenta", 6: "cyan", 7: "white",
+};
+
+// ============================================================================
+// Object type constants
+// ============================================================================
+
+export const OBJECT_FUEL = 0x4;
+export const OBJECT_POD_STAND = 0x5;
+export const OBJECT_GENERATOR = 0x6;
+export const OBJECT_DOOR_SWITCH_RIGHT = 0x07;
+export const OBJECT_DOOR_SWITCH_LEFT = 0x08;
+
+export function isGunType(type: number): boolean {
+    return type >= 0x0 && type <= 0x3;
+}
+
+// ============================================================================
+// Raw level data extracted from the 6502 source
+// ============================================================================
+
+const terrainData = [
+    {
+        A: [0xff,0xff,0xab,0x01,0x0f,0x01,0x0c,0x01,0xff],
+        B: [0x00,0x00,0x00,0x55,0x01,0x15,0x01,0x19,0x00],
+        C: [0xff,0xff,0xab,0x01,0x09,0x01,0xff],
+        D: [0x00,0x00,0x00,0xb7,0xff,0xf1,0x00],
+    },
+    {
+        A: [0xff,0xff,0xaf,0x01,0x0b,0x01,0x17,0x36,0x17,0x14,0x0f,0x01,0xff],
+        B: [0x00,0x00,0x00,0x4a,0x01,0x19,0x01,0x00,0xff,0x00,0x01,0x14,0x00],
+        C: [0xff,0xff,0xaf,0x01,0x1b,0x3a,0x11,0x15,0x18,0xff],
+        D: [0x00,0x00,0x00,0xb4,0xff,0x00,0x01,0x00,0xff,0x00],
+    },
+    {
+        A: [0xff,0xff,0xb9,0x01,0x50,0x0a,0x32,0x01,0x0a,0x1e,0x01,0x0a,0x55,0x0a,0x01,0xff],
+        B: [0x00,0x00,0x00,0x87,0x00,0xff,0x00,0xe2,0xff,0x00,0xf1,0xff,0x00,0x01,0x15,0x00],
+        C: [0xff,0xff,0xb9,0x01,0x13,0x01,0x3c,0x01,0x14,0x0a,0x01,0x3c,0x01,0x32,0x01,0x09,0xff],
+        D: [0x00,0x00,0x00,0xb4,0x00,0xe9,0x00,0x18,0x00,0xff,0xec,0x00,0xe2,0x00,0xec,0xff,0x00],
+    },
+    {
+        A: [0xff,0xff,0xa0,0x01,0x13,0x01,0x15,0x26,0x14,0x0a,0x06,0x14,0x22,0x01,0x14,0x01,0x26,0x1c,0x24,0x0a,0xff,0xff],
+        B: [0x00,0x00,0x00,0x5a,0x01,0x11,0x00,0xff,0x00,0x01,0x00,0xff,0x00,0x19,0x01,0x21,0x00,0xff,0x00,0x01,0x00,0x00],
+        C: [0xff,0xff,0xa0,0x01,0x67,0x01,0x12,0x18,0x01,0x84,0x18,0x14,0x01,0xff,0xff],
+        D: [0x00,0x00,0x00,0x8d,0x00,0xe2,0x00,0x01,0x28,0x00,0xff,0x00,0xf4,0x00,0x00],
+    },
+    {
+        A: [0xff,0xff,0xa5,0x01,0x15,0x16,0x01,0x38,0x01,0x0c,0x1c,0x01,0x28,0x14,0x01,0x56,0x14,0x0e,0x01,0x1c,0x0c,0x01,0x1e,0x0c,0x01,0x52,0x08,0x01,0xff],
+        B: [0x00,0x00,0x00,0x58,0x01,0x00,0x17,0x00,0xf6,0xff,0x00,0x0a,0x00,0xff,0xec,0x00,0x01,0x00,0xf6,0x00,0x01,0x12,0x00,0x01,0x14,0x00,0x01,0x0a,0x00],
+        C: [0xff,0xff,0xa5,0x01,0x64,0x01,0x0a,0x1e,0x01,0x28,0x01,0x28,0x0a,0x01,0x22,0x20,0x2c,0x01,0x0a,0x16,0x01,0x3e,0x10,0x1e,0x0c,0xff],
+        D: [0x00,0x00,0x00,0x93,0x00,0x0e,0x01,0x00,0xdc,0x00,0x08,0x00,0xff,0xde,0x00,0x01,0x00,0x0a,0x01,0x00,0x10,0x00,0x01,0x00,0xff,0x00],
+    },
+    {
+        A: [0xff,0xff,0x7f,0x01,0x3e,0x01,0x50,0x28,0x01,0x0a,0xa2,0x01,0x36,0x0d,0x14,0x36,0x0e,0x0d,0x1f,0x0a,0x39,0x01,0xff],
+        B: [0x00,0x00,0x00,0x4d,0x00,0x17,0x01,0x00,0xec,0xff,0x00,0xef,0x00,0xff,0x00,0x01,0x00,0xff,0x00,0xff,0x00,0x0b,0x00],
+        C: [0xff,0xff,0x7f,0x01,0x2b,0x14,0x37,0x41,0x14,0x14,0x01,0x1c,0x22,0x12,0x14,0x0a,0x32,0x01,0x27,0x2c,0x1e,0x07,0x07,0x38,0x1c,0x23,0x01,0x16,0x01,0xff],
+        D: [0x00,0x00,0x00,0xb7,0xff,0x00,0x01,0x00,0x01,0x00,0xe7,0xff,0x00,0x01,0x00,0xff,0x00,0xeb,0x00,0x01,0x00,0x01,0xff,0x00,0xff,0x00,0x0d,0x00,0xf1,0x00],
+    },
+];
+
+const objectData = [
+    {
+        posX:  [0x8f,0xa0,0x6e,0x7d],
+        posY:  [0xbd,0xab,0xb3,0xbb],
+        posYE: [0x01,0x01,0x01,0x01],
+        types: [0x05,0x06,0x04,0x00,0xff],
+        gunParams: [0x00,0x00,0x00,0x1e],
+    },
+    {
+        posX:  [0x7f,0x64,0x8b,0x74,0x9e],
+        posY:  [0x38,0xb1,0x3b,0x14,0x0a],
+        posYE: [0x02,0x01,0x02,0x02,0x02],
+        types: [0x05,0x06,0x04,0x01,0x03,0xff],
+        gunParams: [0x00,0x00,0x00,0x06,0x0f],
+    },
+    {
+        posX:  [0x4e,0xa4,0x78,0x97,0x9d,0xa3,0x7d,0x67,0x5d,0x3e,0x58,0xab,0x81],
+        posY:  [0xce,0xc3,0xb1,0x21,0x21,0x21,0x5e,0x91,0x97,0x72,0x48,0x1e,0x0a],
+        posYE: [0x02,0x01,0x01,0x02,0x02,0x02,0x02,0x02,0x02,0x02,0x02,0x02,0x02],
+        types: [0x05,0x06,0x04,0x04,0x04,0x04,0x04,0x04,0x02,0x01,0x01,0x02,0x01,0xff],
+        gunParams: [0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x1b,0x06,0x0a,0x16,0x04],
+    },
+    {
+        posX:  [0x8e,0x5b,0xac,0xac,0x92,0x72,0x5a,0x5a,0x78,0x6d,0x8a,0xa2],
+        posY:  [0xd9,0x40,0x51,0x87,0x57,0xd0,0x01,0x16,0x24,0x4c,0x92,0xba],
+        posYE: [0x02,0x02,0x02,0x02,0x02,0x01,0x02,0x02,0x02,0x02,0x02,0x02],
+        types: [0x05,0x06,0x08,0x08,0x04,0x01,0x00,0x01,0x03,0x00,0x01,0x02,0xff],
+        gunParams: [0x00,0x00,0x00,0x00,0x00,0x06,0x06,0x06,0x12,0x1f,0x06,0x1e],
+    },
+    {
+        posX:  [0xa2,0x8f,0xa4,0x98,0x7c,0x9a,0xa0,0x68,0x69,0x6f,0x89,0x8f,0x72,0xa2,0x86,0x5d,0x8e,0x7b,0xac],
+        posY:  [0x8d,0x29,0x25,0x75,0xc9,0x2b,0x2b,0x87,0x0a,0x0a,0x35,0x35,0x0d,0x0c,0x83,0x04,0x00,0x2f,0x63],
+        posYE: [0x03,0x02,0x03,0x03,0x01,0x02,0x02,0x02,0x03,0x03,0x03,0x03,0x02,0x02,0x02,0x03,0x03,0x03,0x03],
+        types: [0x05,0x06,0x08,0x07,0x04,0x04,0x04,0x04,0x04,0x04,0x04,0x04,0x01,0x03,0x02,0x00,0x03,0x00,0x03,0xff],
+        gunParams: [0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x05,0x14,0x1a,0x02,0x12,0x1e,0x19],
+    },
+    {
+        posX:  [0x9a,0xa9,0xa1,0xbe,0x9a,0xc1,0xaf,0x9b,0xa2,0x9b,0x7b,0xac,0xac,0xac,0xca,0x99,0x99],
+        posY:  [0xe4,0x04,0x98,0x5d,0xf8,0x57,0xbf,0xac,0x86,0x2e,0x1f,0xc1,0xa8,0x67,0x3e,0x39,0xcc],
+        posYE: [0x03,0x04,0x03,0x03,0x02,0x02,0x03,0x03,0x03,0x03,0x03,0x02,0x02,0x02,0x02,0x02,0x01],
+        types: [0x05,0x06,0x07,0x08,0x04,0x04,0x02,0x01,0x01,0x03,0x01,0x02,0x03,0x02,0x03,0x01,0x03,0xff],
+        gunParams: [0x00,0x00,0x00,0x00,0x00,0x00,0x1a,0x06,0x09,0x12,0x06,0x16,0x12,0x1b,0x12,0x05,0x0e],
+    },
+];
+
+const levelResetData = [
+    { size: 1, data: [0x01,0x91,0x56,0x01,0x24,0x6c] },
+    { size: 1, data: [0x01,0x91,0x56,0x01,0x24,0x6c] },
+    { size: 3, data: [0x01,0x02,0x02, 0x91,0x2d,0x96, 0x56,0x6f,0x32, 0x01,0x01,0x02, 0x24,0xaa,0x23, 0x6c,0x86,0x48] },
+    { size: 3, data: [0x01,0x01,0x02, 0x91,0xe6,0x4a, 0x56,0x57,0x76, 0x01,0x01,0x01, 0x24,0x60,0xd8, 0x6c,0x7b,0xa1] },
+    { size: 4, data: [0x01,0x02,0x02,0x03, 0x91,0x68,0xdc,0x15, 0x56,0x58,0x43,0x64, 0x01,0x01,0x02,0x02, 0x24,0xee,0x66,0x9f, 0x6c,0x7b,0x6b,0x81] },
+    { size: 5, data: [0x01,0x02,0x02,0x03,0x03, 0x91,0x4b,0xd4,0x2a,0x98, 0x56,0x8c,0x82,0x6e,0x87, 0x01,0x01,0x02,0x02,0x03, 0x24,0xd8,0x5a,0xb4,0x1b, 0x6c,0xa2,0x9a,0x87,0xae] },
+];
+
+const levelLandscapeColour = [0x01, 0x02, 0x06, 0x02, 0x01, 0x05];
+const levelObjectColour = [0x02, 0x01, 0x02, 0x05, 0x05, 0x06];
+
+// level_gravity_FRAC_table (INT is always 0)
+const levelGravityFrac = [0x05, 0x07, 0x09, 0x0B, 0x0C, 0x0D];
+
+export const gunTypeToDirection: Record<number, TurretDirection> = {
+    0x00: 'up_right',
+    0x01: 'down_right',
+    0x02: 'up_left',
+    0x03: 'down_left',
+};
+
+
+/**
+ * Door geometry by level slot. The doors are driven by per-level 6502
+ * code rather than data tables, so a level can only have the door its
+ * slot's code draws.
+ */
+export const doorConfigs: Record<number, DoorConfig> = {
+    3: { type: 'slide', worldY: 617, threshold: 16, scanlines: 13, closedX: 174, openX: 158, innerX: 156 },
+    4: { type: 'step', worldY: 835, threshold: 21, scanlines: 21, closedX: 166, openX: 152, innerX: 152 },
+    5: { type: 'chevron', worldY: 880, threshold: 18, scanlines: 15, closedX: 192, openX: 174, innerX: 174 },
+};
+
+// ============================================================================
+// Tables grouped per level
+// ============================================================================
+
+export type TerrainTables = { A: number[]; B: number[]; C: number[]; D: number[] };
+export type ObjectTables = { posX: number[]; posY: number[]; posYE: number[]; types: number[]; gunParams: number[] };
+export type ResetTables = { size: number; data: number[] };
+
+/** Everything the original stores for one level */
+export type LevelTables = {
+    terrain: TerrainTables;
+    objects: ObjectTables;
+    reset: ResetTables;
+    landscapeColour: number;
+    objectColour: number;
+    gravityFrac: number;
+};
+
+export const originalLevelTables: LevelTables[] = terrainData.map((terrain, i) => ({
+    terrain,
+    objects: objectData[i],
+    reset: levelResetData[i],
+    landscapeColour: levelLandscapeColour[i],
+    objectColour: levelObjectColour[i],
+    gravityFrac: levelGravityFrac[i],
+}));
@@ -0,0 +1,217 @@
+/**
+ * Thrust level decoder
+ *
+ * Turns a level's 6502 data tables (see level-data.ts) into a Level. The
+ * terrain is stored as run-length encoded wall profiles (left wall and
+ * right wall), with a count table and an x-increment table for each wall.
+ * Objects are stored as parallel arrays of X, Y (INT+EXT), type, and gun
+ * params.
+ *
+ * Terrain encoding:
+ *   Table A/C = counts (how many rows at this increment)
+ *   Table B/D = x increments (signed, added to accumulated x each row)
+ *   Left wall starts at x=0, right wall starts at x=0xFF (255)
+ *   Initial zero-increment segments are sky above the world.
+ *
+ * Display coordinate mapping:
+ *   display_y = raw_row - 256
+ */
+
+import {
+    Level, Polygon, ObjectPosition, TurretPosition, SwitchPosition, SpawnPoint,
+    LevelTables, TerrainTables, ObjectTables, ResetTables,
+    bbcMicroColours, doorConfigs, gunTypeToDirection, isGunType,
+    OBJECT_FUEL, OBJECT_POD_STAND, OBJECT_GENERATOR, OBJECT_DOOR_SWITCH_LEFT, OBJECT_DOOR_SWITCH_RIGHT,
+} from "./level-data";
+
+/** Raw table rows above the top of the world */
+export const Y_OFFSET = 256;
+
+// ============================================================================
+// Terrain decoder - simplified polygon vertices
+// ============================================================================
+
+function toSigned(byte: number): number {
+    return byte > 127 ? byte - 256 : byte;
+}
+
+/**
+ * Generate simplified polygon vertices for a wall.
+ *
+ * Processes the RLE terrain data and emits a vertex at each segment boundary
+ * (where the x-increment changes). This produces clean diagonal lines between
+ * vertices, matching the original game's visual appearance.
+ *
+ * For level 0 left wall, this produces:
+ *   0,425 -> 85,425 -> 100,440 -> 121,441 -> 133,453 -> 158,454
+ */
+function generateWallPolygon(
+    countTable: number[],
+    incrementTable: number[],
+    startX: number,
+    isLeftWall: boolean,
+    yOffset: number,
+    bottomY: number,
+): Polygon {
+    const polygon: number[] = [];
+    const edgeX = isLeftWall ? 0 : 256;
+
+    let x = startX;
+    let row = 0;
+
+    // Process segments, collecting vertices at boundaries
+    const vertices: Array<{ x: number; y: number }> = [];
+
+    for (let i = 0; i < countTable.length; i++) {
+        const count = countTable[i];
+        const inc = incrementTable[i];
+
+        // Terminal sentinel: 0xFF with inc=0 AFTER the initial sky segments
+        if (count === 0xff && inc === 0 && i > 1) break;
+
+        // Skip initial sky segments (flat at starting x)
+        if (inc === 0 && x === startX && vertices.length === 0) {
+            row += count;
+            continue;
+        }
+
+        // Advance through the segment using 8-bit wrapping (matches 6502 byte arithmetic)
+        x = (x + count * inc) & 0xFF;
+        row += count;
+        const endY = (row - 1) - yOffset;
+
+        // Emit the endpoint vertex for this segment
+        vertices.push({ x, y: endY });
+    }
+
+    if (vertices.length === 0) return [];
+
+    // Build closed polygon
+    polygon.push(edgeX, vertices[0].y);
+    for (const v of vertices) {
+        polygon.push(v.x, v.y);
+    }
+    polygon.push(vertices[vertices.length - 1].x, bottomY);
+    polygon.push(edgeX, bottomY);
+
+    return polygon;
+}
+
+/**
+ * Calculate the total terrain depth (in display coordinates) for bottom-closing.
+ */
+function calculateTerrainDepth(countTable: number[], yOffset: number): number {
+    let totalRows = 0;
+    for (let i = 0; i < countTable.length; i++) {
+        totalRows += countTable[i];
+    }
+    return totalRows - yOffset;
+}
+
+// ============================================================================
+// Object & starting position decoders
+// ============================================================================
+
+/**
+ * Decode all spawn/respawn points for a level from the reset data.
+ *
+ * The reset data is stored as 6 parallel arrays (stripes) of `size` entries:
+ *   stripe 0: midpoint_ypos_INT_HI  (Y high byte)
+ *   stripe 1: midpoint_ypos_INT     (Y low byte)
+ *   stripe 2: window_xpos_INT
+ *   stripe 3: window_ypos_EXT       (window Y high byte)
+ *   stripe 4: window_ypos_INT       (window Y low byte)
+ *   stripe 5: midpoint_xpos_INT
+ *
+ * Points are ordered top-to-bottom by Y. On death the 6502 code walks
+ * through them doing a 16-bit comparison (yHigh:yInt >= shipYHigh:shipYInt)
+ * to find the nearest checkpoint at or above the ship's current depth.
+ */
+function getSpawnPoints(r: ResetTables): SpawnPoint[] {
+    const s = r.size;
+    const points: SpawnPoint[] = [];
+
+    for (let i = 0; i < s; i++) {
+        points.push({
+            midpointX: r.data[s * 5 + i] + 4,
+            midpointY: r.data[s * 0 + i] * 256 + r.data[s * 1 + i],
+            windowX:   r.data[s * 2 + i],
+            windowY:   r.data[s * 3 + i] * 256 + r.data[s * 4 + i],
+        });
+    }
+
+    return points;
+}
+
+function decodeObjects(obj: ObjectTables) {
+    const turrets: TurretPosition[] = [];
+    const fuel: ObjectPosition[] = [];
+    const switches: SwitchPosition[] = [];
+    let powerPlant: ObjectPosition = { x: 0, y: 0 };
+    let podPedestal: ObjectPosition = { x: 0, y: 0 };
+
+    const numObjects = obj.types.indexOf(0xff);
+    for (let i = 0; i < numObjects; i++) {
+        const type = obj.types[i];
+        const pos: ObjectPosition = { x: obj.posX[i], y: obj.posYE[i] * 256 + obj.posY[i] };
+
+        if (isGunType(type)) turrets.push({ ...pos, direction: gunTypeToDirection[type], gunParam: obj.gunParams[i] });
+        else if (type === OBJECT_FUEL) fuel.push(pos);
+        else if (type === OBJECT_POD_STAND) podPedestal = pos;
+        else if (type === OBJECT_GENERATOR) powerPlant = pos;
+        else if (type === OBJECT_DOOR_SWITCH_LEFT) switches.push({ ...pos, direction: 'left' });
+        else if (type === OBJECT_DOOR_SWITCH_RIGHT) switches.push({ ...pos, direction: 'right' });
+    }
+
+    return { turrets, powerPlant, podPedestal, fuel, switches };
+}
+
+// ============================================================================
+// Main decoder
+// ============================================================================
+
+/**
+ * Calculate the bottom y the wall polygons are closed at, from the total
+ * rows in both walls' tables (the final 0xFF segment is not terrain).
+ */
+export function terrainBottomY(terrain: TerrainTables): number {
+    const leftDepth = calculateTerrainDepth(terrain.A, Y_OFFSET);
+    const rightDepth = calculateTerrainDepth(terrain.C, Y_OFFSET);
+    // Approximate the last meaningful terrain vertex row
+    // (total rows minus the final terminal 0xFF segment = 255)
+    const approxLastVertex = Math.max(leftDepth, rightDepth) - 255;
+    return Math.round((approxLastVertex + 150) / 50) * 50;
+}
+
+/** Decode one level's tables. The slot picks its name and door. */
+export function decodeLevel(tables: LevelTables, slot: number): Level {
+    const td = tables.terrain;
+    const bottomY = terrainBottomY(td);
+
+    const leftPolygon = generateWallPolygon(td.A, td.B, 0, true, Y_OFFSET, bottomY);
+    const rightPolygon = generateWallPolygon(td.C, td.D, 0xff, false, Y_OFFSET, bottomY);
+
+    const polygons: Polygon[] = [];
+    if (leftPolygon.length > 0) polygons.push(leftPolygon);
+    if (rightPolygon.length > 0) polygons.push(rightPolygon);
+
+    const objects = decodeObjects(tables.objects);
+    const spawnPoints = getSpawnPoints(tables.reset);
+    const terrainColor = bbcMicroColours[tables.landscapeColour] ?? "white";
+    const objectColor = bbcMicroColours[tables.objectColour] ?? "white";
+
+    return {
+        name: `Level ${slot}`,
+        terrainColor,
+        objectColor,
+        gravity: tables.gravityFrac,
+        spawnPoints,
+        polygons,
+        turrets: objects.turrets,
+        powerPlant: objects.powerPlant,
+        podPedestal: objects.podPedestal,
+        fuel: objects.fuel,
+        switches: objects.switches,
+        doorConfig: doorConfigs[slot] ?? null,
+    };
+}
@@ -0,0 +1,318 @@
+/**
+ * Thrust level encoder
+ *
+ * The inverse of level-decoder.ts: turns a Level back into the 6502 data
+ * tables (see level-data.ts), so a level built for this port can be
+ * assembled into the original game. decodeLevel(encodeLevel(level, slot),
+ * slot) gives back the same Level.
+ *
+ * Only levels the original's data can describe are encodable:
+ *   - exactly two polygons, a left wall starting at x=0 and a right wall
+ *     starting at x=256, each shaped like the decoder's output: edge,
+ *     profile vertices going down the screen, then closed at a shared
+ *     bottom y;
+ *   - each profile edge must be a whole x step per row (any x jump is
+ *     fine for an edge one row tall);
+ *   - every position must fit the original's bytes;
+ *   - the door must be the one the slot's 6502 door code draws.
+ *
+ * Anything else throws an Error describing the first problem found.
+ */
+
+import {
+    Level, Polygon, DoorConfig, TurretDirection,
+    LevelTables, TerrainTables, ObjectTables, ResetTables,
+    bbcMicroColours, doorConfigs, gunTypeToDirection,
+    OBJECT_FUEL, OBJECT_POD_STAND, OBJECT_GENERATOR, OBJECT_DOOR_SWITCH_LEFT, OBJECT_DOOR_SWITCH_RIGHT,
+} from "./level-data";
+import { Y_OFFSET, terrainBottomY } from "./level-decoder";
+
+/** Count/increment pair that ends a wall profile */
+const TERMINATOR_COUNT = 0xff;
+
+/** The decoder rounds the bottom y it closes the walls at to this */
+const BOTTOM_Y_STEP = 50;
+
+/** The decoder only treats a 0xFF, 0 segment as the terminator from the third segment on */
+const FIRST_TERMINATOR_INDEX = 2;
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function expectByte(value: number, what: string): number {
+    if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+        throw new Error(`${what} must be a whole number from 0 to 255 (got ${value})`);
+    }
+    return value;
+}
+
+function sameDoor(a: DoorConfig | null, b: DoorConfig | null): boolean {
+    if (!a || !b) return a === b;
+    return (Object.keys(b) as (keyof DoorConfig)[]).every(key => a[key] === b[key]);
+}
+
+// ============================================================================
+// Terrain encoder
+// ============================================================================
+
+type Vertex = { x: number; y: number };
+
+type WallTables = { counts: number[]; increments: number[] };
+
+function wallSegments(polygon: Polygon, isLeftWall: boolean, name: string): { vertices: Vertex[]; bottomY: number } {
+    const edgeX = isLeftWall ? 0 : 256;
+    const points: Vertex[] = [];
+    for (let i = 0; i < polygon.length; i += 2) points.push({ x: polygon[i], y: polygon[i + 1] });
+
+    const n = points.length;
+    if (n < 4) throw new Error(`${name} needs at least one profile vertex`);
+    if (points[0].x !== edgeX || points[n - 1].x !== edgeX) {
+        throw new Error(`${name} must start and end at x=${edgeX}`);
+    }
+    if (points[0].y !== points[1].y) throw new Error(`${name} must start level with its first profile vertex`);
+    if (points[n - 2].y !== points[n - 1].y || points[n - 2].x !== points[n - 3].x) {
+        throw new Error(`${name} must end straight down from its last profile vertex, then back along the bottom`);
+    }
+    return { vertices: points.slice(1, n - 2), bottomY: points[n - 1].y };
+}
+
+/** Append `rows` rows at a fixed increment, splitting runs longer than a count byte. */
+function pushRun(wall: WallTables, rows: number, increment: number): void {
+    while (rows > 0) {
+        // A 0xFF run with no increment would read back as the terminator
+        const max = increment === 0 && wall.counts.length >= FIRST_TERMINATOR_INDEX ? 0xfe : 0xff;
+        const count = Math.min(rows, max);
+        wall.counts.push(count);
+        wall.increments.push(increment & 0xff);
+        rows -= count;
+    }
+}
+
+/**
+ * Run-length encode one wall's profile. Runs longer than 255 rows are
+ * split, so they decode with an extra vertex part way down the edge.
+ */
+function encodeWall(vertices: Vertex[], startX: number, name: string): WallTables {
+    const wall: WallTables = { counts: [], increments: [] };
+
+    for (const [i, v] of vertices.entries()) {
+        expectByte(v.x, `${name} vertex ${i} x`);
+        if (!Number.isInteger(v.y)) throw new Error(`${name} vertex ${i} y must be a whole number (got ${v.y})`);
+    }
+
+    // Sky: rows above the first vertex, then a one-row jump out to it
+    const first = vertices[0];
+    const skyRows = first.y + Y_OFFSET;
+    if (skyRows < 0) throw new Error(`${name} starts above the top of the world (y ${first.y})`);
+    if (first.x === startX) throw new Error(`${name} must start away from its edge (the decoder reads that as sky)`);
+    pushRun(wall, skyRows, 0);
+    wall.counts.push(1);
+    wall.increments.push((first.x - startX) & 0xff);
+
+    for (let i = 1; i < vertices.length; i++) {
+        const from = vertices[i - 1];
+        const to = vertices[i];
+        const rows = to.y - from.y;
+        const dx = to.x - from.x;
+        if (rows < 1) throw new Error(`${name} vertex ${i} must be below vertex ${i - 1}`);
+        if (rows === 1) {
+            wall.counts.push(1);
+            wall.increments.push(dx & 0xff);
+            continue;
+        }
+        const step = dx / rows;
+        if (!Number.isInteger(step) || step < -128 || step > 127) {
+            throw new Error(`${name} edge ${i - 1}-${i} moves ${dx} across ${rows} rows; it must move a whole step from -128 to 127 per row`);
+        }
+        pushRun(wall, rows, step);
+    }
+
+    wall.counts.push(TERMINATOR_COUNT);
+    wall.increments.push(0);
+    return wall;
+}
+
+/**
+ * Pad both walls after their terminators until the decoder's bottom-y
+ * estimate lands on `bottomY`: whole 0xFF runs as the original uses,
+ * trimmed back if they overshoot. The rows after a terminator are never
+ * drawn; they only set how deep the decoder closes the polygons.
+ */
+function padToBottom(terrain: TerrainTables, bottomY: number): void {
+    const natural = terrainBottomY(terrain);
+    if (bottomY % BOTTOM_Y_STEP !== 0 || bottomY < natural) {
+        throw new Error(`Walls must be closed at a multiple of ${BOTTOM_Y_STEP} from y ${natural} down (got ${bottomY})`);
+    }
+    const walls = [[terrain.A, terrain.B], [terrain.C, terrain.D]];
+    while (terrainBottomY(terrain) < bottomY) {
+        for (const [counts, increments] of walls) {
+            counts.push(0xff);
+            increments.push(0);
+        }
+    }
+    while (terrainBottomY(terrain) > bottomY) {
+        for (const [counts, increments] of walls) {
+            if (--counts[counts.length - 1] === 0) {
+                counts.pop();
+                increments.pop();
+            }
+        }
+    }
+}
+
+function encodeTerrain(polygons: Polygon[]): TerrainTables {
+    const left = polygons.find(p => p[0] === 0);
+    const right = polygons.find(p => p[0] === 256);
+    if (polygons.length !== 2 || !left || !right) {
+        throw new Error("Level must have exactly two polygons: a left wall from x=0 and a right wall from x=256");
+    }
+    const leftWall = wallSegments(left, true, "Left wall");
+    const rightWall = wallSegments(right, false, "Right wall");
+    if (leftWall.bottomY !== rightWall.bottomY) {
+        throw new Error(`Both walls must be closed at the same bottom y (${leftWall.bottomY} and ${rightWall.bottomY})`);
+    }
+
+    const a = encodeWall(leftWall.vertices, 0, "Left wall");
+    const c = encodeWall(rightWall.vertices, 0xff, "Right wall");
+    const terrain: TerrainTables = { A: a.counts, B: a.increments, C: c.counts, D: c.increments };
+    padToBottom(terrain, leftWall.bottomY);
+    return terrain;
+}
+
+// ============================================================================
+// Object & starting position encoders
+// ============================================================================
+
+const directionToGunType = Object.fromEntries(
+    Object.entries(gunTypeToDirection).map(([type, direction]) => [direction, Number(type)]),
+) as Record<TurretDirection, number>;
+
+/**
+ * Objects in the original's order: pod stand, generator, then switches,
+ * fuel and guns.
+ */
+function encodeObjects(level: Level): ObjectTables {
+    const tables: ObjectTables = { posX: [], posY: [], posYE: [], types: [], gunParams: [] };
+    const add = (x: number, y: number, type: number, gunParam: number, what: string) => {
+        tables.posX.push(expectByte(x, `${what} x`));
+        if (!Number.isInteger(y) || y < 0 || y > 0xffff) throw new Error(`${what} y must be a whole number from 0 to 65535 (got ${y})`);
+        tables.posY.push(y & 0xff);
+        tables.posYE.push(y >> 8);
+        tables.types.push(type);
+        tables.gunParams.push(expectByte(gunParam, `${what} gun param`));
+    };
+
+    add(level.podPedestal.x, level.podPedestal.y, OBJECT_POD_STAND, 0, "Pod pedestal");
+    add(level.powerPlant.x, level.powerPlant.y, OBJECT_GENERATOR, 0, "Power plant");
+    level.switches.forEach((s, i) => add(s.x, s.y,
+        s.direction === 'left' ? OBJECT_DOOR_SWITCH_LEFT : OBJECT_DOOR_SWITCH_RIGHT, 0, `Switch ${i}`));
+    level.fuel.forEach((f, i) => add(f.x, f.y, OBJECT_FUEL, 0, `Fuel ${i}`));
+    level.turrets.forEach((t, i) => add(t.x, t.y, directionToGunType[t.direction], t.gunParam, `Turret ${i}`));
+
+    tables.types.push(0xff);
+    return tables;
+}
+
+/** The six stripes the decoder's getSpawnPoints() reads, one entry per spawn point each. */
+function encodeSpawnPoints(level: Level): ResetTables {
+    const points = level.spawnPoints;
+    if (points.length === 0) throw new Error("Level must have at least one spawn point");
+    const stripes: number[][] = [[], [], [], [], [], []];
+    points.forEach((p, i) => {
+        for (const [field, value] of Object.entries(p)) {
+            if (!Number.isInteger(value) || value < 0) {
+                throw new Error(`Spawn point ${i} ${field} must be a whole number of 0 or more (got ${value})`);
+            }
+        }
+        stripes[0].push(expectByte(p.midpointY >> 8, `Spawn point ${i} midpointY high byte`));
+        stripes[1].push(p.midpointY & 0xff);
+        stripes[2].push(expectByte(p.windowX, `Spawn point ${i} windowX`));
+        stripes[3].push(expectByte(p.windowY >> 8, `Spawn point ${i} windowY high byte`));
+        stripes[4].push(p.windowY & 0xff);
+        stripes[5].push(expectByte(p.midpointX - 4, `Spawn point ${i} midpointX - 4`));
+    });
+    return { size: points.length, data: stripes.flat() };
+}
+
+function colourNumber(colour: string, what: string): number {
+    const entry = Object.entries(bbcMicroColours).find(([, name]) => name === colour);
+    if (!entry) throw new Error(`${what} ${colour} is not a BBC Micro colour name`);
+    return Number(entry[0]);
+}
+
+// ============================================================================
+// Main encoder
+// ============================================================================
+
+/**
+ * Encode a level into the tables for level `slot` (0-5). Colours are BBC
+ * Micro colour names, as the decoder produces. The name is not stored.
+ */
+export function encodeLevel(level: Level, slot: number): LevelTables {
+    const door = doorConfigs[slot] ?? null;
+    if (!sameDoor(level.doorConfig, door)) {
+        throw new Error(door
+            ? `Level ${slot}'s door is drawn by its 6502 code, so the level must have that door: ${JSON.stringify(door)}`
+            : `Level ${slot} has no door code, so the level can't have a door`);
+    }
+    return {
+        terrain: encodeTerrain(level.polygons),
+        objects: encodeObjects(level),
+        reset: encodeSpawnPoints(level),
+        landscapeColour: colourNumber(level.terrainColor, "Terrain colour"),
+        objectColour: colourNumber(level.objectColor, "Object colour"),
+        gravityFrac: expectByte(level.gravity, "Gravity"),
+    };
+}
+
+// ============================================================================
+// Assembly output
+// ============================================================================
+
+const BYTES_PER_LINE = 16;
+
+function hexByte(value: number): string {
+    return `&${value.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+function equb(label: string, bytes: number[]): string[] {
+    const lines = [`.${label}`];
+    for (let i = 0; i < bytes.length; i += BYTES_PER_LINE) {
+        lines.push(`    EQUB ${bytes.slice(i, i + BYTES_PER_LINE).map(hexByte).join(",")}`);
+    }
+    return lines;
+}
+
+/**
+ * The tables as BeebAsm source. Each level's own tables get labels named
+ * after level-data.ts; the entries of the original's shared per-level
+ * tables are listed as comments to patch in by hand.
+ */
+export function formatLevelAsm(tables: LevelTables, slot: number): string {
+    const label = (table: string) => `level_${slot}_${table}`;
+    return [
+        `\\ Level ${slot} - generated by encode-levels.ts`,
+        `\\ level_landscape_colour[${slot}] = ${hexByte(tables.landscapeColour)}`,
+        `\\ level_object_colour[${slot}] = ${hexByte(tables.objectColour)}`,
+        `\\ level_gravity_FRAC_table[${slot}] = ${hexByte(tables.gravityFrac)}`,
+        ``,
+        `\\ Left wall: row counts, then x increments`,
+        ...equb(label("terrain_A"), tables.terrain.A),
+        ...equb(label("terrain_B"), tables.terrain.B),
+        `\\ Right wall: row counts, then x increments`,
+        ...equb(label("terrain_C"), tables.terrain.C),
+        ...equb(label("terrain_D"), tables.terrain.D),
+        ``,
+        ...equb(label("obj_pos_X"), tables.objects.posX),
+        ...equb(label("obj_pos_Y"), tables.objects.posY),
+        ...equb(label("obj_pos_Y_EXT"), tables.objects.posYE),
+        ...equb(label("obj_type"), tables.objects.types),
+        ...equb(label("gun_param"), tables.objects.gunParams),
+        ``,
+        `\\ Reset data: ${tables.reset.size} spawn point(s) in six stripes - midpoint Y high, midpoint Y low,`,
+        `\\ window X, window Y high, window Y low, midpoint X - 4`,
+        ...equb(label("reset_data"), tables.reset.data),
+        ``,
+    ].join("\n");
+}
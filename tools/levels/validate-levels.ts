@@ -0,0 +1,50 @@
+#!/usr/bin/env npx tsx
+
+import * as fs from "fs";
+import { Level, levels } from "../../src/levels";
+import { parseLevelFile } from "../../src/levelFile";
+import { validateLevel, formatLevelIssue } from "../../src/levelValidator";
+
+/**
+ * Level validator CLI
+ *
+ * Runs validateLevel() over level files or the built-in levels and prints
+ * every issue, one per line. Exits 1 if any level has an error (warnings
+ * alone don't fail), or if a file can't be read as a level.
+ *
+ * Usage (from tools/levels):
+ *   npx tsx validate-levels.ts                 check the six built-in levels
+ *   npx tsx validate-levels.ts a.json b.json   check level files
+ */
+
+function loadLevels(paths: string[]): { label: string; level: Level }[] {
+  if (paths.length === 0) {
+    return levels.map(level => ({ label: level.name, level }));
+  }
+  return paths.map(file => {
+    try {
+      return { label: file, level: parseLevelFile(fs.readFileSync(file, "utf8")) };
+    } catch (e) {
+      throw new Error(`${file}: ${(e as Error).message}`);
+    }
+  });
+}
+
+let failed = false;
+let entries: { label: string; level: Level }[];
+try {
+  entries = loadLevels(process.argv.slice(2));
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
+
+for (const { label, level } of entries) {
+  const issues = validateLevel(level);
+  const errors = issues.filter(issue => issue.severity === "error").length;
+  console.log(`${label}: ${errors} error(s), ${issues.length - errors} warning(s)`);
+  for (const issue of issues) console.log(`  ${formatLevelIssue(issue)}`);
+  if (errors > 0) failed = true;
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,148 @@
+const path = require('path');
+const fs = require('fs');
+const zlib = require('zlib');
+
+// ============================================================================
+// Collision mask extractor
+// ============================================================================
+// Reads the game's sprite PNGs (src/sprites) and writes src/collisionSprites.ts:
+// the ship collision masks and the object sprite dimensions used by the
+// collision buffer. This lets the simulation run without a DOM — the browser
+// derives the same data at runtime in loadShipSprites()/loadSprite().
+//
+// Pixel rule matches loadShipSprites(): a pixel is solid unless it is
+// transparent or dark (r, g and b all below 128).
+//
+// Usage: node extract-collision-masks.js
+
+const SPRITES_DIR = path.join(__dirname, '..', '..', 'src', 'sprites');
+const OUT_FILE = path.join(__dirname, '..', '..', 'src', 'collisionSprites.ts');
+
+const SHIP_SPRITE_COUNT = 32;
+const OBJECT_SPRITES = {
+  fuel: 'fuel.png',
+  turret: 'gun_up_right.png',
+  powerPlant: 'powerPlant.png',
+  podStand: 'pod_stand.png',
+  pod: 'pod.png',
+  switch: 'switch_left.png',
+};
+
+// ============================================================================
+// Minimal PNG decoder (8-bit RGBA / RGB, non-interlaced)
+// ============================================================================
+
+function paeth(a, b, c) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+function decodePng(file) {
+  const buf = fs.readFileSync(file);
+  let pos = 8; // skip signature
+  let width = 0, height = 0, colourType = 0;
+  const idat = [];
+
+  while (pos < buf.length) {
+    const len = buf.readUInt32BE(pos);
+    const type = buf.toString('ascii', pos + 4, pos + 8);
+    const data = buf.subarray(pos + 8, pos + 8 + len);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      const bitDepth = data[8];
+      colourType = data[9];
+      if (bitDepth !== 8 || (colourType !== 6 && colourType !== 2) || data[12] !== 0) {
+        throw new Error(`${file}: unsupported PNG format`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    }
+    pos += 12 + len;
+  }
+
+  const bpp = colourType === 6 ? 4 : 3;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const stride = width * bpp;
+  const pixels = Buffer.alloc(width * height * 4);
+  let prev = Buffer.alloc(stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = Buffer.from(raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    for (let i = 0; i < stride; i++) {
+      const a = i >= bpp ? line[i - bpp] : 0;
+      const b = prev[i];
+      const c = i >= bpp ? prev[i - bpp] : 0;
+      switch (filter) {
+        case 0: break;
+        case 1: line[i] = (line[i] + a) & 0xFF; break;
+        case 2: line[i] = (line[i] + b) & 0xFF; break;
+        case 3: line[i] = (line[i] + ((a + b) >> 1)) & 0xFF; break;
+        case 4: line[i] = (line[i] + paeth(a, b, c)) & 0xFF; break;
+        default: throw new Error(`${file}: bad filter ${filter}`);
+      }
+    }
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      pixels[o] = line[x * bpp];
+      pixels[o + 1] = line[x * bpp + 1];
+      pixels[o + 2] = line[x * bpp + 2];
+      pixels[o + 3] = bpp === 4 ? line[x * bpp + 3] : 255;
+    }
+    prev = line;
+  }
+
+  return { width, height, pixels };
+}
+
+// ============================================================================
+// Mask extraction
+// ============================================================================
+
+function extractMask(png) {
+  const mask = [];
+  for (let y = 0; y < png.height; y++) {
+    for (let x = 0; x < png.width; x++) {
+      const o = (y * png.width + x) * 4;
+      const r = png.pixels[o], g = png.pixels[o + 1], b = png.pixels[o + 2], a = png.pixels[o + 3];
+      if (a === 0) continue;
+      if (r < 128 && g < 128 && b < 128) continue;
+      mask.push(x, y);
+    }
+  }
+  return mask;
+}
+
+function main() {
+  const lines = [];
+  lines.push('// Auto-generated from src/sprites/*.png');
+  lines.push('// Generated by tools/sprites/extract-collision-masks.js — do not edit by hand');
+  lines.push('');
+  lines.push('/** Ship collision masks as flattened [dx, dy, dx, dy, ...] pairs, indexed by sprite (0-31). */');
+  lines.push('export const SHIP_MASK_DATA: readonly (readonly number[])[] = [');
+  for (let i = 0; i < SHIP_SPRITE_COUNT; i++) {
+    const name = `ship_${String(i).padStart(2, '0')}.png`;
+    const mask = extractMask(decodePng(path.join(SPRITES_DIR, name)));
+    lines.push(`  [${mask.join(',')}],`);
+  }
+  lines.push('];');
+  lines.push('');
+  lines.push('/** Sprite dimensions (screen pixels) of the objects drawn into the collision buffer. */');
+  lines.push('export const OBJECT_SPRITE_SIZES = {');
+  for (const [key, file] of Object.entries(OBJECT_SPRITES)) {
+    const png = decodePng(path.join(SPRITES_DIR, file));
+    lines.push(`  ${key}: { width: ${png.width}, height: ${png.height} },`);
+  }
+  lines.push('} as const;');
+  lines.push('');
+
+  fs.writeFileSync(OUT_FILE, lines.join('\n'));
+  console.log(`Wrote ${OUT_FILE}`);
+}
+
+main();